@@ -1,7 +1,12 @@
 // next.config.ts - Use Next.js native PWA support
 import { NextConfig } from 'next';
+import packageJson from './package.json';
 
 const nextConfig: NextConfig = {
+  env: {
+    // Reported by displays in their heartbeat
+    NEXT_PUBLIC_APP_VERSION: packageJson.version,
+  },
   turbopack: {
     rules: {
       '*.svg': {
@@ -86,7 +86,8 @@ self.addEventListener('fetch', (event) => {
   // Skip authentication and API requests that need fresh data
   if (url.pathname.includes('/auth/') || 
       url.pathname.includes('/api/upload') ||
-      url.pathname.includes('/api/delete')) {
+      url.pathname.includes('/api/delete') ||
+      url.pathname.includes('/api/time')) {
     return;
   }
 
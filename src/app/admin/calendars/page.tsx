@@ -0,0 +1,345 @@
+// src/app/admin/calendars/page.tsx - Holiday and blackout calendars
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { calendarApi, calendarUtils, ScheduleCalendar, CalendarEntry } from '@/lib/calendars';
+import { CalendarDays, Plus, Trash2, AlertCircle, RefreshCw, Upload, Save } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function CalendarsPage() {
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [newCalendarName, setNewCalendarName] = useState('');
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      setCalendars(await calendarApi.getCalendars());
+    } catch (error) {
+      console.error('Error loading calendars:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load calendars');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectedCalendar = calendars.find(c => c.id === selectedCalendarId);
+
+  // Edits are kept locally until saved
+  useEffect(() => {
+    setName(selectedCalendar?.name || '');
+    setDescription(selectedCalendar?.description || '');
+    setEntries(selectedCalendar?.entries || []);
+  }, [selectedCalendar]);
+
+  const addCalendar = async () => {
+    if (!newCalendarName.trim()) return;
+
+    try {
+      const calendar = await calendarApi.addCalendar(newCalendarName.trim());
+      setNewCalendarName('');
+      await loadData();
+      setSelectedCalendarId(calendar.id);
+    } catch (error) {
+      console.error('Error adding calendar:', error);
+      alert(`Error adding calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const deleteCalendar = async (calendar: ScheduleCalendar) => {
+    if (!confirm(`Are you sure you want to delete the calendar "${calendar.name}"? Schedules that use it will ignore it.`)) return;
+
+    try {
+      await calendarApi.deleteCalendar(calendar.id);
+      if (selectedCalendarId === calendar.id) {
+        setSelectedCalendarId(null);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Error deleting calendar:', error);
+    }
+  };
+
+  const updateEntry = (index: number, updates: Partial<CalendarEntry>) => {
+    setEntries(prev => prev.map((entry, i) => {
+      if (i !== index) return entry;
+      const updated = { ...entry, ...updates };
+      // Keep single days simple: moving the start past the end moves the end too
+      if (updated.end_date < updated.start_date) updated.end_date = updated.start_date;
+      return updated;
+    }));
+  };
+
+  const addEntry = () => {
+    setEntries(prev => [...prev, { start_date: today(), end_date: today(), label: '' }]);
+  };
+
+  const removeEntry = (index: number) => {
+    setEntries(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const importIcs = async (file?: File) => {
+    if (!file) return;
+
+    try {
+      const imported = calendarUtils.parseIcs(await file.text());
+      const existing = new Set(entries.map(entry => `${entry.start_date}:${entry.end_date}`));
+      const added = imported.filter(entry => !existing.has(`${entry.start_date}:${entry.end_date}`));
+      setEntries(prev => [...prev, ...added].sort((a, b) => a.start_date.localeCompare(b.start_date)));
+      alert(`Imported ${added.length} date(s) from ${file.name}. Save to keep them.`);
+    } catch (error) {
+      console.error('Error importing calendar file:', error);
+      alert(`Error importing calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const saveCalendar = async () => {
+    if (!selectedCalendarId || !name.trim()) return;
+
+    setSaving(true);
+    try {
+      await calendarApi.updateCalendar(selectedCalendarId, {
+        name: name.trim(),
+        description: description.trim() || null,
+        entries: entries
+          .filter(entry => entry.start_date && entry.end_date)
+          .map(entry => ({ ...entry, label: entry.label?.trim() || null }))
+          .sort((a, b) => a.start_date.localeCompare(b.start_date)),
+      });
+      await loadData();
+    } catch (error) {
+      console.error('Error saving calendar:', error);
+      alert(`Error saving calendar: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Calendars</h1>
+          <p className="text-gray-600">Holiday and blackout dates that schedules can include or exclude</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Calendar List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">All Calendars</h2>
+
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={newCalendarName}
+                onChange={(e) => setNewCalendarName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addCalendar()}
+                placeholder="e.g. Public holidays"
+                className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={addCalendar}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                title="Create calendar"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center space-x-2 text-gray-500 text-sm">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                <span>Loading calendars...</span>
+              </div>
+            ) : calendars.length === 0 ? (
+              <p className="text-sm text-gray-500">No calendars yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {calendars.map(calendar => (
+                  <li key={calendar.id}>
+                    <div
+                      className={`flex items-center justify-between p-2 rounded-lg cursor-pointer ${
+                        calendar.id === selectedCalendarId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      }`}
+                      onClick={() => setSelectedCalendarId(calendar.id)}
+                    >
+                      <span className="flex items-center space-x-2">
+                        <CalendarDays className="h-4 w-4" />
+                        <span>{calendar.name}</span>
+                        <span className="text-xs text-gray-400">{calendar.entries.length}</span>
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteCalendar(calendar);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete calendar"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Calendar Editor */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            {!selectedCalendar ? (
+              <div className="p-8 text-center text-gray-500">
+                Select a calendar to edit its dates.
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b border-gray-200 space-y-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                    <input
+                      type="text"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      placeholder="Optional"
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">{entries.length} date(s) or date range(s)</p>
+                  <div className="flex space-x-2">
+                    <label
+                      className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 cursor-pointer hover:bg-gray-50"
+                      title="Import dates from an iCalendar (.ics) file"
+                    >
+                      <Upload className="h-4 w-4" />
+                      <span>Import .ics</span>
+                      <input
+                        type="file"
+                        accept=".ics,text/calendar"
+                        className="hidden"
+                        onChange={(e) => {
+                          importIcs(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    <button
+                      onClick={addEntry}
+                      className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add Date</span>
+                    </button>
+                  </div>
+                </div>
+
+                {entries.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No dates yet. Add them one by one or import an .ics file.
+                  </div>
+                ) : (
+                  <div className="divide-y divide-gray-200 max-h-[32rem] overflow-y-auto">
+                    {entries.map((entry, index) => (
+                      <div key={index} className="px-6 py-3 flex items-end space-x-3">
+                        <label className="text-xs text-gray-500">
+                          From
+                          <input
+                            type="date"
+                            value={entry.start_date}
+                            onChange={(e) => updateEntry(index, { start_date: e.target.value })}
+                            className="block mt-1 p-1 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="text-xs text-gray-500">
+                          To
+                          <input
+                            type="date"
+                            value={entry.end_date}
+                            min={entry.start_date}
+                            onChange={(e) => updateEntry(index, { end_date: e.target.value })}
+                            className="block mt-1 p-1 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <label className="flex-1 text-xs text-gray-500">
+                          Label
+                          <input
+                            type="text"
+                            value={entry.label || ''}
+                            onChange={(e) => updateEntry(index, { label: e.target.value })}
+                            placeholder="e.g. Christmas Day"
+                            className="block w-full mt-1 p-1 border border-gray-300 rounded"
+                          />
+                        </label>
+                        <button
+                          onClick={() => removeEntry(index)}
+                          className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Remove date"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+                  <button
+                    onClick={saveCalendar}
+                    disabled={saving || !name.trim()}
+                    className="flex items-center space-x-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{saving ? 'Saving...' : 'Save Calendar'}</span>
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+// src/app/admin/dayparts/page.tsx - Weekly dayparting grid mapping time slots to playlists per screen
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { screenApi, Screen } from '@/lib/screens';
+import { playlistApi, Playlist } from '@/lib/playlists';
+import { daypartUtils, DaypartGrid, DAYPART_SLOTS_PER_DAY } from '@/lib/dayparts';
+import { Clock, Monitor, Eraser, Save, AlertCircle, RefreshCw } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+// Monday first, as operators plan their week
+const WEEKDAYS = [
+  { index: 1, label: 'Mon' },
+  { index: 2, label: 'Tue' },
+  { index: 3, label: 'Wed' },
+  { index: 4, label: 'Thu' },
+  { index: 5, label: 'Fri' },
+  { index: 6, label: 'Sat' },
+  { index: 0, label: 'Sun' },
+];
+
+const PLAYLIST_COLORS = [
+  'bg-blue-500', 'bg-green-500', 'bg-amber-500', 'bg-purple-500',
+  'bg-pink-500', 'bg-teal-500', 'bg-red-500', 'bg-indigo-500',
+];
+
+// null paints slots back to the screen's default content
+type Brush = string | null;
+
+export default function DaypartsPage() {
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [selectedScreenId, setSelectedScreenId] = useState<string | null>(null);
+  const [grid, setGrid] = useState<DaypartGrid>(() => daypartUtils.toGrid([]));
+  const [brush, setBrush] = useState<Brush>(null);
+  const [painting, setPainting] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [screenData, playlistData] = await Promise.all([
+        screenApi.getScreens(),
+        playlistApi.getPlaylists(),
+      ]);
+      setScreens(screenData);
+      setPlaylists(playlistData);
+      setBrush(current => current ?? playlistData[0]?.id ?? null);
+    } catch (error) {
+      console.error('Error loading dayparts:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load screens and playlists');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectedScreen = screens.find(s => s.id === selectedScreenId);
+
+  useEffect(() => {
+    setGrid(daypartUtils.toGrid(selectedScreen?.dayparts));
+    setDirty(false);
+  }, [selectedScreen]);
+
+  // Painting stops wherever the mouse is released
+  useEffect(() => {
+    const stopPainting = () => setPainting(false);
+    window.addEventListener('mouseup', stopPainting);
+    return () => window.removeEventListener('mouseup', stopPainting);
+  }, []);
+
+  const selectScreen = (screenId: string) => {
+    if (dirty && !confirm('Discard the unsaved changes to this screen\'s dayparts?')) return;
+    setSelectedScreenId(screenId);
+  };
+
+  const paint = (weekday: number, slot: number) => {
+    if (grid[weekday][slot] === brush) return;
+    setGrid(prev => prev.map((slots, day) =>
+      day === weekday ? slots.map((value, index) => (index === slot ? brush : value)) : slots
+    ));
+    setDirty(true);
+  };
+
+  // Copies Monday's slots to Tuesday-Friday
+  const copyMondayToWeekdays = () => {
+    setGrid(prev => prev.map((slots, day) => (day >= 2 && day <= 5 ? [...prev[1]] : slots)));
+    setDirty(true);
+  };
+
+  const clearGrid = () => {
+    if (!confirm('Clear every slot for this screen?')) return;
+    setGrid(daypartUtils.toGrid([]));
+    setDirty(true);
+  };
+
+  const saveDayparts = async () => {
+    if (!selectedScreen) return;
+
+    setSaving(true);
+    try {
+      await screenApi.updateScreen(selectedScreen.id, { dayparts: daypartUtils.fromGrid(grid) });
+      await loadData();
+    } catch (error) {
+      console.error('Error saving dayparts:', error);
+      alert(`Error saving dayparts: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const playlistColor = (playlistId: string | null) => {
+    const index = playlists.findIndex(p => p.id === playlistId);
+    if (playlistId && index === -1) return 'bg-gray-400'; // Deleted playlist
+    return index === -1 ? 'bg-gray-100' : PLAYLIST_COLORS[index % PLAYLIST_COLORS.length];
+  };
+
+  const playlistName = (playlistId: string | null | undefined) =>
+    playlists.find(p => p.id === playlistId)?.name || 'Deleted playlist';
+
+  const defaultContent = selectedScreen?.playlist_id
+    ? `playlist "${playlistName(selectedScreen.playlist_id)}"`
+    : 'its assigned videos';
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Dayparting</h1>
+          <p className="text-gray-600">Switch each screen between playlists on a weekly schedule, e.g. breakfast, lunch and dinner menus</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Screen List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Screens</h2>
+
+            {loading ? (
+              <div className="flex items-center space-x-2 text-gray-500 text-sm">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                <span>Loading screens...</span>
+              </div>
+            ) : screens.length === 0 ? (
+              <p className="text-sm text-gray-500">No screens yet. Add one in Screens first.</p>
+            ) : (
+              <ul className="space-y-1">
+                {screens.map(screen => (
+                  <li key={screen.id}>
+                    <div
+                      className={`flex items-center justify-between p-2 rounded-lg cursor-pointer ${
+                        screen.id === selectedScreenId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      }`}
+                      onClick={() => selectScreen(screen.id)}
+                    >
+                      <span className="flex items-center space-x-2">
+                        <Monitor className="h-4 w-4" />
+                        <span>{screen.name}</span>
+                      </span>
+                      {screen.dayparts && screen.dayparts.length > 0 && (
+                        <span className="text-xs text-gray-400">{screen.dayparts.length} slot(s)</span>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Weekly Grid */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            {!selectedScreen ? (
+              <div className="p-8 text-center text-gray-500">
+                Select a screen to edit its weekly dayparts.
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">{selectedScreen.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    Times are in {selectedScreen.timezone || 'UTC'}. Empty slots play {defaultContent}. Each video&apos;s own schedule still applies inside the active playlist.
+                  </p>
+                </div>
+
+                {/* Brushes */}
+                <div className="px-6 py-4 border-b border-gray-200 flex flex-wrap gap-2">
+                  {playlists.map(playlist => (
+                    <button
+                      key={playlist.id}
+                      onClick={() => setBrush(playlist.id)}
+                      className={`flex items-center space-x-2 px-3 py-1 rounded-lg text-sm border ${
+                        brush === playlist.id ? 'border-gray-900 ring-1 ring-gray-900' : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      <span className={`h-3 w-3 rounded-sm ${playlistColor(playlist.id)}`} />
+                      <span>{playlist.name}</span>
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => setBrush(null)}
+                    className={`flex items-center space-x-2 px-3 py-1 rounded-lg text-sm border ${
+                      brush === null ? 'border-gray-900 ring-1 ring-gray-900' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    <Eraser className="h-3 w-3" />
+                    <span>Default content</span>
+                  </button>
+                  {playlists.length === 0 && (
+                    <p className="text-sm text-gray-500">Create playlists in Playlists to use them here.</p>
+                  )}
+                </div>
+
+                <div className="p-4 overflow-x-auto select-none">
+                  <div className="min-w-[32rem]">
+                    <div className="flex">
+                      <div className="w-14 flex-shrink-0" />
+                      {WEEKDAYS.map(day => (
+                        <div key={day.index} className="flex-1 text-center text-xs font-medium text-gray-500 pb-1">
+                          {day.label}
+                        </div>
+                      ))}
+                    </div>
+
+                    {Array.from({ length: DAYPART_SLOTS_PER_DAY }, (_, slot) => (
+                      <div key={slot} className="flex h-3">
+                        <div className="w-14 flex-shrink-0 pr-2 text-[10px] leading-3 text-right text-gray-500">
+                          {slot % 2 === 0 ? daypartUtils.formatSlotTime(slot) : ''}
+                        </div>
+                        {WEEKDAYS.map(day => (
+                          <div
+                            key={day.index}
+                            title={`${day.label} ${daypartUtils.formatSlotTime(slot)}–${daypartUtils.formatSlotTime(slot + 1)}: ${
+                              grid[day.index][slot] ? playlistName(grid[day.index][slot]) : 'default content'
+                            }`}
+                            onMouseDown={() => {
+                              setPainting(true);
+                              paint(day.index, slot);
+                            }}
+                            onMouseEnter={() => painting && paint(day.index, slot)}
+                            className={`flex-1 cursor-pointer border-r border-white ${
+                              slot % 2 === 0 ? 'border-t' : ''
+                            } ${playlistColor(grid[day.index][slot])}`}
+                          />
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between">
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={copyMondayToWeekdays}
+                      className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      <Clock className="w-4 h-4" />
+                      <span>Copy Monday to Tue–Fri</span>
+                    </button>
+                    <button
+                      onClick={clearGrid}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                    >
+                      Clear All
+                    </button>
+                  </div>
+                  <button
+                    onClick={saveDayparts}
+                    disabled={saving || !dirty}
+                    className="flex items-center space-x-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{saving ? 'Saving...' : 'Save Dayparts'}</span>
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+// src/app/admin/devices/page.tsx - Pair display devices and assign them to screens
+'use client';
+
+import { useState, useEffect } from 'react';
+import { screenApi, Screen } from '@/lib/screens';
+import { deviceApi, deviceUtils, Device } from '@/lib/devices';
+import { fleetUtils } from '@/lib/fleet';
+import { Tv, Link2, Trash2, Ban, AlertCircle, RefreshCw, CheckCircle } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+export default function DevicesPage() {
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [pairingCode, setPairingCode] = useState('');
+  const [pairingScreenId, setPairingScreenId] = useState('');
+  const [deviceName, setDeviceName] = useState('');
+  const [claiming, setClaiming] = useState(false);
+  const [claimResult, setClaimResult] = useState<{ success: boolean; message: string } | null>(null);
+
+  useEffect(() => {
+    loadData();
+
+    // Pre-fill the code when opened from the QR code on a display
+    const code = new URLSearchParams(window.location.search).get('code');
+    if (code) {
+      setPairingCode(deviceUtils.normalizePairingCode(code));
+    }
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [deviceData, screenData] = await Promise.all([
+        deviceApi.getDevices(),
+        screenApi.getScreens(),
+      ]);
+      setDevices(deviceData);
+      setScreens(screenData);
+    } catch (error) {
+      console.error('Error loading devices:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load devices');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const claimDevice = async () => {
+    if (!pairingCode || !pairingScreenId) {
+      setClaimResult({ success: false, message: 'Enter the pairing code and choose a screen' });
+      return;
+    }
+
+    setClaiming(true);
+    setClaimResult(null);
+
+    try {
+      const device = await deviceApi.claimDevice(pairingCode, pairingScreenId, deviceName || undefined);
+      const screenName = screens.find(s => s.id === device.screen_id)?.name;
+      setClaimResult({ success: true, message: `Display paired to ${screenName || 'screen'}` });
+      setPairingCode('');
+      setDeviceName('');
+      loadData();
+    } catch (error) {
+      console.error('Error claiming device:', error);
+      setClaimResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to pair display',
+      });
+    } finally {
+      setClaiming(false);
+    }
+  };
+
+  const reassignDevice = async (device: Device, screenId: string) => {
+    try {
+      await deviceApi.updateDevice(device.id, { screen_id: screenId });
+      loadData();
+    } catch (error) {
+      console.error('Error reassigning device:', error);
+      alert('Error reassigning device');
+    }
+  };
+
+  const revokeDevice = async (device: Device) => {
+    if (!confirm(`Revoke "${device.name || 'this display'}"? It will show a new pairing code.`)) return;
+
+    try {
+      await deviceApi.updateDevice(device.id, { status: 'revoked' });
+      loadData();
+    } catch (error) {
+      console.error('Error revoking device:', error);
+    }
+  };
+
+  const deleteDevice = async (device: Device) => {
+    if (!confirm(`Delete "${device.name || 'this display'}"?`)) return;
+
+    try {
+      await deviceApi.deleteDevice(device.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting device:', error);
+    }
+  };
+
+  const statusBadge = (device: Device) => {
+    switch (device.status) {
+      case 'paired':
+        return 'bg-green-100 text-green-700';
+      case 'pending':
+        return 'bg-yellow-100 text-yellow-700';
+      default:
+        return 'bg-gray-100 text-gray-600';
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Devices</h1>
+          <p className="text-gray-600">Pair new displays with the code they show and assign them to screens</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Claim Form */}
+          <div className="bg-white rounded-lg shadow p-6 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Pair a Display</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pairing Code</label>
+                <input
+                  type="text"
+                  value={pairingCode}
+                  onChange={(e) => setPairingCode(deviceUtils.normalizePairingCode(e.target.value))}
+                  placeholder="ABC123"
+                  maxLength={6}
+                  className="w-full p-2 border border-gray-300 rounded-lg font-mono text-2xl tracking-widest text-center uppercase focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Screen</label>
+                <select
+                  value={pairingScreenId}
+                  onChange={(e) => setPairingScreenId(e.target.value)}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Select a screen...</option>
+                  {screens.map(screen => (
+                    <option key={screen.id} value={screen.id}>{screen.name}</option>
+                  ))}
+                </select>
+                {screens.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Create a screen first under <a href="/admin/screens" className="underline">Screens</a>.
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Device Name (optional)</label>
+                <input
+                  type="text"
+                  value={deviceName}
+                  onChange={(e) => setDeviceName(e.target.value)}
+                  placeholder="Lobby kiosk (left)"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <button
+                onClick={claimDevice}
+                disabled={claiming}
+                className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Link2 className="w-4 h-4" />
+                <span>{claiming ? 'Pairing...' : 'Pair Display'}</span>
+              </button>
+
+              {claimResult && (
+                <div className={`p-3 rounded-md flex items-center text-sm ${
+                  claimResult.success ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                }`}>
+                  {claimResult.success
+                    ? <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+                    : <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />}
+                  <span>{claimResult.message}</span>
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Device List */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Devices ({devices.filter(d => d.status === 'paired').length} paired)
+              </h2>
+              <button
+                onClick={loadData}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-500 hover:text-gray-700"
+                title="Refresh devices"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="text-sm">Refresh</span>
+              </button>
+            </div>
+
+            {!loading && devices.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No devices yet. Open /display on a new kiosk to get a pairing code.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {devices.map(device => (
+                  <div key={device.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <Tv className="h-8 w-8 text-gray-400 flex-shrink-0" />
+                      <div className="min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <p className="text-lg font-medium text-gray-900 truncate">
+                            {device.name || (device.status === 'pending' ? `Code ${device.pairing_code}` : 'Unnamed display')}
+                          </p>
+                          <span className={`px-2 py-0.5 text-xs rounded ${statusBadge(device)}`}>
+                            {device.status}
+                          </span>
+                        </div>
+                        <p className="text-sm text-gray-500">
+                          {device.paired_at
+                            ? `Paired ${new Date(device.paired_at).toLocaleString()}`
+                            : device.pairing_expires_at
+                              ? `Code expires ${new Date(device.pairing_expires_at).toLocaleTimeString()}`
+                              : `Created ${new Date(device.created_at).toLocaleString()}`}
+                          {device.status === 'paired' && ` · Last seen ${fleetUtils.formatLastSeen(device.last_seen_at)}`}
+                        </p>
+                        {device.user_agent && (
+                          <p className="text-xs text-gray-400 truncate max-w-md">{device.user_agent}</p>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      {device.status === 'paired' && (
+                        <select
+                          value={device.screen_id || ''}
+                          onChange={(e) => reassignDevice(device, e.target.value)}
+                          className="p-2 text-sm border border-gray-300 rounded-lg"
+                          title="Assigned screen"
+                        >
+                          {screens.map(screen => (
+                            <option key={screen.id} value={screen.id}>{screen.name}</option>
+                          ))}
+                        </select>
+                      )}
+                      {device.status === 'paired' && (
+                        <button
+                          onClick={() => revokeDevice(device)}
+                          className="p-2 text-gray-400 hover:text-yellow-600 transition-colors"
+                          title="Revoke Device"
+                        >
+                          <Ban className="h-5 w-5" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => deleteDevice(device)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete Device"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+// src/app/admin/fleet/page.tsx - Fleet health dashboard
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { videoApi, Video } from '@/lib/supabase';
+import { screenApi, Screen } from '@/lib/screens';
+import { deviceApi, Device } from '@/lib/devices';
+import { fleetApi, fleetUtils, DeviceHealth, HealthThresholds, DEFAULT_HEALTH_THRESHOLDS } from '@/lib/fleet';
+import { commandApi, DisplayCommand } from '@/lib/commands';
+import { Activity, AlertCircle, AlertTriangle, RefreshCw, Tv, WifiOff } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+import ScreenCommands from '@/components/ScreenCommands';
+
+const healthStyles: Record<DeviceHealth, { badge: string; card: string; label: string }> = {
+  online: { badge: 'bg-green-100 text-green-700', card: 'border-gray-200', label: 'Online' },
+  stale: { badge: 'bg-yellow-100 text-yellow-800', card: 'border-yellow-400 bg-yellow-50', label: 'Stale' },
+  offline: { badge: 'bg-red-100 text-red-700', card: 'border-red-300 bg-red-50', label: 'Offline' },
+};
+
+export default function FleetPage() {
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [commands, setCommands] = useState<DisplayCommand[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [thresholds, setThresholds] = useState<HealthThresholds>(DEFAULT_HEALTH_THRESHOLDS);
+  const [now, setNow] = useState(() => new Date());
+
+  const loadDevices = useCallback(async () => {
+    try {
+      const data = await deviceApi.getDevices();
+      setDevices(data.filter(d => d.status === 'paired'));
+    } catch (error) {
+      console.error('Error loading devices:', error);
+    }
+  }, []);
+
+  const loadCommands = useCallback(async () => {
+    try {
+      setCommands(await commandApi.getRecentCommands());
+    } catch (error) {
+      // Remote commands are optional - the fleet view still works without the table
+      console.warn('Unable to load commands:', error);
+    }
+  }, []);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [screenData, deviceData, videoData] = await Promise.all([
+        screenApi.getScreens(),
+        deviceApi.getDevices(),
+        videoApi.getAllVideos(),
+      ]);
+      setScreens(screenData);
+      setDevices(deviceData.filter(d => d.status === 'paired'));
+      setVideos(videoData);
+      loadCommands();
+    } catch (error) {
+      console.error('Error loading fleet:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load fleet status');
+    } finally {
+      setLoading(false);
+    }
+  }, [loadCommands]);
+
+  useEffect(() => {
+    setThresholds(fleetUtils.getStoredThresholds());
+    loadData();
+
+    // Heartbeats arrive through realtime; the clock keeps "last seen" current between them
+    const subscription = fleetApi.subscribeToDevices(() => {
+      loadDevices();
+    });
+    const commandSubscription = commandApi.subscribeToCommands(() => {
+      loadCommands();
+    });
+    const clock = setInterval(() => setNow(new Date()), 10000);
+
+    return () => {
+      subscription.unsubscribe();
+      commandSubscription.unsubscribe();
+      clearInterval(clock);
+    };
+  }, [loadData, loadDevices, loadCommands]);
+
+  const updateThreshold = (key: keyof HealthThresholds, minutes: number) => {
+    const next = { ...thresholds, [key]: Math.max(1, minutes) * 60 };
+    setThresholds(next);
+    fleetUtils.storeThresholds(next);
+  };
+
+  const healthFor = (device: Device) => fleetUtils.getDeviceHealth(device, thresholds, now);
+  const videoTitle = (videoId?: string | null) =>
+    videoId ? videos.find(v => v.id === videoId)?.title || 'Unknown video' : 'Nothing playing';
+
+  const counts: Record<DeviceHealth, number> = { online: 0, stale: 0, offline: 0 };
+  devices.forEach(device => {
+    counts[healthFor(device)] += 1;
+  });
+
+  const unassignedDevices = devices.filter(d => !screens.some(s => s.id === d.screen_id));
+
+  const renderDevice = (device: Device) => {
+    const health = healthFor(device);
+    const style = healthStyles[health];
+
+    return (
+      <div key={device.id} className={`p-4 border rounded-lg ${style.card}`}>
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <Tv className="h-4 w-4 text-gray-500" />
+            <span className="font-medium text-gray-900">{device.name || 'Unnamed display'}</span>
+          </div>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded ${style.badge}`}>
+            {style.label}
+          </span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600">
+          <div><strong>Last seen:</strong> {fleetUtils.formatLastSeen(device.last_seen_at, now)}</div>
+          <div>
+            <strong>Network:</strong>{' '}
+            {device.is_online === false ? (
+              <span className="inline-flex items-center text-red-600"><WifiOff className="h-3 w-3 mr-1" />Offline</span>
+            ) : 'Online'}
+          </div>
+          <div className="col-span-2 truncate">
+            <strong>Playing:</strong> {videoTitle(device.current_video_id)}
+            {typeof device.playback_position === 'number' && device.current_video_id && (
+              <span className="text-gray-400"> @ {device.playback_position.toFixed(0)}s</span>
+            )}
+          </div>
+          <div>
+            <strong>SW:</strong>{' '}
+            {device.sw_status
+              ? device.sw_status.isRegistered
+                ? device.sw_status.isUpdateAvailable ? 'Update waiting' : 'Active'
+                : device.sw_status.isDevelopment ? 'Dev mode' : 'Inactive'
+              : 'Unknown'}
+          </div>
+          <div>
+            <strong>Cache:</strong>{' '}
+            {device.cache_usage
+              ? `${fleetUtils.formatBytes(device.cache_usage.usage)} / ${fleetUtils.formatBytes(device.cache_usage.quota)}`
+              : 'Unknown'}
+          </div>
+          <div><strong>Version:</strong> {device.app_version || 'Unknown'}</div>
+        </div>
+
+        {device.last_error && (
+          <div className="mt-2 p-2 bg-red-100 text-red-700 text-xs rounded flex items-start">
+            <AlertCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+            <span className="break-all">{device.last_error}</span>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Fleet Health</h1>
+          <p className="text-gray-600">See which displays are online and what they are playing, and send them commands</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        {/* Summary and thresholds */}
+        <div className="mb-6 bg-white rounded-lg shadow p-4 flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center space-x-4 text-sm">
+            <Activity className="h-5 w-5 text-gray-400" />
+            <span className="text-green-700">{counts.online} online</span>
+            <span className="text-yellow-700">{counts.stale} stale</span>
+            <span className="text-red-700">{counts.offline} offline</span>
+          </div>
+
+          <div className="flex items-center space-x-4 text-sm text-gray-600">
+            <label className="flex items-center space-x-2">
+              <span>Stale after</span>
+              <input
+                type="number"
+                min={1}
+                value={Math.round(thresholds.staleAfterSeconds / 60)}
+                onChange={(e) => updateThreshold('staleAfterSeconds', Number(e.target.value))}
+                className="w-16 p-1 border border-gray-300 rounded"
+              />
+              <span>min</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <span>Offline after</span>
+              <input
+                type="number"
+                min={1}
+                value={Math.round(thresholds.offlineAfterSeconds / 60)}
+                onChange={(e) => updateThreshold('offlineAfterSeconds', Number(e.target.value))}
+                className="w-16 p-1 border border-gray-300 rounded"
+              />
+              <span>min</span>
+            </label>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 text-gray-500 hover:text-gray-700"
+              title="Refresh fleet"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Screens */}
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {screens.map(screen => {
+            const screenDevices = devices.filter(d => d.screen_id === screen.id);
+            const hasProblem = screenDevices.some(d => healthFor(d) !== 'online');
+
+            return (
+              <div key={screen.id} className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{screen.name}</h2>
+                    {screen.location && <p className="text-xs text-gray-500">{screen.location}</p>}
+                  </div>
+                  {hasProblem && <AlertTriangle className="h-5 w-5 text-yellow-500" />}
+                </div>
+
+                {screenDevices.length === 0 ? (
+                  <p className="text-sm text-gray-500">No paired display</p>
+                ) : (
+                  <div className="space-y-3">
+                    {screenDevices.map(renderDevice)}
+                  </div>
+                )}
+
+                <ScreenCommands
+                  screen={screen}
+                  devices={screenDevices}
+                  videos={videos}
+                  commands={commands.filter(c => c.screen_id === screen.id)}
+                />
+              </div>
+            );
+          })}
+
+          {unassignedDevices.length > 0 && (
+            <div className="bg-white rounded-lg shadow p-4">
+              <h2 className="text-lg font-semibold text-gray-900 mb-3">Without a screen</h2>
+              <div className="space-y-3">
+                {unassignedDevices.map(renderDevice)}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {!loading && screens.length === 0 && (
+          <div className="p-8 text-center text-gray-500">
+            No screens registered yet.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
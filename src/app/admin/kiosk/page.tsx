@@ -0,0 +1,385 @@
+// src/app/admin/kiosk/page.tsx - Touch kiosk menus: categories of videos viewers can pick
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { videoApi, Video } from '@/lib/supabase';
+import { kioskApi, kioskUtils, KioskMenu, KioskCategory, DEFAULT_IDLE_TIMEOUT_SECONDS } from '@/lib/kiosk';
+import { Hand, Plus, Trash2, AlertCircle, RefreshCw, Save } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+const move = <T,>(list: T[], index: number, direction: 'up' | 'down'): T[] => {
+  const targetIndex = direction === 'up' ? index - 1 : index + 1;
+  if (targetIndex < 0 || targetIndex >= list.length) return list;
+
+  const reordered = [...list];
+  [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+  return reordered;
+};
+
+export default function KioskPage() {
+  const [menus, setMenus] = useState<KioskMenu[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [selectedMenuId, setSelectedMenuId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [newMenuName, setNewMenuName] = useState('');
+  const [name, setName] = useState('');
+  const [idleTimeout, setIdleTimeout] = useState(DEFAULT_IDLE_TIMEOUT_SECONDS);
+  const [categories, setCategories] = useState<KioskCategory[]>([]);
+  const [videosToAdd, setVideosToAdd] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [menuData, videoData] = await Promise.all([
+        kioskApi.getMenus(),
+        videoApi.getAllVideos(),
+      ]);
+      setMenus(menuData);
+      setVideos(videoData);
+    } catch (error) {
+      console.error('Error loading kiosk menus:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load kiosk menus');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const selectedMenu = menus.find(m => m.id === selectedMenuId);
+
+  // Edits are kept locally until saved
+  useEffect(() => {
+    setName(selectedMenu?.name || '');
+    setIdleTimeout(selectedMenu?.idle_timeout_seconds || DEFAULT_IDLE_TIMEOUT_SECONDS);
+    setCategories(selectedMenu?.categories || []);
+    setVideosToAdd({});
+  }, [selectedMenu]);
+
+  const addMenu = async () => {
+    if (!newMenuName.trim()) return;
+
+    try {
+      const menu = await kioskApi.addMenu(newMenuName.trim());
+      setNewMenuName('');
+      await loadData();
+      setSelectedMenuId(menu.id);
+    } catch (error) {
+      console.error('Error adding kiosk menu:', error);
+      alert(`Error adding kiosk menu: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const deleteMenu = async (menu: KioskMenu) => {
+    if (!confirm(`Are you sure you want to delete the kiosk menu "${menu.name}"? Screens using it stop responding to touch.`)) return;
+
+    try {
+      await kioskApi.deleteMenu(menu.id);
+      if (selectedMenuId === menu.id) {
+        setSelectedMenuId(null);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Error deleting kiosk menu:', error);
+    }
+  };
+
+  const updateCategory = (categoryId: string, updates: Partial<KioskCategory>) => {
+    setCategories(prev => prev.map(category => (category.id === categoryId ? { ...category, ...updates } : category)));
+  };
+
+  const addVideo = (category: KioskCategory) => {
+    const videoId = videosToAdd[category.id];
+    if (!videoId || category.video_ids.includes(videoId)) return;
+
+    updateCategory(category.id, { video_ids: [...category.video_ids, videoId] });
+    setVideosToAdd(prev => ({ ...prev, [category.id]: '' }));
+  };
+
+  const saveMenu = async () => {
+    if (!selectedMenuId || !name.trim()) return;
+
+    setSaving(true);
+    try {
+      await kioskApi.updateMenu(selectedMenuId, {
+        name: name.trim(),
+        idle_timeout_seconds: Math.max(5, Math.round(idleTimeout) || DEFAULT_IDLE_TIMEOUT_SECONDS),
+        categories: categories.map(category => ({
+          ...category,
+          name: category.name.trim() || 'Untitled',
+        })),
+      });
+      await loadData();
+    } catch (error) {
+      console.error('Error saving kiosk menu:', error);
+      alert(`Error saving kiosk menu: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const videoTitle = (videoId: string) => {
+    const video = videos.find(v => v.id === videoId);
+    if (!video) return 'Deleted video';
+    return video.is_active ? video.title : `${video.title} (inactive, hidden)`;
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Kiosk Menus</h1>
+          <p className="text-gray-600">Menus that open when someone touches a screen, so viewers can pick what to watch</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Menu List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">All Menus</h2>
+
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={newMenuName}
+                onChange={(e) => setNewMenuName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addMenu()}
+                placeholder="e.g. Lobby directory"
+                className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={addMenu}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                title="Create menu"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center space-x-2 text-gray-500 text-sm">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                <span>Loading menus...</span>
+              </div>
+            ) : menus.length === 0 ? (
+              <p className="text-sm text-gray-500">No kiosk menus yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {menus.map(menu => (
+                  <li key={menu.id}>
+                    <div
+                      className={`flex items-center justify-between p-2 rounded-lg cursor-pointer ${
+                        menu.id === selectedMenuId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      }`}
+                      onClick={() => setSelectedMenuId(menu.id)}
+                    >
+                      <span className="flex items-center space-x-2">
+                        <Hand className="h-4 w-4" />
+                        <span>{menu.name}</span>
+                        <span className="text-xs text-gray-400">{menu.categories.length}</span>
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteMenu(menu);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete menu"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Menu Editor */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            {!selectedMenu ? (
+              <div className="p-8 text-center text-gray-500">
+                Select a menu to edit its categories. Choose the menu on a screen in Screens to make it a touch kiosk.
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b border-gray-200 grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div className="md:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Idle timeout (seconds)</label>
+                    <input
+                      type="number"
+                      min={5}
+                      value={idleTimeout}
+                      onChange={(e) => setIdleTimeout(Number(e.target.value))}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <p className="md:col-span-3 text-xs text-gray-500">
+                    The screen goes back to its normal content after this long without a touch. A chosen video always plays to the end first.
+                  </p>
+                </div>
+
+                <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+                  <p className="text-sm text-gray-500">{categories.length} categories</p>
+                  <button
+                    onClick={() => setCategories(prev => [...prev, kioskUtils.createCategory()])}
+                    className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Category</span>
+                  </button>
+                </div>
+
+                {categories.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No categories yet. Add one and pick the videos viewers can choose from.
+                  </div>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {categories.map((category, index) => (
+                      <div key={category.id} className="px-6 py-4 space-y-3">
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            value={category.name}
+                            onChange={(e) => updateCategory(category.id, { name: e.target.value })}
+                            placeholder="e.g. Products"
+                            className="flex-1 p-2 border border-gray-300 rounded-lg font-medium focus:ring-2 focus:ring-blue-500"
+                          />
+                          <div className="flex flex-col">
+                            <button
+                              onClick={() => setCategories(prev => move(prev, index, 'up'))}
+                              disabled={index === 0}
+                              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 text-sm font-bold"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => setCategories(prev => move(prev, index, 'down'))}
+                              disabled={index === categories.length - 1}
+                              className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 text-sm font-bold"
+                            >
+                              ↓
+                            </button>
+                          </div>
+                          <button
+                            onClick={() => setCategories(prev => prev.filter(c => c.id !== category.id))}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Remove category"
+                          >
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        </div>
+
+                        {category.video_ids.length > 0 && (
+                          <ul className="space-y-1">
+                            {category.video_ids.map((videoId, videoIndex) => (
+                              <li key={videoId} className="flex items-center justify-between pl-3 text-sm text-gray-700">
+                                <span className="truncate">{videoTitle(videoId)}</span>
+                                <span className="flex items-center space-x-1 flex-shrink-0">
+                                  <button
+                                    onClick={() => updateCategory(category.id, { video_ids: move(category.video_ids, videoIndex, 'up') })}
+                                    disabled={videoIndex === 0}
+                                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 font-bold"
+                                  >
+                                    ↑
+                                  </button>
+                                  <button
+                                    onClick={() => updateCategory(category.id, { video_ids: move(category.video_ids, videoIndex, 'down') })}
+                                    disabled={videoIndex === category.video_ids.length - 1}
+                                    className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 font-bold"
+                                  >
+                                    ↓
+                                  </button>
+                                  <button
+                                    onClick={() => updateCategory(category.id, {
+                                      video_ids: category.video_ids.filter(id => id !== videoId),
+                                    })}
+                                    className="p-1 text-gray-400 hover:text-red-600"
+                                    title="Remove from category"
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </button>
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        <div className="flex space-x-2">
+                          <select
+                            value={videosToAdd[category.id] || ''}
+                            onChange={(e) => setVideosToAdd(prev => ({ ...prev, [category.id]: e.target.value }))}
+                            className="flex-1 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Select a video to add...</option>
+                            {videos.filter(video => !category.video_ids.includes(video.id)).map(video => (
+                              <option key={video.id} value={video.id}>
+                                {video.title}{!video.is_active && ' (inactive)'}
+                              </option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => addVideo(category)}
+                            disabled={!videosToAdd[category.id]}
+                            className="flex items-center space-x-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                          >
+                            <Plus className="w-4 h-4" />
+                            <span>Add</span>
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="px-6 py-4 border-t border-gray-200 flex justify-end">
+                  <button
+                    onClick={saveMenu}
+                    disabled={saving || !name.trim()}
+                    className="flex items-center space-x-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{saving ? 'Saving...' : 'Save Menu'}</span>
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,487 @@
+// src/app/admin/layouts/page.tsx - Design multi-zone screen layouts with a live preview
+'use client';
+
+import { useState, useEffect } from 'react';
+import { playlistApi, Playlist } from '@/lib/playlists';
+import {
+  layoutApi, layoutUtils, Layout, LayoutZone, ZoneContentType, ZoneWidgetType, LAYOUT_TEMPLATES
+} from '@/lib/layouts';
+import { LayoutTemplate, Plus, Trash2, Save, AlertCircle, RefreshCw } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+import ZoneWidget from '@/components/ZoneWidget';
+import DataFeedFields from '@/components/DataFeedFields';
+
+type PreviewOrientation = 'landscape' | 'portrait';
+
+export default function LayoutsPage() {
+  const [layouts, setLayouts] = useState<Layout[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [zones, setZones] = useState<LayoutZone[]>([]);
+  const [selectedZoneId, setSelectedZoneId] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState(LAYOUT_TEMPLATES[1].id);
+  const [previewOrientation, setPreviewOrientation] = useState<PreviewOrientation>('landscape');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [layoutData, playlistData] = await Promise.all([
+        layoutApi.getLayouts(),
+        playlistApi.getPlaylists(),
+      ]);
+      setLayouts(layoutData);
+      setPlaylists(playlistData);
+    } catch (error) {
+      console.error('Error loading layouts:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load layouts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startNew = () => {
+    const template = LAYOUT_TEMPLATES.find(t => t.id === templateId) || LAYOUT_TEMPLATES[0];
+    const templateZones = layoutUtils.fromTemplate(template);
+    setEditingId(null);
+    setName(template.name);
+    setZones(templateZones);
+    setSelectedZoneId(templateZones[0]?.id ?? null);
+  };
+
+  const startEditing = (layout: Layout) => {
+    setEditingId(layout.id);
+    setName(layout.name);
+    setZones(layout.zones);
+    setSelectedZoneId(layout.zones[0]?.id ?? null);
+  };
+
+  const closeEditor = () => {
+    setEditingId(null);
+    setName('');
+    setZones([]);
+    setSelectedZoneId(null);
+  };
+
+  const updateZone = (zoneId: string, updates: Partial<LayoutZone>) => {
+    setZones(prev => prev.map(zone => zone.id === zoneId ? { ...zone, ...updates } : zone));
+  };
+
+  const addZone = () => {
+    const zone = layoutUtils.createZone();
+    setZones(prev => [...prev, zone]);
+    setSelectedZoneId(zone.id);
+  };
+
+  const removeZone = (zoneId: string) => {
+    setZones(prev => prev.filter(zone => zone.id !== zoneId));
+    if (selectedZoneId === zoneId) setSelectedZoneId(null);
+  };
+
+  const saveLayout = async () => {
+    if (!name.trim()) {
+      alert('Please enter a layout name');
+      return;
+    }
+
+    if (problems.length > 0) {
+      alert('Please fix the layout first:\n\n' + problems.join('\n'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await layoutApi.updateLayout(editingId, { name: name.trim(), zones });
+      } else {
+        const layout = await layoutApi.addLayout(name.trim(), zones);
+        setEditingId(layout.id);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Error saving layout:', error);
+      alert('Error saving layout: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteLayout = async (layout: Layout) => {
+    if (!confirm(`Delete "${layout.name}"? Screens using it go back to full screen.`)) return;
+
+    try {
+      await layoutApi.deleteLayout(layout.id);
+      if (editingId === layout.id) closeEditor();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting layout:', error);
+      alert('Error deleting layout');
+    }
+  };
+
+  const playlistName = (playlistId?: string | null) =>
+    playlists.find(p => p.id === playlistId)?.name;
+
+  const selectedZone = zones.find(zone => zone.id === selectedZoneId);
+  const isEditing = zones.length > 0;
+  const problems = layoutUtils.validateZones(zones);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Layouts</h1>
+          <p className="text-gray-600">Split screens into zones that each play their own playlist or widget</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Layout List */}
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">New Layout</h2>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start from template</label>
+              <select
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                className="w-full p-2 mb-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                {LAYOUT_TEMPLATES.map(template => (
+                  <option key={template.id} value={template.id}>{template.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={startNew}
+                className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Create Layout</span>
+              </button>
+            </div>
+
+            <div className="bg-white rounded-lg shadow overflow-hidden">
+              <div className="px-6 py-4 border-b border-gray-200">
+                <h2 className="text-lg font-semibold text-gray-900">Layouts ({layouts.length})</h2>
+              </div>
+
+              {!loading && layouts.length === 0 ? (
+                <div className="p-8 text-center text-gray-500">
+                  No layouts yet. Screens without a layout play full screen.
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200">
+                  {layouts.map(layout => (
+                    <div
+                      key={layout.id}
+                      className={`p-4 flex items-center justify-between hover:bg-gray-50 ${
+                        editingId === layout.id ? 'bg-blue-50' : ''
+                      }`}
+                    >
+                      <button onClick={() => startEditing(layout)} className="flex items-center space-x-3 text-left min-w-0">
+                        <LayoutTemplate className="h-5 w-5 text-gray-400 flex-shrink-0" />
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{layout.name}</p>
+                          <p className="text-sm text-gray-500">{layout.zones.length} zone{layout.zones.length === 1 ? '' : 's'}</p>
+                        </div>
+                      </button>
+                      <button
+                        onClick={() => deleteLayout(layout)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete layout"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Layout Editor */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow p-6">
+            {!isEditing ? (
+              <div className="p-8 text-center text-gray-500">
+                Pick a layout to edit or create one from a template.
+              </div>
+            ) : (
+              <div className="space-y-6">
+                <div className="flex items-end space-x-2">
+                  <div className="flex-1">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Layout name</label>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <button
+                    onClick={saveLayout}
+                    disabled={saving}
+                    className="flex items-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Save className="w-4 h-4" />
+                    <span>{saving ? 'Saving...' : 'Save'}</span>
+                  </button>
+                  <button
+                    onClick={closeEditor}
+                    className="py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Close
+                  </button>
+                </div>
+
+                {/* Live Preview */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-700">Preview</h3>
+                    <div className="flex gap-1">
+                      {(['landscape', 'portrait'] as PreviewOrientation[]).map(orientation => (
+                        <button
+                          key={orientation}
+                          onClick={() => setPreviewOrientation(orientation)}
+                          className={`px-3 py-1 text-xs rounded ${
+                            previewOrientation === orientation ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'
+                          }`}
+                        >
+                          {orientation === 'landscape' ? '16:9' : '9:16'}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div
+                    className={`relative bg-black mx-auto overflow-hidden rounded ${
+                      previewOrientation === 'landscape' ? 'w-full aspect-video' : 'h-96 aspect-[9/16]'
+                    }`}
+                  >
+                    {zones.map(zone => (
+                      <button
+                        key={zone.id}
+                        onClick={() => setSelectedZoneId(zone.id)}
+                        style={layoutUtils.getZoneStyle(zone)}
+                        className={`border text-xs ${
+                          zone.id === selectedZoneId ? 'border-blue-400 border-2 z-10' : 'border-gray-500'
+                        }`}
+                      >
+                        {zone.content_type === 'widget' ? (
+                          // Widgets are sized for a real screen, so render them at half size
+                          <div className="origin-top-left scale-50" style={{ width: '200%', height: '200%' }}>
+                            <ZoneWidget zone={zone} />
+                          </div>
+                        ) : (
+                          <div className="w-full h-full flex flex-col items-center justify-center text-gray-300 bg-gray-800 bg-opacity-60 p-1">
+                            <span className="font-medium">{zone.name}</span>
+                            <span className="text-gray-400">
+                              {zone.content_type === 'main'
+                                ? 'Screen content'
+                                : playlistName(zone.playlist_id) || 'No playlist'}
+                            </span>
+                          </div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Zone List */}
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <h3 className="text-sm font-medium text-gray-700">Zones</h3>
+                    <button
+                      onClick={addZone}
+                      className="flex items-center space-x-1 px-3 py-1 text-sm text-blue-600 hover:text-blue-800"
+                    >
+                      <Plus className="h-4 w-4" />
+                      <span>Add zone</span>
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {zones.map(zone => (
+                      <button
+                        key={zone.id}
+                        onClick={() => setSelectedZoneId(zone.id)}
+                        className={`px-3 py-1 text-sm rounded border ${
+                          zone.id === selectedZoneId
+                            ? 'bg-blue-600 text-white border-blue-600'
+                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                        }`}
+                      >
+                        {zone.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Zone Editor */}
+                {selectedZone && (
+                  <div className="border border-gray-200 rounded-lg p-4 space-y-4">
+                    <div className="flex items-end space-x-2">
+                      <div className="flex-1">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Zone name</label>
+                        <input
+                          type="text"
+                          value={selectedZone.name}
+                          onChange={(e) => updateZone(selectedZone.id, { name: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <button
+                        onClick={() => removeZone(selectedZone.id)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Remove zone"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+
+                    <div className="grid grid-cols-4 gap-2">
+                      {(['x', 'y', 'width', 'height'] as const).map(field => (
+                        <div key={field}>
+                          <label className="block text-sm font-medium text-gray-700 mb-1 capitalize">{field} (%)</label>
+                          <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={selectedZone[field]}
+                            onChange={(e) => updateZone(selectedZone.id, { [field]: Number(e.target.value) })}
+                            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          />
+                        </div>
+                      ))}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Content</label>
+                        <select
+                          value={selectedZone.content_type}
+                          onChange={(e) => updateZone(selectedZone.id, { content_type: e.target.value as ZoneContentType })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="main">Main (screen playlist, overrides)</option>
+                          <option value="playlist">Playlist</option>
+                          <option value="widget">Widget</option>
+                        </select>
+                      </div>
+
+                      {selectedZone.content_type === 'playlist' && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Playlist</label>
+                          <select
+                            value={selectedZone.playlist_id || ''}
+                            onChange={(e) => updateZone(selectedZone.id, { playlist_id: e.target.value || null })}
+                            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Select a playlist...</option>
+                            {playlists.map(playlist => (
+                              <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+
+                      {selectedZone.content_type === 'widget' && (
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-1">Widget</label>
+                          <select
+                            value={selectedZone.widget_type || ''}
+                            onChange={(e) => updateZone(selectedZone.id, {
+                              widget_type: (e.target.value || undefined) as ZoneWidgetType | undefined
+                            })}
+                            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                          >
+                            <option value="">Select a widget...</option>
+                            <option value="clock">Clock</option>
+                            <option value="text">Text</option>
+                            <option value="ticker">Scrolling ticker</option>
+                            <option value="feed">Data feed (JSON/CSV)</option>
+                          </select>
+                        </div>
+                      )}
+                    </div>
+
+                    {selectedZone.content_type === 'widget' &&
+                      (selectedZone.widget_type === 'text' || selectedZone.widget_type === 'ticker') && (
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Text</label>
+                        <textarea
+                          value={selectedZone.text || ''}
+                          onChange={(e) => updateZone(selectedZone.id, { text: e.target.value })}
+                          rows={2}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    )}
+
+                    {selectedZone.content_type === 'widget' && selectedZone.widget_type === 'feed' && (
+                      <DataFeedFields
+                        value={selectedZone}
+                        onChange={(updates) => updateZone(selectedZone.id, updates)}
+                      />
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Background</label>
+                        <input
+                          type="color"
+                          value={selectedZone.background_color || '#000000'}
+                          onChange={(e) => updateZone(selectedZone.id, { background_color: e.target.value })}
+                          className="w-full h-10 p-1 border border-gray-300 rounded-lg"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Text colour</label>
+                        <input
+                          type="color"
+                          value={selectedZone.text_color || '#ffffff'}
+                          onChange={(e) => updateZone(selectedZone.id, { text_color: e.target.value })}
+                          className="w-full h-10 p-1 border border-gray-300 rounded-lg"
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {problems.length > 0 && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    {problems.map(problem => (
+                      <p key={problem}>{problem}</p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,609 @@
+// src/app/admin/overlays/page.tsx - Manage overlay widgets and ticker messages
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Schedulable, scheduleUtils } from '@/lib/supabase';
+import { screenApi, Screen, ScreenGroup } from '@/lib/screens';
+import { overrideUtils } from '@/lib/overrides';
+import { calendarApi, ScheduleCalendar } from '@/lib/calendars';
+import {
+  overlayApi, OverlayWidget, OverlayWidgetType, OverlayPosition, TickerMessage,
+  OVERLAY_WIDGET_LABELS, OVERLAY_POSITION_LABELS
+} from '@/lib/overlays';
+import { Layers, Plus, Trash2, Calendar, Eye, EyeOff, Pencil, AlertCircle, RefreshCw, X } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+import VideoSchedule from '@/components/VideoSchedule';
+import DataFeedFields from '@/components/DataFeedFields';
+import { DataFeedConfig } from '@/lib/dataFeeds';
+
+interface WidgetForm {
+  name: string;
+  widget_type: OverlayWidgetType;
+  position: OverlayPosition;
+  font_size: number;
+  text_color: string;
+  background_color: string;
+  transparent_background: boolean;
+  text: string;
+  image_url: string;
+  target_type: OverlayWidget['target_type'];
+  target_id: string;
+  feed: DataFeedConfig;
+}
+
+const emptyForm = (): WidgetForm => ({
+  name: '',
+  widget_type: 'ticker',
+  position: 'bottom',
+  font_size: 32,
+  text_color: '#ffffff',
+  background_color: '#1d4ed8',
+  transparent_background: false,
+  text: '',
+  image_url: '',
+  target_type: 'all',
+  target_id: '',
+  feed: { feed_format: 'json' },
+});
+
+// Sensible starting positions for each widget type
+const defaultPositions: Record<OverlayWidgetType, OverlayPosition> = {
+  ticker: 'bottom',
+  clock: 'top-right',
+  logo: 'top-left',
+  text: 'top',
+  feed: 'top-right',
+};
+
+export default function OverlaysPage() {
+  const [widgets, setWidgets] = useState<OverlayWidget[]>([]);
+  const [messages, setMessages] = useState<TickerMessage[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [groups, setGroups] = useState<ScreenGroup[]>([]);
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [form, setForm] = useState<WidgetForm>(emptyForm());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [schedulingWidget, setSchedulingWidget] = useState<OverlayWidget | null>(null);
+  const [newMessages, setNewMessages] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadData();
+
+    const subscription = overlayApi.subscribeToOverlays(() => {
+      Promise.all([overlayApi.getWidgets(), overlayApi.getTickerMessages()])
+        .then(([widgetData, messageData]) => {
+          setWidgets(widgetData);
+          setMessages(messageData);
+        })
+        .catch(error => {
+          console.error('Error reloading overlays:', error);
+        });
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [widgetData, messageData, screenData, groupData, calendarData] = await Promise.all([
+        overlayApi.getWidgets(),
+        overlayApi.getTickerMessages(),
+        screenApi.getScreens(),
+        screenApi.getGroups(),
+        calendarApi.getCalendars(),
+      ]);
+      setWidgets(widgetData);
+      setMessages(messageData);
+      setScreens(screenData);
+      setGroups(groupData);
+      setCalendars(calendarData);
+    } catch (error) {
+      console.error('Error loading overlays:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load overlays');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startEditing = (widget: OverlayWidget) => {
+    setEditingId(widget.id);
+    setForm({
+      name: widget.name,
+      widget_type: widget.widget_type,
+      position: widget.position,
+      font_size: widget.font_size,
+      text_color: widget.text_color,
+      background_color: widget.background_color || '#000000',
+      transparent_background: !widget.background_color,
+      text: widget.text || '',
+      image_url: widget.image_url || '',
+      target_type: widget.target_type,
+      target_id: widget.target_id || '',
+      feed: {
+        feed_url: widget.feed_url,
+        feed_format: widget.feed_format,
+        feed_path: widget.feed_path,
+        feed_template: widget.feed_template,
+        feed_refresh_seconds: widget.feed_refresh_seconds,
+      },
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const saveWidget = async () => {
+    if (!form.name.trim()) {
+      alert('Please enter a name');
+      return;
+    }
+    if (form.widget_type === 'logo' && !form.image_url.trim()) {
+      alert('Please enter the logo image URL');
+      return;
+    }
+    if (form.widget_type === 'text' && !form.text.trim()) {
+      alert('Please enter the banner text');
+      return;
+    }
+    if (form.widget_type === 'feed' && !form.feed.feed_url) {
+      alert('Please enter a feed URL or upload a file');
+      return;
+    }
+    if (form.target_type !== 'all' && !form.target_id) {
+      alert(`Please choose a ${form.target_type}`);
+      return;
+    }
+
+    const isFeed = form.widget_type === 'feed';
+    const widgetData = {
+      name: form.name.trim(),
+      widget_type: form.widget_type,
+      position: form.position,
+      font_size: form.font_size,
+      text_color: form.text_color,
+      background_color: form.transparent_background ? null : form.background_color,
+      text: form.widget_type === 'text' ? form.text.trim() : null,
+      image_url: form.widget_type === 'logo' ? form.image_url.trim() : null,
+      target_type: form.target_type,
+      target_id: form.target_type === 'all' ? null : form.target_id,
+      feed_url: isFeed ? form.feed.feed_url : null,
+      feed_format: isFeed ? form.feed.feed_format || 'json' : null,
+      feed_path: isFeed ? form.feed.feed_path || null : null,
+      feed_template: isFeed ? form.feed.feed_template || null : null,
+      feed_refresh_seconds: isFeed ? form.feed.feed_refresh_seconds || null : null,
+    };
+
+    setSaving(true);
+    try {
+      if (editingId) {
+        await overlayApi.updateWidget(editingId, widgetData);
+      } else {
+        await overlayApi.addWidget({
+          ...widgetData,
+          is_active: true,
+          schedule_type: 'always',
+          schedule_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        });
+      }
+      cancelEditing();
+      loadData();
+    } catch (error) {
+      console.error('Error saving overlay:', error);
+      alert('Error saving overlay: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleWidgetActive = async (widget: OverlayWidget) => {
+    try {
+      await overlayApi.updateWidget(widget.id, { is_active: !widget.is_active });
+      loadData();
+    } catch (error) {
+      console.error('Error toggling overlay:', error);
+    }
+  };
+
+  const deleteWidget = async (widget: OverlayWidget) => {
+    if (!confirm(`Delete "${widget.name}"?`)) return;
+
+    try {
+      await overlayApi.deleteWidget(widget.id);
+      if (editingId === widget.id) cancelEditing();
+      loadData();
+    } catch (error) {
+      console.error('Error deleting overlay:', error);
+    }
+  };
+
+  const handleScheduleUpdate = async (widgetId: string, updates: Partial<Schedulable>) => {
+    try {
+      await overlayApi.updateWidget(widgetId, updates);
+      loadData();
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      alert('Error updating schedule');
+    }
+  };
+
+  const addMessage = async (widget: OverlayWidget) => {
+    const message = (newMessages[widget.id] || '').trim();
+    if (!message) return;
+
+    const widgetMessages = messages.filter(m => m.widget_id === widget.id);
+    const position = Math.max(...widgetMessages.map(m => m.position), 0) + 1;
+
+    try {
+      await overlayApi.addTickerMessage(widget.id, message, position);
+      setNewMessages(prev => ({ ...prev, [widget.id]: '' }));
+      loadData();
+    } catch (error) {
+      console.error('Error adding ticker message:', error);
+      alert('Error adding message: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    }
+  };
+
+  const deleteMessage = async (message: TickerMessage) => {
+    try {
+      await overlayApi.deleteTickerMessage(message.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting ticker message:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Overlays</h1>
+          <p className="text-gray-600">Tickers, clocks, logos and banners shown on top of playback</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Widget Form */}
+          <div className="bg-white rounded-lg shadow p-6 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingId ? 'Edit Overlay' : 'New Overlay'}
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Lobby news ticker"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={form.widget_type}
+                    onChange={(e) => {
+                      const widgetType = e.target.value as OverlayWidgetType;
+                      setForm({ ...form, widget_type: widgetType, position: defaultPositions[widgetType] });
+                    }}
+                    disabled={!!editingId}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+                  >
+                    {(Object.keys(OVERLAY_WIDGET_LABELS) as OverlayWidgetType[]).map(type => (
+                      <option key={type} value={type}>{OVERLAY_WIDGET_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Position</label>
+                  <select
+                    value={form.position}
+                    onChange={(e) => setForm({ ...form, position: e.target.value as OverlayPosition })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    {(Object.keys(OVERLAY_POSITION_LABELS) as OverlayPosition[]).map(position => (
+                      <option key={position} value={position}>{OVERLAY_POSITION_LABELS[position]}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {form.widget_type === 'text' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Banner text</label>
+                  <textarea
+                    value={form.text}
+                    onChange={(e) => setForm({ ...form, text: e.target.value })}
+                    rows={2}
+                    placeholder="Welcome to our store!"
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+
+              {form.widget_type === 'logo' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Logo image URL</label>
+                  <input
+                    type="url"
+                    value={form.image_url}
+                    onChange={(e) => setForm({ ...form, image_url: e.target.value })}
+                    placeholder="https://..."
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+
+              {form.widget_type === 'feed' && (
+                <DataFeedFields
+                  value={form.feed}
+                  onChange={(updates) => setForm({ ...form, feed: { ...form.feed, ...updates } })}
+                />
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {form.widget_type === 'logo' ? 'Height (px)' : 'Font size (px)'}
+                </label>
+                <input
+                  type="number"
+                  min={8}
+                  max={400}
+                  value={form.font_size}
+                  onChange={(e) => setForm({ ...form, font_size: Number(e.target.value) || 32 })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Text colour</label>
+                  <input
+                    type="color"
+                    value={form.text_color}
+                    onChange={(e) => setForm({ ...form, text_color: e.target.value })}
+                    className="w-full h-10 p-1 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Background</label>
+                  <input
+                    type="color"
+                    value={form.background_color}
+                    onChange={(e) => setForm({ ...form, background_color: e.target.value, transparent_background: false })}
+                    className="w-full h-10 p-1 border border-gray-300 rounded-lg"
+                  />
+                  <label className="flex items-center mt-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={form.transparent_background}
+                      onChange={(e) => setForm({ ...form, transparent_background: e.target.checked })}
+                      className="mr-1"
+                    />
+                    Transparent
+                  </label>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target</label>
+                <select
+                  value={form.target_type}
+                  onChange={(e) => setForm({ ...form, target_type: e.target.value as OverlayWidget['target_type'], target_id: '' })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">All screens</option>
+                  <option value="group">Screen group</option>
+                  <option value="screen">Single screen</option>
+                </select>
+                {form.target_type !== 'all' && (
+                  <select
+                    value={form.target_id}
+                    onChange={(e) => setForm({ ...form, target_id: e.target.value })}
+                    className="w-full mt-2 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a {form.target_type}...</option>
+                    {(form.target_type === 'group' ? groups : screens).map(target => (
+                      <option key={target.id} value={target.id}>{target.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <p className="text-xs text-gray-500">
+                New overlays show all the time; use the 📅 button in the list to schedule them.
+              </p>
+
+              <div className="flex space-x-2">
+                <button
+                  onClick={saveWidget}
+                  disabled={saving}
+                  className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>{saving ? 'Saving...' : editingId ? 'Save Overlay' : 'Add Overlay'}</span>
+                </button>
+                {editingId && (
+                  <button
+                    onClick={cancelEditing}
+                    className="py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Widget List */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Overlays ({widgets.length})</h2>
+              <button
+                onClick={loadData}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-500 hover:text-gray-700"
+                title="Refresh overlays"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="text-sm">Refresh</span>
+              </button>
+            </div>
+
+            {!loading && widgets.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No overlays yet.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {widgets.map(widget => {
+                  const widgetMessages = messages.filter(m => m.widget_id === widget.id);
+                  const isScheduled = scheduleUtils.isVideoScheduledNow(widget, calendars);
+
+                  return (
+                    <div key={widget.id} className="p-6 hover:bg-gray-50">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-4 min-w-0">
+                          <div
+                            className="h-10 w-10 rounded flex-shrink-0 flex items-center justify-center border border-gray-200"
+                            style={{ backgroundColor: widget.background_color || undefined, color: widget.text_color }}
+                          >
+                            <Layers className="h-5 w-5" />
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-lg font-medium text-gray-900 truncate">{widget.name}</p>
+                            <p className="text-sm text-gray-500">
+                              {OVERLAY_WIDGET_LABELS[widget.widget_type]}
+                              {' · '}
+                              {OVERLAY_POSITION_LABELS[widget.position]}
+                              {' · '}
+                              {overrideUtils.describeTarget(widget, screens, groups)}
+                            </p>
+                            <div className="flex items-center space-x-2 mt-1">
+                              <span className="text-xs">{isScheduled ? '🟢' : '🔴'}</span>
+                              <span className="text-xs text-gray-500">{scheduleUtils.formatScheduleDescription(widget, calendars)}</span>
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => startEditing(widget)}
+                            className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Edit Overlay"
+                          >
+                            <Pencil className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => setSchedulingWidget(widget)}
+                            className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Edit Schedule"
+                          >
+                            <Calendar className="h-5 w-5" />
+                          </button>
+                          <button
+                            onClick={() => toggleWidgetActive(widget)}
+                            className={`p-2 transition-colors ${
+                              widget.is_active
+                                ? 'text-green-600 hover:text-green-700'
+                                : 'text-gray-400 hover:text-green-600'
+                            }`}
+                            title={widget.is_active ? 'Active' : 'Inactive'}
+                          >
+                            {widget.is_active ? <Eye className="h-5 w-5" /> : <EyeOff className="h-5 w-5" />}
+                          </button>
+                          <button
+                            onClick={() => deleteWidget(widget)}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Delete Overlay"
+                          >
+                            <Trash2 className="h-5 w-5" />
+                          </button>
+                        </div>
+                      </div>
+
+                      {/* Ticker Messages */}
+                      {widget.widget_type === 'ticker' && (
+                        <div className="mt-4 ml-14 space-y-2">
+                          {widgetMessages.length === 0 && (
+                            <p className="text-sm text-gray-500">No messages yet - the ticker is hidden until it has one.</p>
+                          )}
+                          {widgetMessages.map(message => (
+                            <div key={message.id} className="flex items-center justify-between text-sm bg-gray-50 border border-gray-200 rounded px-3 py-1">
+                              <span className="text-gray-800">{message.message}</span>
+                              <button
+                                onClick={() => deleteMessage(message)}
+                                className="p-1 text-gray-400 hover:text-red-600"
+                                title="Remove message"
+                              >
+                                <X className="h-4 w-4" />
+                              </button>
+                            </div>
+                          ))}
+                          <div className="flex space-x-2">
+                            <input
+                              type="text"
+                              value={newMessages[widget.id] || ''}
+                              onChange={(e) => setNewMessages(prev => ({ ...prev, [widget.id]: e.target.value }))}
+                              onKeyDown={(e) => e.key === 'Enter' && addMessage(widget)}
+                              placeholder="Add a message..."
+                              className="flex-1 p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                            />
+                            <button
+                              onClick={() => addMessage(widget)}
+                              className="px-3 py-1 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                            >
+                              Add
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Schedule Modal */}
+        {schedulingWidget && (
+          <VideoSchedule
+            video={{ ...schedulingWidget, title: schedulingWidget.name }}
+            onUpdate={handleScheduleUpdate}
+            onClose={() => setSchedulingWidget(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
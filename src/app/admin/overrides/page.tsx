@@ -0,0 +1,454 @@
+// src/app/admin/overrides/page.tsx - Broadcast emergency and priority overrides to screens
+'use client';
+
+import { useState, useEffect } from 'react';
+import { videoApi, Video } from '@/lib/supabase';
+import { screenApi, Screen, ScreenGroup } from '@/lib/screens';
+import { overrideApi, overrideUtils, Override } from '@/lib/overrides';
+import { Siren, Trash2, XCircle, AlertCircle, RefreshCw } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+interface OverrideForm {
+  title: string;
+  content_type: Override['content_type'];
+  message: string;
+  media_url: string;
+  video_id: string;
+  background_color: string;
+  text_color: string;
+  target_type: Override['target_type'];
+  target_id: string;
+  starts_at: string;
+  expires_at: string;
+}
+
+// Colour presets for common announcement types
+const presets = [
+  { label: 'Emergency', background: '#b91c1c', text: '#ffffff' },
+  { label: 'Warning', background: '#facc15', text: '#111827' },
+  { label: 'Information', background: '#1d4ed8', text: '#ffffff' },
+  { label: 'Neutral', background: '#000000', text: '#ffffff' },
+];
+
+// datetime-local inputs work in local time without a timezone suffix
+const toLocalInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const emptyForm = (): OverrideForm => ({
+  title: '',
+  content_type: 'text',
+  message: '',
+  media_url: '',
+  video_id: '',
+  background_color: presets[0].background,
+  text_color: presets[0].text,
+  target_type: 'all',
+  target_id: '',
+  starts_at: toLocalInput(new Date()),
+  expires_at: '',
+});
+
+export default function OverridesPage() {
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [groups, setGroups] = useState<ScreenGroup[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [form, setForm] = useState<OverrideForm>(emptyForm());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadData();
+
+    const subscription = overrideApi.subscribeToOverrides(() => {
+      overrideApi.getOverrides().then(setOverrides).catch(error => {
+        console.error('Error reloading overrides:', error);
+      });
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [overrideData, screenData, groupData, videoData] = await Promise.all([
+        overrideApi.getOverrides(),
+        screenApi.getScreens(),
+        screenApi.getGroups(),
+        videoApi.getAllVideos(),
+      ]);
+      setOverrides(overrideData);
+      setScreens(screenData);
+      setGroups(groupData);
+      setVideos(videoData);
+    } catch (error) {
+      console.error('Error loading overrides:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load overrides');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveOverride = async () => {
+    if (!form.title.trim()) {
+      alert('Please enter a title');
+      return;
+    }
+    if (form.content_type === 'image' && !form.media_url.trim()) {
+      alert('Please enter the image URL');
+      return;
+    }
+    if (form.content_type === 'video' && !form.video_id) {
+      alert('Please choose a video');
+      return;
+    }
+    if (form.target_type !== 'all' && !form.target_id) {
+      alert(`Please choose a ${form.target_type}`);
+      return;
+    }
+    if (form.expires_at && new Date(form.expires_at) <= new Date(form.starts_at)) {
+      alert('The expiry must be after the start time');
+      return;
+    }
+
+    const targetName = form.target_type === 'all'
+      ? 'ALL screens'
+      : form.target_type === 'group'
+        ? `group "${groups.find(g => g.id === form.target_id)?.name}"`
+        : `screen "${screens.find(s => s.id === form.target_id)?.name}"`;
+    if (!confirm(`Broadcast "${form.title}" to ${targetName}? It interrupts normal playback.`)) return;
+
+    setSaving(true);
+    try {
+      await overrideApi.addOverride({
+        title: form.title.trim(),
+        content_type: form.content_type,
+        message: form.message.trim() || null,
+        media_url: form.content_type === 'video'
+          ? videos.find(v => v.id === form.video_id)?.file_url || null
+          : form.content_type === 'image' ? form.media_url.trim() : null,
+        video_id: form.content_type === 'video' ? form.video_id : null,
+        background_color: form.background_color,
+        text_color: form.text_color,
+        target_type: form.target_type,
+        target_id: form.target_type === 'all' ? null : form.target_id,
+        starts_at: new Date(form.starts_at).toISOString(),
+        expires_at: form.expires_at ? new Date(form.expires_at).toISOString() : null,
+      });
+      setForm(emptyForm());
+      loadData();
+    } catch (error) {
+      console.error('Error saving override:', error);
+      alert('Error saving override: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clearOverride = async (override: Override) => {
+    if (!confirm(`Clear "${override.title}"? Screens return to their normal playlist.`)) return;
+
+    try {
+      await overrideApi.clearOverride(override.id);
+      loadData();
+    } catch (error) {
+      console.error('Error clearing override:', error);
+      alert('Error clearing override');
+    }
+  };
+
+  const deleteOverride = async (override: Override) => {
+    if (!confirm(`Delete "${override.title}"?`)) return;
+
+    try {
+      await overrideApi.deleteOverride(override.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting override:', error);
+    }
+  };
+
+  const statusOf = (override: Override) => {
+    if (override.cleared_at) return { label: 'Cleared', className: 'bg-gray-100 text-gray-600' };
+    if (overrideUtils.isEnded(override)) return { label: 'Expired', className: 'bg-gray-100 text-gray-600' };
+    if (overrideUtils.isActive(override)) return { label: 'Live', className: 'bg-red-100 text-red-700' };
+    return { label: 'Scheduled', className: 'bg-yellow-100 text-yellow-700' };
+  };
+
+  const liveCount = overrides.filter(o => overrideUtils.isActive(o)).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Overrides</h1>
+          <p className="text-gray-600">Interrupt screens with an urgent message, image or video</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        {liveCount > 0 && (
+          <div className="mb-6 p-4 bg-red-600 text-white rounded-lg flex items-center">
+            <Siren className="h-5 w-5 mr-2" />
+            <span className="font-medium">
+              {liveCount} override{liveCount === 1 ? ' is' : 's are'} live on screens right now
+            </span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Override Form */}
+          <div className="bg-white rounded-lg shadow p-6 h-fit">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">New Override</h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                <input
+                  type="text"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="Fire drill in progress"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Content</label>
+                <select
+                  value={form.content_type}
+                  onChange={(e) => setForm({ ...form, content_type: e.target.value as Override['content_type'] })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="text">Full-screen text</option>
+                  <option value="image">Image</option>
+                  <option value="video">Video</option>
+                </select>
+              </div>
+
+              {form.content_type === 'image' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Image URL</label>
+                  <input
+                    type="url"
+                    value={form.media_url}
+                    onChange={(e) => setForm({ ...form, media_url: e.target.value })}
+                    placeholder="https://..."
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              )}
+
+              {form.content_type === 'video' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Video</label>
+                  <select
+                    value={form.video_id}
+                    onChange={(e) => setForm({ ...form, video_id: e.target.value })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a video...</option>
+                    {videos.map(video => (
+                      <option key={video.id} value={video.id}>{video.title}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {form.content_type === 'text' ? 'Message' : 'Caption (optional)'}
+                </label>
+                <textarea
+                  value={form.message}
+                  onChange={(e) => setForm({ ...form, message: e.target.value })}
+                  rows={3}
+                  placeholder="Please leave the building by the nearest exit."
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Style</label>
+                <div className="flex flex-wrap gap-2">
+                  {presets.map(preset => (
+                    <button
+                      key={preset.label}
+                      type="button"
+                      onClick={() => setForm({ ...form, background_color: preset.background, text_color: preset.text })}
+                      className={`px-3 py-1 text-sm rounded border-2 ${
+                        form.background_color === preset.background ? 'border-blue-500' : 'border-transparent'
+                      }`}
+                      style={{ backgroundColor: preset.background, color: preset.text }}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Target</label>
+                <select
+                  value={form.target_type}
+                  onChange={(e) => setForm({ ...form, target_type: e.target.value as Override['target_type'], target_id: '' })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="all">All screens</option>
+                  <option value="group">Screen group</option>
+                  <option value="screen">Single screen</option>
+                </select>
+                {form.target_type !== 'all' && (
+                  <select
+                    value={form.target_id}
+                    onChange={(e) => setForm({ ...form, target_id: e.target.value })}
+                    className="w-full mt-2 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a {form.target_type}...</option>
+                    {(form.target_type === 'group' ? groups : screens).map(target => (
+                      <option key={target.id} value={target.id}>{target.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input
+                    type="datetime-local"
+                    value={form.starts_at}
+                    onChange={(e) => setForm({ ...form, starts_at: e.target.value })}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Expires</label>
+                  <input
+                    type="datetime-local"
+                    value={form.expires_at}
+                    onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+                    className="w-full p-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">Leave empty to keep it until cleared</p>
+                </div>
+              </div>
+
+              <button
+                onClick={saveOverride}
+                disabled={saving}
+                className="w-full flex items-center justify-center space-x-2 py-2 px-4 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+              >
+                <Siren className="w-4 h-4" />
+                <span>{saving ? 'Broadcasting...' : 'Broadcast Override'}</span>
+              </button>
+            </div>
+          </div>
+
+          {/* Override List */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Overrides ({overrides.length})</h2>
+              <button
+                onClick={loadData}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-500 hover:text-gray-700"
+                title="Refresh overrides"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="text-sm">Refresh</span>
+              </button>
+            </div>
+
+            {!loading && overrides.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No overrides yet.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {overrides.map(override => {
+                  const status = statusOf(override);
+                  const ended = overrideUtils.isEnded(override);
+
+                  return (
+                    <div key={override.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+                      <div className="flex items-center space-x-4 min-w-0">
+                        <div
+                          className="h-10 w-10 rounded flex-shrink-0"
+                          style={{ backgroundColor: override.background_color }}
+                        />
+                        <div className="min-w-0">
+                          <div className="flex items-center space-x-2">
+                            <p className="text-lg font-medium text-gray-900 truncate">{override.title}</p>
+                            <span className={`px-2 py-0.5 text-xs rounded ${status.className}`}>{status.label}</span>
+                          </div>
+                          <p className="text-sm text-gray-500">
+                            {override.content_type === 'text' ? 'Text' : override.content_type === 'image' ? 'Image' : 'Video'}
+                            {' · '}
+                            {overrideUtils.describeTarget(override, screens, groups)}
+                          </p>
+                          <p className="text-xs text-gray-400">
+                            {new Date(override.starts_at).toLocaleString()}
+                            {' → '}
+                            {override.cleared_at
+                              ? `cleared ${new Date(override.cleared_at).toLocaleString()}`
+                              : override.expires_at
+                                ? new Date(override.expires_at).toLocaleString()
+                                : 'until cleared'}
+                          </p>
+                        </div>
+                      </div>
+
+                      <div className="flex items-center space-x-2">
+                        {!ended && (
+                          <button
+                            onClick={() => clearOverride(override)}
+                            className="flex items-center space-x-1 px-3 py-2 text-sm bg-gray-900 text-white rounded-lg hover:bg-gray-700"
+                            title="Clear Override"
+                          >
+                            <XCircle className="h-4 w-4" />
+                            <span>Clear</span>
+                          </button>
+                        )}
+                        <button
+                          onClick={() => deleteOverride(override)}
+                          className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                          title="Delete Override"
+                        >
+                          <Trash2 className="h-5 w-5" />
+                        </button>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,11 +2,19 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { videoApi, Video, scheduleUtils } from '@/lib/supabase';
+import { videoApi, Video, scheduleUtils, mediaUtils, DEFAULT_SLIDE_DURATION } from '@/lib/supabase';
 import { upload } from '@vercel/blob/client';
-import { Upload, Play, Trash2, Eye, EyeOff, Calendar, AlertCircle, RefreshCw } from 'lucide-react';
+import { screenApi, Screen, ScreenGroup, VideoAssignment, AssignmentTarget } from '@/lib/screens';
+import { scheduleAnalysis } from '@/lib/scheduleAnalysis';
+import { calendarApi, ScheduleCalendar } from '@/lib/calendars';
+import { rotationUtils } from '@/lib/rotation';
+import { Upload, Play, Trash2, Eye, EyeOff, Calendar, AlertCircle, RefreshCw, Monitor, Globe, Plus, Gauge } from 'lucide-react';
 import VideoSchedule from '@/components/VideoSchedule';
+import VideoAssignments from '@/components/VideoAssignments';
+import PlaybackRules from '@/components/PlaybackRules';
 import DatabaseDebug from '@/components/DatabaseDebug';
+import ScheduleWarnings from '@/components/ScheduleWarnings';
+import AdminNav from '@/components/AdminNav';
 
 // Define the blob result type to match what Vercel Blob actually returns
 interface BlobResult {
@@ -22,10 +30,19 @@ export default function AdminPage() {
   const [uploadProgress, setUploadProgress] = useState<string>('');
   const [dragActive, setDragActive] = useState(false);
   const [schedulingVideo, setSchedulingVideo] = useState<Video | null>(null);
+  const [assigningVideo, setAssigningVideo] = useState<Video | null>(null);
+  const [rulesVideo, setRulesVideo] = useState<Video | null>(null);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [screenGroups, setScreenGroups] = useState<ScreenGroup[]>([]);
+  const [assignments, setAssignments] = useState<VideoAssignment[]>([]);
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
   const [uploadError, setUploadError] = useState<string>('');
   const [loadingVideos, setLoadingVideos] = useState(true);
   const [loadError, setLoadError] = useState<string>('');
   const [debugInfo, setDebugInfo] = useState<string>('');
+  const [pageUrl, setPageUrl] = useState('');
+  const [pageTitle, setPageTitle] = useState('');
+  const [addingPage, setAddingPage] = useState(false);
 
   useEffect(() => {
     loadVideos();
@@ -61,12 +78,27 @@ export default function AdminPage() {
       
       // Now try to load videos
       console.log('📹 Loading videos from database...');
-      const data = await videoApi.getAllVideos();
+      const [data, calendarData] = await Promise.all([videoApi.getAllVideos(), calendarApi.getCalendars()]);
       console.log('Videos loaded successfully:', data);
       
       setVideos(data);
+      setCalendars(calendarData);
       setLoadError('');
       console.log(`✅ Loaded ${data.length} videos successfully`);
+
+      // Screen assignments are optional - videos still work without the screens tables
+      try {
+        const [screenData, groupData, assignmentData] = await Promise.all([
+          screenApi.getScreens(),
+          screenApi.getGroups(),
+          screenApi.getAssignments(),
+        ]);
+        setScreens(screenData);
+        setScreenGroups(groupData);
+        setAssignments(assignmentData);
+      } catch (screenError) {
+        console.warn('Unable to load screens and assignments:', screenError);
+      }
       
     } catch (error) {
       console.error('❌ Error loading videos:', error);
@@ -122,8 +154,9 @@ const handleFileUpload = useCallback(async (files: FileList | null) => {
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
       
-      if (!file.type.startsWith('video/')) {
-        setUploadError(`${file.name} is not a video file`);
+      const mediaType = mediaUtils.getMediaTypeForFile(file.type);
+      if (!mediaType) {
+        setUploadError(`${file.name} is not a video, image or HTML file`);
         continue;
       }
 
@@ -139,8 +172,8 @@ const handleFileUpload = useCallback(async (files: FileList | null) => {
       try {
         setUploadProgress(`Getting video duration for ${file.name}...`);
         
-        // Get video duration before upload
-        const duration = await getVideoDuration(file);
+        // Get video duration before upload; slides are shown for a fixed time instead
+        const duration = mediaType === 'video' ? await getVideoDuration(file) : 0;
         console.log(`Duration for ${file.name}:`, duration);
         
         setUploadProgress(`Uploading ${file.name} to Vercel Blob...`);
@@ -167,6 +200,8 @@ const handleFileUpload = useCallback(async (files: FileList | null) => {
           file_name: file.name,
           file_size: file.size,
           duration,
+          media_type: mediaType,
+          display_duration: mediaType === 'video' ? null : DEFAULT_SLIDE_DURATION,
           is_active: true,
           sequence_order: maxOrder + 1,
           schedule_type: 'always' as const,
@@ -205,7 +240,7 @@ const handleFileUpload = useCallback(async (files: FileList | null) => {
     
     // Reload videos after all uploads
     await loadVideos();
-    setUploadProgress(`Upload complete! Uploaded ${files.length} video(s)`);
+    setUploadProgress(`Upload complete! Uploaded ${files.length} file(s)`);
     
   } catch (error) {
     console.error('Upload error:', error);
@@ -293,6 +328,57 @@ useEffect(() => {
     handleFileUpload(e.dataTransfer.files);
   };
 
+  // Web pages are shown live from their URL, so there is nothing to upload
+  const addWebPage = async () => {
+    let url: URL;
+    try {
+      url = new URL(pageUrl.trim());
+    } catch {
+      alert('Please enter a full URL, e.g. https://example.com/menu');
+      return;
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      alert('Only http and https pages can be shown');
+      return;
+    }
+
+    setAddingPage(true);
+    try {
+      const maxOrder = Math.max(...videos.map(v => v.sequence_order), 0);
+      await videoApi.addVideo({
+        title: pageTitle.trim() || url.hostname,
+        file_url: url.href,
+        file_name: url.href,
+        media_type: 'html',
+        display_duration: DEFAULT_SLIDE_DURATION,
+        is_active: true,
+        sequence_order: maxOrder + 1,
+        schedule_type: 'always',
+        schedule_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      setPageUrl('');
+      setPageTitle('');
+      loadVideos();
+    } catch (error) {
+      console.error('Error adding web page:', error);
+      alert('Error adding web page: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setAddingPage(false);
+    }
+  };
+
+  const updateDisplayDuration = async (video: Video, seconds: number) => {
+    if (!seconds || seconds < 1 || seconds === video.display_duration) return;
+
+    try {
+      await videoApi.updateVideo(video.id, { display_duration: seconds });
+      loadVideos();
+    } catch (error) {
+      console.error('Error updating display duration:', error);
+      alert('Error updating display duration');
+    }
+  };
+
   const toggleVideoActive = async (video: Video) => {
     try {
       await videoApi.updateVideo(video.id, { is_active: !video.is_active });
@@ -345,6 +431,38 @@ useEffect(() => {
     }
   };
 
+  const handleRulesUpdate = async (videoId: string, updates: Partial<Video>) => {
+    try {
+      await videoApi.updateVideo(videoId, updates);
+      loadVideos();
+    } catch (error) {
+      console.error('Error updating playback rules:', error);
+      alert('Error updating playback rules');
+    }
+  };
+
+  const handleAssignmentsUpdate = async (videoId: string, targets: AssignmentTarget[]) => {
+    try {
+      await screenApi.setVideoAssignments(videoId, targets);
+      loadVideos();
+    } catch (error) {
+      console.error('Error updating screen assignments:', error);
+      alert('Error updating screen assignments');
+    }
+  };
+
+  const getAssignmentDescription = (video: Video) => {
+    const videoAssignments = assignments.filter(a => a.video_id === video.id);
+    if (videoAssignments.length === 0) return 'All screens';
+
+    return videoAssignments
+      .map(a => a.screen_id
+        ? screens.find(s => s.id === a.screen_id)?.name
+        : screenGroups.find(g => g.id === a.group_id)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
   const formatFileSize = (bytes: number) => {
     const mb = bytes / (1024 * 1024);
     return `${mb.toFixed(2)} MB`;
@@ -357,8 +475,8 @@ useEffect(() => {
   };
 
   const getScheduleStatus = (video: Video) => {
-    const isScheduled = scheduleUtils.isVideoScheduledNow(video);
-    const description = scheduleUtils.formatScheduleDescription(video);
+    const isScheduled = scheduleUtils.isVideoScheduledNow(video, calendars);
+    const description = scheduleUtils.formatScheduleDescription(video, calendars);
     
     return {
       isScheduled,
@@ -378,6 +496,8 @@ useEffect(() => {
           </div>
         </div>
 
+        <AdminNav />
+
         {/* Error Display */}
         {loadError && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -448,12 +568,12 @@ useEffect(() => {
             onDrop={handleDrop}
           >
             <Upload className="mx-auto h-12 w-12 text-gray-400 mb-4" />
-            <p className="text-xl mb-2 text-gray-900">Drop video files here or click to upload</p>
-            <p className="text-gray-500 mb-2">Supports MP4, WebM, MOV, AVI formats</p>
-            <p className="text-sm text-gray-400 mb-4">Maximum file size: 500MB per video</p>
+            <p className="text-xl mb-2 text-gray-900">Drop video, image or HTML files here or click to upload</p>
+            <p className="text-gray-500 mb-2">Supports MP4, WebM, MOV, AVI videos, JPEG, PNG, WebP, SVG images and HTML pages</p>
+            <p className="text-sm text-gray-400 mb-4">Maximum file size: 500MB per file</p>
             <input
               type="file"
-              accept="video/*"
+              accept="video/*,image/jpeg,image/png,image/webp,image/svg+xml,text/html"
               multiple
               onChange={(e) => handleFileUpload(e.target.files)}
               className="hidden"
@@ -468,7 +588,7 @@ useEffect(() => {
                   : 'bg-blue-600 hover:bg-blue-700 cursor-pointer'
               }`}
             >
-              {uploading ? 'Uploading...' : 'Select Videos'}
+              {uploading ? 'Uploading...' : 'Select Files'}
             </label>
             
             {/* Upload Progress */}
@@ -488,6 +608,42 @@ useEffect(() => {
           </div>
         </div>
 
+        {/* Web Page Slides */}
+        <div className="mb-8 bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Add a Web Page</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Shows a live page (menu board, dashboard, weather) as a slide in a sandboxed frame
+          </p>
+          <div className="flex flex-col md:flex-row gap-2">
+            <input
+              type="url"
+              value={pageUrl}
+              onChange={(e) => setPageUrl(e.target.value)}
+              placeholder="https://example.com/menu"
+              className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <input
+              type="text"
+              value={pageTitle}
+              onChange={(e) => setPageTitle(e.target.value)}
+              placeholder="Title (optional)"
+              className="md:w-64 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              onClick={addWebPage}
+              disabled={addingPage || !pageUrl.trim()}
+              className="flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{addingPage ? 'Adding...' : 'Add Page'}</span>
+            </button>
+          </div>
+        </div>
+
+        {!loadingVideos && !loadError && videos.length > 0 && (
+          <ScheduleWarnings videos={videos} screens={screens} assignments={assignments} calendars={calendars} />
+        )}
+
         {/* Videos List */}
         {!loadingVideos && !loadError && (
           <div className="bg-white rounded-lg shadow overflow-hidden">
@@ -515,6 +671,7 @@ useEffect(() => {
               <div className="divide-y divide-gray-200">
                 {videos.map((video, index) => {
                   const scheduleStatus = getScheduleStatus(video);
+                  const mediaType = mediaUtils.getMediaType(video);
                   
                   return (
                     <div key={video.id} className="p-6 hover:bg-gray-50">
@@ -522,7 +679,20 @@ useEffect(() => {
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center space-x-3">
                             <div className="flex-shrink-0">
-                              {video.file_url && (
+                              {mediaType === 'image' && video.file_url && (
+                                // eslint-disable-next-line @next/next/no-img-element
+                                <img
+                                  src={video.file_url}
+                                  alt={video.title}
+                                  className="h-16 w-24 object-cover rounded"
+                                />
+                              )}
+                              {mediaType === 'html' && (
+                                <div className="h-16 w-24 rounded bg-gray-100 flex items-center justify-center">
+                                  <Globe className="h-6 w-6 text-gray-400" />
+                                </div>
+                              )}
+                              {mediaType === 'video' && video.file_url && (
                                 <video
                                   src={video.file_url}
                                   className="h-16 w-24 object-cover rounded"
@@ -539,13 +709,44 @@ useEffect(() => {
                               <p className="text-lg font-medium text-gray-900 truncate">
                                 {video.title}
                               </p>
-                              <p className="text-sm text-gray-500">
-                                {formatFileSize(video.file_size || 0)} • {formatDuration(video.duration || 0)}
-                              </p>
+                              {mediaType === 'video' ? (
+                                <p className="text-sm text-gray-500">
+                                  {formatFileSize(video.file_size || 0)} • {formatDuration(video.duration || 0)}
+                                </p>
+                              ) : (
+                                <div className="flex items-center space-x-2 text-sm text-gray-500">
+                                  <span>{mediaType === 'image' ? `Image • ${formatFileSize(video.file_size || 0)}` : 'Web page'}</span>
+                                  <span>• Show for</span>
+                                  <input
+                                    key={video.display_duration ?? DEFAULT_SLIDE_DURATION}
+                                    type="number"
+                                    min={1}
+                                    defaultValue={video.display_duration ?? DEFAULT_SLIDE_DURATION}
+                                    onBlur={(e) => updateDisplayDuration(video, Number(e.target.value))}
+                                    className="w-16 px-1 py-0.5 border border-gray-300 rounded text-sm"
+                                  />
+                                  <span>seconds</span>
+                                </div>
+                              )}
                               <div className="flex items-center space-x-2 mt-1">
                                 <span className="text-xs">{scheduleStatus.icon}</span>
                                 <span className="text-xs text-gray-500">{scheduleStatus.description}</span>
                               </div>
+                              {scheduleAnalysis.checkSchedule(video, calendars).map((problem, index) => (
+                                <div key={index} className={`text-xs mt-1 ${problem.kind === 'invalid' ? 'text-red-600' : 'text-amber-600'}`}>
+                                  ⚠ {problem.message}
+                                </div>
+                              ))}
+                              <div className="flex items-center space-x-2 mt-1">
+                                <Monitor className="h-3 w-3 text-gray-400" />
+                                <span className="text-xs text-gray-500">{getAssignmentDescription(video)}</span>
+                              </div>
+                              {rotationUtils.describe(video) && (
+                                <div className="flex items-center space-x-2 mt-1">
+                                  <Gauge className="h-3 w-3 text-gray-400" />
+                                  <span className="text-xs text-gray-500">{rotationUtils.describe(video)}</span>
+                                </div>
+                              )}
                             </div>
                           </div>
                         </div>
@@ -578,6 +779,24 @@ useEffect(() => {
                             <Calendar className="h-5 w-5" />
                           </button>
                           
+                          {/* Screens */}
+                          <button
+                            onClick={() => setAssigningVideo(video)}
+                            className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Assign Screens"
+                          >
+                            <Monitor className="h-5 w-5" />
+                          </button>
+                          
+                          {/* Playback Rules */}
+                          <button
+                            onClick={() => setRulesVideo(video)}
+                            className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                            title="Playback Rules"
+                          >
+                            <Gauge className="h-5 w-5" />
+                          </button>
+                          
                           {/* Active Toggle */}
                           <button
                             onClick={() => toggleVideoActive(video)}
@@ -596,7 +815,7 @@ useEffect(() => {
                             <button
                               onClick={() => window.open(video.file_url, '_blank')}
                               className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
-                              title="Preview Video"
+                              title={mediaType === 'video' ? 'Preview Video' : 'Open'}
                             >
                               <Play className="h-5 w-5" />
                             </button>
@@ -628,6 +847,27 @@ useEffect(() => {
             onClose={() => setSchedulingVideo(null)}
           />
         )}
+
+        {/* Screen Assignment Modal */}
+        {assigningVideo && (
+          <VideoAssignments
+            video={assigningVideo}
+            screens={screens}
+            groups={screenGroups}
+            assignments={assignments}
+            onUpdate={handleAssignmentsUpdate}
+            onClose={() => setAssigningVideo(null)}
+          />
+        )}
+
+        {/* Playback Rules Modal */}
+        {rulesVideo && (
+          <PlaybackRules
+            video={rulesVideo}
+            onUpdate={handleRulesUpdate}
+            onClose={() => setRulesVideo(null)}
+          />
+        )}
       </div>
     </div>
   );
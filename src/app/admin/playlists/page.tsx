@@ -0,0 +1,405 @@
+// src/app/admin/playlists/page.tsx - Playlist editor
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { videoApi, mediaUtils, Video } from '@/lib/supabase';
+import { playlistApi, playlistUtils, Playlist, PlaylistItem, TransitionType } from '@/lib/playlists';
+import { ListVideo, Plus, Trash2, AlertCircle, RefreshCw, Globe } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+export default function PlaylistsPage() {
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [selectedPlaylistId, setSelectedPlaylistId] = useState<string | null>(null);
+  const [items, setItems] = useState<PlaylistItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [newPlaylistName, setNewPlaylistName] = useState('');
+  const [videoToAdd, setVideoToAdd] = useState('');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [playlistData, videoData] = await Promise.all([
+        playlistApi.getPlaylists(),
+        videoApi.getAllVideos(),
+      ]);
+      setPlaylists(playlistData);
+      setVideos(videoData);
+    } catch (error) {
+      console.error('Error loading playlists:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load playlists');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadItems = useCallback(async (playlistId: string) => {
+    try {
+      const data = await playlistApi.getItems(playlistId);
+      setItems(data);
+    } catch (error) {
+      console.error('Error loading playlist items:', error);
+      setItems([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useEffect(() => {
+    if (selectedPlaylistId) {
+      loadItems(selectedPlaylistId);
+    } else {
+      setItems([]);
+    }
+  }, [selectedPlaylistId, loadItems]);
+
+  const selectedPlaylist = playlists.find(p => p.id === selectedPlaylistId);
+
+  const addPlaylist = async () => {
+    if (!newPlaylistName.trim()) return;
+
+    try {
+      const playlist = await playlistApi.addPlaylist(newPlaylistName.trim());
+      setNewPlaylistName('');
+      await loadData();
+      setSelectedPlaylistId(playlist.id);
+    } catch (error) {
+      console.error('Error adding playlist:', error);
+      alert(`Error adding playlist: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const deletePlaylist = async (playlist: Playlist) => {
+    if (!confirm(`Are you sure you want to delete the playlist "${playlist.name}"?`)) return;
+
+    try {
+      await playlistApi.deletePlaylist(playlist.id);
+      if (selectedPlaylistId === playlist.id) {
+        setSelectedPlaylistId(null);
+      }
+      loadData();
+    } catch (error) {
+      console.error('Error deleting playlist:', error);
+    }
+  };
+
+  const addItem = async () => {
+    if (!selectedPlaylistId || !videoToAdd) return;
+
+    try {
+      const nextPosition = Math.max(...items.map(item => item.position), -1) + 1;
+      await playlistApi.addItem(selectedPlaylistId, videoToAdd, nextPosition);
+      setVideoToAdd('');
+      loadItems(selectedPlaylistId);
+    } catch (error) {
+      console.error('Error adding playlist item:', error);
+      alert('Error adding video to playlist');
+    }
+  };
+
+  const removeItem = async (item: PlaylistItem) => {
+    if (!selectedPlaylistId) return;
+
+    try {
+      await playlistApi.removeItem(item.id);
+      loadItems(selectedPlaylistId);
+    } catch (error) {
+      console.error('Error removing playlist item:', error);
+    }
+  };
+
+  const moveItem = async (index: number, direction: 'up' | 'down') => {
+    if (!selectedPlaylistId) return;
+
+    const targetIndex = direction === 'up' ? index - 1 : index + 1;
+    if (targetIndex < 0 || targetIndex >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[targetIndex]] = [reordered[targetIndex], reordered[index]];
+    setItems(reordered);
+
+    try {
+      await playlistApi.reorderItems(reordered);
+      loadItems(selectedPlaylistId);
+    } catch (error) {
+      console.error('Error reordering playlist:', error);
+      loadItems(selectedPlaylistId);
+    }
+  };
+
+  const updateItem = async (item: PlaylistItem, updates: Partial<Pick<PlaylistItem, 'duration_override' | 'loop_count' | 'transition'>>) => {
+    setItems(prev => prev.map(i => i.id === item.id ? { ...i, ...updates } : i));
+
+    try {
+      await playlistApi.updateItem(item.id, updates);
+    } catch (error) {
+      console.error('Error updating playlist item:', error);
+      alert('Error updating playlist item');
+    }
+  };
+
+  const formatDuration = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.round(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
+  const videoFor = (item: PlaylistItem) => videos.find(v => v.id === item.video_id);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Playlists</h1>
+          <p className="text-gray-600">Build ordered playlists and assign them to screens</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Playlist List */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">All Playlists</h2>
+
+            <div className="flex space-x-2 mb-4">
+              <input
+                type="text"
+                value={newPlaylistName}
+                onChange={(e) => setNewPlaylistName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && addPlaylist()}
+                placeholder="New playlist name"
+                className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                onClick={addPlaylist}
+                className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                title="Create playlist"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+
+            {loading ? (
+              <div className="flex items-center space-x-2 text-gray-500 text-sm">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+                <span>Loading playlists...</span>
+              </div>
+            ) : playlists.length === 0 ? (
+              <p className="text-sm text-gray-500">No playlists yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {playlists.map(playlist => (
+                  <li key={playlist.id}>
+                    <div
+                      className={`flex items-center justify-between p-2 rounded-lg cursor-pointer ${
+                        playlist.id === selectedPlaylistId ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                      }`}
+                      onClick={() => setSelectedPlaylistId(playlist.id)}
+                    >
+                      <span className="flex items-center space-x-2">
+                        <ListVideo className="h-4 w-4" />
+                        <span>{playlist.name}</span>
+                      </span>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deletePlaylist(playlist);
+                        }}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete playlist"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Playlist Editor */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            {!selectedPlaylist ? (
+              <div className="p-8 text-center text-gray-500">
+                Select a playlist to edit its videos.
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">{selectedPlaylist.name}</h2>
+                  <p className="text-sm text-gray-500">
+                    {items.length} item(s) • Total runtime {formatDuration(playlistUtils.getTotalDuration(items, videos))}
+                  </p>
+                </div>
+
+                {/* Add Video */}
+                <div className="px-6 py-4 border-b border-gray-200 flex space-x-2">
+                  <select
+                    value={videoToAdd}
+                    onChange={(e) => setVideoToAdd(e.target.value)}
+                    className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="">Select a video to add...</option>
+                    {videos.map(video => (
+                      <option key={video.id} value={video.id}>
+                        {video.title}{!video.is_active && ' (inactive)'}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={addItem}
+                    disabled={!videoToAdd}
+                    className="flex items-center space-x-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add</span>
+                  </button>
+                </div>
+
+                {items.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    This playlist is empty. Add a video above.
+                  </div>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {items.map((item, index) => {
+                      const video = videoFor(item);
+
+                      return (
+                        <div key={item.id} className="p-4 flex items-center justify-between hover:bg-gray-50">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <span className="w-6 text-sm text-gray-400 text-right">{index + 1}</span>
+                            {video && mediaUtils.getMediaType(video) === 'image' && (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img
+                                src={video.file_url}
+                                alt={video.title}
+                                className="h-12 w-20 object-cover rounded flex-shrink-0"
+                              />
+                            )}
+                            {video && mediaUtils.getMediaType(video) === 'html' && (
+                              <div className="h-12 w-20 rounded bg-gray-100 flex items-center justify-center flex-shrink-0">
+                                <Globe className="h-5 w-5 text-gray-400" />
+                              </div>
+                            )}
+                            {video?.file_url && !mediaUtils.isSlide(video) && (
+                              <video
+                                src={video.file_url}
+                                className="h-12 w-20 object-cover rounded flex-shrink-0"
+                                muted
+                              />
+                            )}
+                            <div className="min-w-0">
+                              <p className="font-medium text-gray-900 truncate">
+                                {video?.title || 'Missing video'}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {video ? formatDuration(mediaUtils.getDuration(video)) : '—'}
+                                {video && mediaUtils.getMediaType(video) === 'image' && ' • image'}
+                                {video && mediaUtils.getMediaType(video) === 'html' && ' • web page'}
+                                {video && !video.is_active && ' • inactive'}
+                              </p>
+                            </div>
+                          </div>
+
+                          <div className="flex items-center space-x-3">
+                            <label className="text-xs text-gray-500">
+                              Duration (s)
+                              <input
+                                type="number"
+                                min={1}
+                                value={item.duration_override ?? ''}
+                                placeholder="Full"
+                                onChange={(e) => updateItem(item, {
+                                  duration_override: e.target.value ? Number(e.target.value) : null,
+                                })}
+                                className="block w-20 mt-1 p-1 border border-gray-300 rounded"
+                              />
+                            </label>
+                            <label className="text-xs text-gray-500">
+                              Loops
+                              <input
+                                type="number"
+                                min={1}
+                                value={item.loop_count}
+                                onChange={(e) => updateItem(item, {
+                                  loop_count: Math.max(1, Number(e.target.value) || 1),
+                                })}
+                                className="block w-16 mt-1 p-1 border border-gray-300 rounded"
+                              />
+                            </label>
+                            <label className="text-xs text-gray-500">
+                              Transition
+                              <select
+                                value={item.transition || 'cut'}
+                                onChange={(e) => updateItem(item, {
+                                  transition: e.target.value as TransitionType,
+                                })}
+                                className="block w-28 mt-1 p-1 border border-gray-300 rounded"
+                              >
+                                <option value="cut">Cut</option>
+                                <option value="crossfade">Crossfade</option>
+                                <option value="fade">Fade to black</option>
+                              </select>
+                            </label>
+
+                            {/* Move Up/Down */}
+                            <div className="flex flex-col">
+                              <button
+                                onClick={() => moveItem(index, 'up')}
+                                disabled={index === 0}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 text-sm font-bold"
+                              >
+                                ↑
+                              </button>
+                              <button
+                                onClick={() => moveItem(index, 'down')}
+                                disabled={index === items.length - 1}
+                                className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-50 text-sm font-bold"
+                              >
+                                ↓
+                              </button>
+                            </div>
+
+                            <button
+                              onClick={() => removeItem(item)}
+                              className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                              title="Remove from playlist"
+                            >
+                              <Trash2 className="h-5 w-5" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
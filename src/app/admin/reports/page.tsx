@@ -0,0 +1,319 @@
+// src/app/admin/reports/page.tsx - Proof-of-play reports
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { videoApi, Video } from '@/lib/supabase';
+import { screenApi, Screen } from '@/lib/screens';
+import { playLogApi, playLogUtils, PlayLog } from '@/lib/playLogs';
+import { AlertCircle, Download, RefreshCw } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+const toDateInput = (date: Date) => date.toLocaleDateString('en-CA');
+
+const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m ${Math.round(seconds % 60)}s`;
+};
+
+export default function ReportsPage() {
+  const [plays, setPlays] = useState<PlayLog[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [fromDate, setFromDate] = useState(() => toDateInput(new Date(Date.now() - 6 * 24 * 60 * 60 * 1000)));
+  const [toDate, setToDate] = useState(() => toDateInput(new Date()));
+  const [screenFilter, setScreenFilter] = useState('');
+  const [videoFilter, setVideoFilter] = useState('');
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      // Pad the range by a day on each side so screens in other timezones are not cut off
+      const from = new Date(`${fromDate}T00:00:00`);
+      from.setDate(from.getDate() - 1);
+      const to = new Date(`${toDate}T00:00:00`);
+      to.setDate(to.getDate() + 2);
+
+      const [playData, videoData, screenData] = await Promise.all([
+        playLogApi.getPlays(from, to, screenFilter || undefined),
+        videoApi.getAllVideos(),
+        screenApi.getScreens(),
+      ]);
+      setPlays(playData);
+      setVideos(videoData);
+      setScreens(screenData);
+    } catch (error) {
+      console.error('Error loading play report:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load plays');
+    } finally {
+      setLoading(false);
+    }
+  }, [fromDate, toDate, screenFilter]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  const videoTitle = (videoId: string) => videos.find(v => v.id === videoId)?.title || 'Deleted video';
+  const screenName = (screenId: string | null) =>
+    screenId ? screens.find(s => s.id === screenId)?.name || 'Deleted screen' : 'No screen';
+
+  const allSummaries = playLogUtils
+    .summarize(plays, screenId => screens.find(s => s.id === screenId)?.timezone)
+    .filter(summary => summary.day >= fromDate && summary.day <= toDate);
+  const summaries = allSummaries.filter(summary => !videoFilter || summary.video_id === videoFilter);
+
+  // Share of voice is measured against everything that played, whatever the video filter
+  const contractedShares = playLogUtils
+    .getShareOfVoice(allSummaries)
+    .filter(share => !videoFilter || share.video_id === videoFilter)
+    .map(share => ({ ...share, contracted: videos.find(v => v.id === share.video_id)?.share_of_voice ?? null }));
+  const sharesWithContract = [
+    ...contractedShares.filter(share => share.contracted),
+    // Contracted videos that never played are the biggest shortfall of all
+    ...videos
+      .filter(video => video.share_of_voice && (!videoFilter || video.id === videoFilter) &&
+        !contractedShares.some(share => share.video_id === video.id))
+      .map(video => ({ video_id: video.id, plays: 0, total_seconds: 0, share: 0, contracted: video.share_of_voice ?? null })),
+  ];
+
+  const totals = summaries.reduce(
+    (acc, summary) => ({
+      plays: acc.plays + summary.plays,
+      completed: acc.completed + summary.completed,
+      skipped: acc.skipped + summary.skipped,
+      errored: acc.errored + summary.errored,
+      touch: acc.touch + summary.touch,
+      seconds: acc.seconds + summary.total_seconds,
+    }),
+    { plays: 0, completed: 0, skipped: 0, errored: 0, touch: 0, seconds: 0 }
+  );
+
+  const exportCsv = () => {
+    const csv = playLogUtils.toCsv(
+      ['Date', 'Video', 'Screen', 'Plays', 'Completed', 'Skipped', 'Errored', 'Touch', 'Play Time (s)'],
+      summaries.map(summary => [
+        summary.day,
+        videoTitle(summary.video_id),
+        screenName(summary.screen_id),
+        summary.plays,
+        summary.completed,
+        summary.skipped,
+        summary.errored,
+        summary.touch,
+        Math.round(summary.total_seconds),
+      ])
+    );
+
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `plays-${fromDate}-to-${toDate}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Play Reports</h1>
+          <p className="text-gray-600">How often each video actually played, per screen and day</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadReport}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        {/* Filters */}
+        <div className="mb-6 bg-white rounded-lg shadow p-4 flex flex-wrap items-end gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="date"
+              value={fromDate}
+              max={toDate}
+              onChange={(e) => setFromDate(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => setToDate(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Screen</label>
+            <select
+              value={screenFilter}
+              onChange={(e) => setScreenFilter(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">All screens</option>
+              {screens.map(screen => (
+                <option key={screen.id} value={screen.id}>{screen.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Video</label>
+            <select
+              value={videoFilter}
+              onChange={(e) => setVideoFilter(e.target.value)}
+              className="p-2 border border-gray-300 rounded-lg"
+            >
+              <option value="">All videos</option>
+              {videos.map(video => (
+                <option key={video.id} value={video.id}>{video.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center space-x-2 ml-auto">
+            <button
+              onClick={loadReport}
+              className="flex items-center space-x-1 px-3 py-2 text-gray-500 hover:text-gray-700"
+              title="Refresh report"
+            >
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+              <span className="text-sm">Refresh</span>
+            </button>
+            <button
+              onClick={exportCsv}
+              disabled={summaries.length === 0}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              <span>Export CSV</span>
+            </button>
+          </div>
+        </div>
+
+        {/* Totals */}
+        <div className="mb-6 grid grid-cols-2 md:grid-cols-6 gap-4">
+          {[
+            { label: 'Plays', value: totals.plays, color: 'text-gray-900' },
+            { label: 'Completed', value: totals.completed, color: 'text-green-700' },
+            { label: 'Skipped', value: totals.skipped, color: 'text-yellow-700' },
+            { label: 'Errored', value: totals.errored, color: 'text-red-700' },
+            { label: 'Touch', value: totals.touch, color: 'text-blue-700' },
+            { label: 'Play Time', value: formatDuration(totals.seconds), color: 'text-gray-900' },
+          ].map(stat => (
+            <div key={stat.label} className="bg-white rounded-lg shadow p-4">
+              <p className="text-sm text-gray-500">{stat.label}</p>
+              <p className={`text-2xl font-semibold ${stat.color}`}>{stat.value}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* Share of Voice */}
+        {sharesWithContract.length > 0 && (
+          <div className="mb-6 bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Share of Voice</h2>
+              <p className="text-sm text-gray-500">
+                Contracted share of play time against what {screenFilter ? 'this screen' : 'all screens'} actually played
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-6 py-3 font-medium">Video</th>
+                    <th className="px-6 py-3 font-medium text-right">Plays</th>
+                    <th className="px-6 py-3 font-medium text-right">Play Time</th>
+                    <th className="px-6 py-3 font-medium text-right">Delivered</th>
+                    <th className="px-6 py-3 font-medium text-right">Contracted</th>
+                    <th className="px-6 py-3 font-medium text-right">Difference</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {sharesWithContract.map(share => {
+                    const difference = share.share - (share.contracted || 0);
+                    return (
+                      <tr key={share.video_id} className="hover:bg-gray-50">
+                        <td className="px-6 py-3 text-gray-900">{videoTitle(share.video_id)}</td>
+                        <td className="px-6 py-3 text-right">{share.plays}</td>
+                        <td className="px-6 py-3 text-right text-gray-600">{formatDuration(share.total_seconds)}</td>
+                        <td className="px-6 py-3 text-right font-medium">{share.share.toFixed(1)}%</td>
+                        <td className="px-6 py-3 text-right text-gray-600">{share.contracted}%</td>
+                        <td className={`px-6 py-3 text-right font-medium ${difference < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                          {difference > 0 ? '+' : ''}{difference.toFixed(1)}%
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Summary Table */}
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          {!loading && summaries.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              No plays recorded in this period.
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr className="text-left text-gray-500">
+                    <th className="px-6 py-3 font-medium">Date</th>
+                    <th className="px-6 py-3 font-medium">Video</th>
+                    <th className="px-6 py-3 font-medium">Screen</th>
+                    <th className="px-6 py-3 font-medium text-right">Plays</th>
+                    <th className="px-6 py-3 font-medium text-right">Completed</th>
+                    <th className="px-6 py-3 font-medium text-right">Skipped</th>
+                    <th className="px-6 py-3 font-medium text-right">Errored</th>
+                    <th className="px-6 py-3 font-medium text-right" title="Plays picked from a kiosk menu">Touch</th>
+                    <th className="px-6 py-3 font-medium text-right">Play Time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {summaries.map(summary => (
+                    <tr key={`${summary.day}-${summary.video_id}-${summary.screen_id}`} className="hover:bg-gray-50">
+                      <td className="px-6 py-3 text-gray-900">{summary.day}</td>
+                      <td className="px-6 py-3 text-gray-900">{videoTitle(summary.video_id)}</td>
+                      <td className="px-6 py-3 text-gray-600">{screenName(summary.screen_id)}</td>
+                      <td className="px-6 py-3 text-right font-medium">{summary.plays}</td>
+                      <td className="px-6 py-3 text-right text-green-700">{summary.completed}</td>
+                      <td className="px-6 py-3 text-right text-yellow-700">{summary.skipped}</td>
+                      <td className="px-6 py-3 text-right text-red-700">{summary.errored}</td>
+                      <td className="px-6 py-3 text-right text-blue-700">{summary.touch}</td>
+                      <td className="px-6 py-3 text-right text-gray-600">{formatDuration(summary.total_seconds)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,687 @@
+// src/app/admin/screens/page.tsx - Screen and screen group management
+'use client';
+
+import { useState, useEffect } from 'react';
+import { videoApi, Video, Timezone } from '@/lib/supabase';
+import {
+  screenApi, screenUtils, Screen, ScreenGroup, ScreenRotation, FitMode, DEFAULT_DISPLAY_SETTINGS
+} from '@/lib/screens';
+import { playlistApi, Playlist } from '@/lib/playlists';
+import { layoutApi, Layout } from '@/lib/layouts';
+import { kioskApi, KioskMenu } from '@/lib/kiosk';
+import { syncUtils, CropRegion } from '@/lib/sync';
+import { Monitor, Plus, Trash2, Edit2, ExternalLink, AlertCircle, RefreshCw, Save, X } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+interface ScreenForm {
+  name: string;
+  slug: string;
+  location: string;
+  timezone: string;
+  orientation: Screen['orientation'];
+  rotation: ScreenRotation;
+  fit_mode: FitMode;
+  background_color: string;
+  safe_area_padding: number;
+  group_id: string;
+  playlist_id: string;
+  layout_id: string;
+  kiosk_menu_id: string;
+  fallback: string; // 'playlist:<id>', 'video:<id>' or empty
+  wall_crop: CropRegion;
+}
+
+const FULL_FRAME: CropRegion = { x: 0, y: 0, width: 100, height: 100 };
+
+const CROP_FIELDS: { key: keyof CropRegion; label: string }[] = [
+  { key: 'x', label: 'Left' },
+  { key: 'y', label: 'Top' },
+  { key: 'width', label: 'Width' },
+  { key: 'height', label: 'Height' },
+];
+
+const emptyForm = (): ScreenForm => ({
+  name: '',
+  slug: '',
+  location: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  orientation: 'landscape',
+  ...DEFAULT_DISPLAY_SETTINGS,
+  group_id: '',
+  playlist_id: '',
+  layout_id: '',
+  kiosk_menu_id: '',
+  fallback: '',
+  wall_crop: { ...FULL_FRAME },
+});
+
+const getFallbackValue = (screen: Screen) =>
+  screen.fallback_playlist_id ? `playlist:${screen.fallback_playlist_id}`
+    : screen.fallback_video_id ? `video:${screen.fallback_video_id}`
+    : '';
+
+export default function ScreensPage() {
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [groups, setGroups] = useState<ScreenGroup[]>([]);
+  const [timezones, setTimezones] = useState<Timezone[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [layouts, setLayouts] = useState<Layout[]>([]);
+  const [kioskMenus, setKioskMenus] = useState<KioskMenu[]>([]);
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [form, setForm] = useState<ScreenForm>(emptyForm());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [newGroupName, setNewGroupName] = useState('');
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [screenData, groupData, timezoneData, playlistData, layoutData, kioskMenuData, videoData] = await Promise.all([
+        screenApi.getScreens(),
+        screenApi.getGroups(),
+        videoApi.getTimezones(),
+        playlistApi.getPlaylists(),
+        layoutApi.getLayouts(),
+        kioskApi.getMenus(),
+        videoApi.getAllVideos(),
+      ]);
+      setScreens(screenData);
+      setGroups(groupData);
+      setTimezones(timezoneData);
+      setPlaylists(playlistData);
+      setLayouts(layoutData);
+      setKioskMenus(kioskMenuData);
+      setVideos(videoData);
+    } catch (error) {
+      console.error('Error loading screens:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load screens');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = (updates: Partial<ScreenForm>) => {
+    setForm(prev => {
+      const next = { ...prev, ...updates };
+      // Keep the slug in sync with the name until it is edited by hand
+      if (updates.name !== undefined && !editingId && prev.slug === screenUtils.slugify(prev.name)) {
+        next.slug = screenUtils.slugify(updates.name);
+      }
+      return next;
+    });
+  };
+
+  const startEditing = (screen: Screen) => {
+    setEditingId(screen.id);
+    setForm({
+      name: screen.name,
+      slug: screen.slug,
+      location: screen.location || '',
+      timezone: screen.timezone,
+      orientation: screen.orientation,
+      ...screenUtils.getDisplaySettings(screen),
+      group_id: screen.group_id || '',
+      playlist_id: screen.playlist_id || '',
+      layout_id: screen.layout_id || '',
+      kiosk_menu_id: screen.kiosk_menu_id || '',
+      fallback: getFallbackValue(screen),
+      wall_crop: screen.wall_crop || { ...FULL_FRAME },
+    });
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+  };
+
+  const handleSave = async () => {
+    if (!form.name || !form.slug) {
+      alert('Name and slug are required');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const screenData = {
+        name: form.name,
+        slug: screenUtils.slugify(form.slug),
+        location: form.location || undefined,
+        timezone: form.timezone,
+        orientation: form.orientation,
+        rotation: form.rotation,
+        fit_mode: form.fit_mode,
+        background_color: form.background_color,
+        safe_area_padding: form.safe_area_padding,
+        group_id: form.group_id || null,
+        playlist_id: form.playlist_id || null,
+        layout_id: form.layout_id || null,
+        kiosk_menu_id: form.kiosk_menu_id || null,
+        fallback_playlist_id: form.fallback.startsWith('playlist:') ? form.fallback.slice('playlist:'.length) : null,
+        fallback_video_id: form.fallback.startsWith('video:') ? form.fallback.slice('video:'.length) : null,
+        wall_crop: syncUtils.isFullFrame(form.wall_crop) ? null : form.wall_crop,
+      };
+
+      if (editingId) {
+        await screenApi.updateScreen(editingId, screenData);
+      } else {
+        await screenApi.addScreen(screenData);
+      }
+
+      cancelEditing();
+      loadData();
+    } catch (error) {
+      console.error('Error saving screen:', error);
+      alert(`Error saving screen: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteScreen = async (screen: Screen) => {
+    if (!confirm(`Are you sure you want to delete the screen "${screen.name}"?`)) return;
+
+    try {
+      await screenApi.deleteScreen(screen.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting screen:', error);
+    }
+  };
+
+  const addGroup = async () => {
+    if (!newGroupName.trim()) return;
+
+    try {
+      await screenApi.addGroup(newGroupName.trim());
+      setNewGroupName('');
+      loadData();
+    } catch (error) {
+      console.error('Error adding group:', error);
+      alert('Error adding group');
+    }
+  };
+
+  const deleteGroup = async (group: ScreenGroup) => {
+    if (!confirm(`Delete the group "${group.name}"? Screens in it will become ungrouped.`)) return;
+
+    try {
+      await screenApi.deleteGroup(group.id);
+      loadData();
+    } catch (error) {
+      console.error('Error deleting group:', error);
+    }
+  };
+
+  const toggleGroupSync = async (group: ScreenGroup) => {
+    try {
+      await screenApi.updateGroup(group.id, { sync_playback: !group.sync_playback });
+      loadData();
+    } catch (error) {
+      console.error('Error updating group:', error);
+      alert('Error updating group');
+    }
+  };
+
+  const updateCrop = (key: keyof CropRegion, value: number) => {
+    const crop = { ...form.wall_crop, [key]: Math.min(100, Math.max(0, value)) };
+    // Keep the region inside the video
+    if (key === 'x' || key === 'width') crop.width = Math.max(1, Math.min(crop.width, 100 - crop.x));
+    if (key === 'y' || key === 'height') crop.height = Math.max(1, Math.min(crop.height, 100 - crop.y));
+    updateForm({ wall_crop: crop });
+  };
+
+  const groupName = (groupId?: string | null) =>
+    groups.find(g => g.id === groupId)?.name;
+
+  const isWallGroup = !!groups.find(g => g.id === form.group_id)?.sync_playback;
+
+  const playlistName = (playlistId?: string | null) =>
+    playlists.find(p => p.id === playlistId)?.name;
+
+  const fallbackName = (screen: Screen) =>
+    screen.fallback_playlist_id
+      ? playlistName(screen.fallback_playlist_id)
+      : videos.find(v => v.id === screen.fallback_video_id)?.title;
+
+  const layoutName = (layoutId?: string | null) =>
+    layouts.find(l => l.id === layoutId)?.name;
+
+  const kioskMenuName = (menuId?: string | null) =>
+    kioskMenus.find(m => m.id === menuId)?.name;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Screens</h1>
+          <p className="text-gray-600">Register displays and group them so each one can show its own content</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Screen Form */}
+          <div className="bg-white rounded-lg shadow p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">
+              {editingId ? 'Edit Screen' : 'Add Screen'}
+            </h2>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="Lobby"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Slug</label>
+                <input
+                  type="text"
+                  value={form.slug}
+                  onChange={(e) => updateForm({ slug: e.target.value })}
+                  placeholder="lobby"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Display URL: /display?screen={form.slug || 'slug'}
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Location</label>
+                <input
+                  type="text"
+                  value={form.location}
+                  onChange={(e) => updateForm({ location: e.target.value })}
+                  placeholder="Main building, ground floor"
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                <select
+                  value={form.timezone}
+                  onChange={(e) => updateForm({ timezone: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  {!timezones.some(tz => tz.value === form.timezone) && (
+                    <option value={form.timezone}>{form.timezone}</option>
+                  )}
+                  {timezones.map(tz => (
+                    <option key={tz.value} value={tz.value}>
+                      {tz.display_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Orientation</label>
+                <select
+                  value={form.orientation}
+                  onChange={(e) => updateForm({ orientation: e.target.value as Screen['orientation'] })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="landscape">Landscape</option>
+                  <option value="portrait">Portrait</option>
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Rotation</label>
+                  <select
+                    value={form.rotation}
+                    onChange={(e) => updateForm({ rotation: Number(e.target.value) as ScreenRotation })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value={0}>0°</option>
+                    <option value={90}>90° clockwise</option>
+                    <option value={180}>180° (upside down)</option>
+                    <option value={270}>270° clockwise</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Fit</label>
+                  <select
+                    value={form.fit_mode}
+                    onChange={(e) => updateForm({ fit_mode: e.target.value as FitMode })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="contain">Contain (letterbox)</option>
+                    <option value="cover">Cover (crop)</option>
+                    <option value="fit-width">Fit width (crop top and bottom)</option>
+                    <option value="stretch">Stretch (distort)</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Background</label>
+                  <input
+                    type="color"
+                    value={form.background_color}
+                    onChange={(e) => updateForm({ background_color: e.target.value })}
+                    className="w-full h-10 p-1 border border-gray-300 rounded-lg"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Safe Area (px)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.safe_area_padding}
+                    onChange={(e) => updateForm({ safe_area_padding: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Group</label>
+                <select
+                  value={form.group_id}
+                  onChange={(e) => updateForm({ group_id: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No group</option>
+                  {groups.map(group => (
+                    <option key={group.id} value={group.id}>{group.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              {isWallGroup && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Wall Crop (% of the video)</label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {CROP_FIELDS.map(({ key, label }) => (
+                      <label key={key} className="text-xs text-gray-500">
+                        {label}
+                        <input
+                          type="number"
+                          min={key === 'width' || key === 'height' ? 1 : 0}
+                          max={100}
+                          value={form.wall_crop[key]}
+                          onChange={(e) => updateCrop(key, Number(e.target.value) || 0)}
+                          className="block w-full mt-1 p-1 border border-gray-300 rounded"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    The part of each video this screen shows, e.g. Left 50, Top 0, Width 50, Height 100 for the right half of a 2×1 wall
+                  </p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Playlist</label>
+                <select
+                  value={form.playlist_id}
+                  onChange={(e) => updateForm({ playlist_id: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">No playlist (assigned videos)</option>
+                  {playlists.map(playlist => (
+                    <option key={playlist.id} value={playlist.id}>{playlist.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Layout</label>
+                <select
+                  value={form.layout_id}
+                  onChange={(e) => updateForm({ layout_id: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Full screen</option>
+                  {layouts.map(layout => (
+                    <option key={layout.id} value={layout.id}>{layout.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Kiosk Menu</label>
+                <select
+                  value={form.kiosk_menu_id}
+                  onChange={(e) => updateForm({ kiosk_menu_id: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None (not a touch screen)</option>
+                  {kioskMenus.map(menu => (
+                    <option key={menu.id} value={menu.id}>{menu.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">A tap on the screen opens this menu over the normal content</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Fallback Content</label>
+                <select
+                  value={form.fallback}
+                  onChange={(e) => updateForm({ fallback: e.target.value })}
+                  className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">None (blank screen)</option>
+                  <optgroup label="Playlists">
+                    {playlists.map(playlist => (
+                      <option key={playlist.id} value={`playlist:${playlist.id}`}>{playlist.name}</option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Videos and slides">
+                    {videos.map(video => (
+                      <option key={video.id} value={`video:${video.id}`}>{video.title}</option>
+                    ))}
+                  </optgroup>
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  Plays whenever nothing is scheduled, and offline when nothing else is cached
+                </p>
+              </div>
+
+              <div className="flex space-x-2 pt-2">
+                <button
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="flex-1 flex items-center justify-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {editingId ? <Save className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+                  <span>{saving ? 'Saving...' : editingId ? 'Save Screen' : 'Add Screen'}</span>
+                </button>
+                {editingId && (
+                  <button
+                    onClick={cancelEditing}
+                    className="py-2 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+
+            {/* Groups */}
+            <div className="mt-8 pt-6 border-t">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Screen Groups</h2>
+              <div className="flex space-x-2 mb-4">
+                <input
+                  type="text"
+                  value={newGroupName}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  placeholder="e.g. Cafeterias"
+                  className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                />
+                <button
+                  onClick={addGroup}
+                  className="px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                  title="Add group"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+              {groups.length === 0 ? (
+                <p className="text-sm text-gray-500">No groups yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {groups.map(group => (
+                    <li key={group.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {group.name}
+                        <span className="text-gray-400 ml-2">
+                          ({screens.filter(s => s.group_id === group.id).length} screens)
+                        </span>
+                      </span>
+                      <label
+                        className="ml-auto mr-2 flex items-center space-x-1 text-xs text-gray-500"
+                        title="Screens in this group play in sync as a video wall"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={!!group.sync_playback}
+                          onChange={() => toggleGroupSync(group)}
+                        />
+                        <span>Video wall</span>
+                      </label>
+                      <button
+                        onClick={() => deleteGroup(group)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Delete group"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Screen List */}
+          <div className="lg:col-span-2 bg-white rounded-lg shadow overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">
+                Registered Screens ({screens.length})
+              </h2>
+              <button
+                onClick={loadData}
+                className="flex items-center space-x-1 px-3 py-1 text-gray-500 hover:text-gray-700"
+                title="Refresh screens"
+              >
+                <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+                <span className="text-sm">Refresh</span>
+              </button>
+            </div>
+
+            {!loading && screens.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                No screens registered yet. Displays without a screen show every unassigned video.
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200">
+                {screens.map(screen => (
+                  <div key={screen.id} className="p-6 flex items-center justify-between hover:bg-gray-50">
+                    <div className="flex items-center space-x-4 min-w-0">
+                      <Monitor className={`h-8 w-8 text-gray-400 flex-shrink-0 ${screen.orientation === 'portrait' ? 'rotate-90' : ''}`} />
+                      <div className="min-w-0">
+                        <p className="text-lg font-medium text-gray-900 truncate">{screen.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {screen.slug}
+                          {screen.location && ` • ${screen.location}`}
+                          {` • ${screen.timezone}`}
+                          {` • ${screen.orientation}`}
+                          {screen.rotation ? ` • rotated ${screen.rotation}°` : ''}
+                        </p>
+                        {groupName(screen.group_id) && (
+                          <span className="inline-block mt-1 mr-2 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+                            {groupName(screen.group_id)}
+                          </span>
+                        )}
+                        {playlistName(screen.playlist_id) && (
+                          <span className="inline-block mt-1 mr-2 px-2 py-0.5 text-xs bg-purple-100 text-purple-700 rounded">
+                            ▶ {playlistName(screen.playlist_id)}
+                          </span>
+                        )}
+                        {layoutName(screen.layout_id) && (
+                          <span className="inline-block mt-1 mr-2 px-2 py-0.5 text-xs bg-green-100 text-green-700 rounded">
+                            ▦ {layoutName(screen.layout_id)}
+                          </span>
+                        )}
+                        {kioskMenuName(screen.kiosk_menu_id) && (
+                          <span className="inline-block mt-1 mr-2 px-2 py-0.5 text-xs bg-amber-100 text-amber-700 rounded">
+                            ☝ {kioskMenuName(screen.kiosk_menu_id)}
+                          </span>
+                        )}
+                        {fallbackName(screen) && (
+                          <span className="inline-block mt-1 px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded">
+                            Fallback: {fallbackName(screen)}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => window.open(`/display?screen=${screen.slug}`, '_blank')}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                        title="Open Display"
+                      >
+                        <ExternalLink className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => startEditing(screen)}
+                        className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                        title="Edit Screen"
+                      >
+                        <Edit2 className="h-5 w-5" />
+                      </button>
+                      <button
+                        onClick={() => deleteScreen(screen)}
+                        className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                        title="Delete Screen"
+                      >
+                        <Trash2 className="h-5 w-5" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,334 @@
+// src/app/admin/timeline/page.tsx - Day/week timeline of what each screen plays, with a display preview link
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { videoApi, Video } from '@/lib/supabase';
+import { screenApi, Screen, VideoAssignment } from '@/lib/screens';
+import { playlistApi, playlistUtils, PlaylistItem } from '@/lib/playlists';
+import { clockUtils } from '@/lib/clock';
+import { calendarApi, ScheduleCalendar } from '@/lib/calendars';
+import { daypartUtils } from '@/lib/dayparts';
+import { CalendarRange, ExternalLink, AlertCircle, RefreshCw } from 'lucide-react';
+import AdminNav from '@/components/AdminNav';
+
+type TimelineView = 'day' | 'week';
+
+// Each slot is checked at its start time
+const SLOT_MINUTES: Record<TimelineView, number> = { day: 15, week: 60 };
+const SLOT_COUNT: Record<TimelineView, number> = { day: 96, week: 168 };
+
+const formatDateInput = (date: Date) => clockUtils.formatSimulatedTime(date).slice(0, 10);
+
+export default function TimelinePage() {
+  const [videos, setVideos] = useState<Video[]>([]);
+  const [screens, setScreens] = useState<Screen[]>([]);
+  const [assignments, setAssignments] = useState<VideoAssignment[]>([]);
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
+  const [playlistItems, setPlaylistItems] = useState<PlaylistItem[] | null>(null);
+  const [daypartItems, setDaypartItems] = useState<Record<string, PlaylistItem[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+  const [screenId, setScreenId] = useState('');
+  const [startDate, setStartDate] = useState(() => formatDateInput(new Date()));
+  const [view, setView] = useState<TimelineView>('day');
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  const [previewAt, setPreviewAt] = useState(() => clockUtils.formatSimulatedTime(new Date()));
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  const loadData = async () => {
+    setLoading(true);
+    setLoadError('');
+
+    try {
+      const [videoData, screenData, assignmentData, calendarData] = await Promise.all([
+        videoApi.getAllVideos(),
+        screenApi.getScreens(),
+        screenApi.getAssignments(),
+        calendarApi.getCalendars(),
+      ]);
+      setVideos(videoData);
+      setScreens(screenData);
+      setAssignments(assignmentData);
+      setCalendars(calendarData);
+    } catch (error) {
+      console.error('Error loading timeline:', error);
+      setLoadError(error instanceof Error ? error.message : 'Failed to load timeline');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const screen = screens.find(s => s.id === screenId) || null;
+
+  // Screens with a playlist play from it, exactly as the display does
+  useEffect(() => {
+    if (!screen?.playlist_id) {
+      setPlaylistItems(null);
+      return;
+    }
+
+    playlistApi.getItems(screen.playlist_id)
+      .then(setPlaylistItems)
+      .catch(error => {
+        console.error('Error loading playlist:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load playlist');
+      });
+  }, [screen?.playlist_id]);
+
+  // ...and switch to their daypart playlists during each slot
+  const daypartPlaylistKey = daypartUtils.getPlaylistIds(screen).join(',');
+  useEffect(() => {
+    const playlistIds = daypartPlaylistKey ? daypartPlaylistKey.split(',') : [];
+    Promise.all(playlistIds.map(id => playlistApi.getItems(id)))
+      .then(items => setDaypartItems(Object.fromEntries(playlistIds.map((id, index) => [id, items[index]]))))
+      .catch(error => {
+        console.error('Error loading daypart playlists:', error);
+        setLoadError(error instanceof Error ? error.message : 'Failed to load daypart playlists');
+      });
+  }, [daypartPlaylistKey]);
+
+  const slots = useMemo(() => {
+    const [year, month, day] = startDate.split('-').map(Number);
+    const start = new Date(year, month - 1, day);
+
+    return Array.from({ length: SLOT_COUNT[view] }, (_, index) => {
+      const at = new Date(start);
+      at.setMinutes(index * SLOT_MINUTES[view]);
+      const items = playlistUtils.selectPlaybackItems(videos, screen, assignments, playlistItems, calendars, at, daypartItems);
+      return { at, items, videoIds: new Set(items.map(item => item.video.id)) };
+    });
+  }, [startDate, view, videos, screen, assignments, playlistItems, calendars, daypartItems]);
+
+  // Only videos that play at some point in the range get a row
+  const rows = videos.filter(video => slots.some(slot => slot.videoIds.has(video.id)));
+  const emptySlots = slots.filter(slot => slot.items.length === 0).length;
+  const selected = selectedSlot !== null ? slots[selectedSlot] : null;
+
+  const previewUrl = screen
+    ? `/display?screen=${encodeURIComponent(screen.slug)}&at=${encodeURIComponent(previewAt)}`
+    : null;
+
+  const isLabelSlot = (index: number) =>
+    view === 'day' ? index % 8 === 0 : index % 24 === 0;
+
+  const formatLabel = (at: Date) =>
+    view === 'day'
+      ? at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      : at.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const selectSlot = (index: number) => {
+    setSelectedSlot(index);
+    setPreviewAt(clockUtils.formatSimulatedTime(slots[index].at));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Timeline</h1>
+          <p className="text-gray-600">See which videos each screen plays over a day or week, and preview the display at any time</p>
+        </div>
+
+        <AdminNav />
+
+        {loadError && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2" />
+              <p className="text-red-700 text-sm">{loadError}</p>
+            </div>
+            <button
+              onClick={loadData}
+              className="flex items-center space-x-1 px-3 py-1 bg-red-100 text-red-700 rounded hover:bg-red-200"
+            >
+              <RefreshCw className="h-4 w-4" />
+              <span>Retry</span>
+            </button>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow p-6 mb-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Screen</label>
+              <select
+                value={screenId}
+                onChange={(e) => {
+                  setScreenId(e.target.value);
+                  setSelectedSlot(null);
+                }}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="">No screen (unassigned videos only)</option>
+                {screens.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Starting</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => {
+                  if (!e.target.value) return;
+                  setStartDate(e.target.value);
+                  setSelectedSlot(null);
+                }}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">View</label>
+              <div className="flex space-x-2">
+                {(['day', 'week'] as TimelineView[]).map(option => (
+                  <button
+                    key={option}
+                    onClick={() => {
+                      setView(option);
+                      setSelectedSlot(null);
+                    }}
+                    className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium border ${
+                      view === option
+                        ? 'bg-blue-600 text-white border-blue-600'
+                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {option === 'day' ? 'Day' : 'Week'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          {screen?.dayparts?.length ? (
+            <p className="text-xs text-gray-500 mt-3">This screen switches playlists by daypart; each slot shows the playlist active then.</p>
+          ) : screen?.playlist_id && (
+            <p className="text-xs text-gray-500 mt-3">This screen plays a playlist; only its items are shown.</p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-hidden mb-6">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+              <CalendarRange className="h-5 w-5" />
+              <span>{rows.length} video{rows.length === 1 ? '' : 's'} scheduled</span>
+            </h2>
+            <span className={`text-sm ${emptySlots > 0 ? 'text-amber-600' : 'text-gray-500'}`}>
+              {emptySlots > 0
+                ? `${emptySlots} of ${slots.length} slots have nothing to play`
+                : `Checked every ${SLOT_MINUTES[view]} minutes`}
+            </span>
+          </div>
+
+          {loading ? (
+            <div className="p-8 text-center text-gray-500">Loading...</div>
+          ) : (
+            <div className="p-4 overflow-x-auto">
+              <div className="min-w-[48rem] space-y-1">
+                <div className="flex items-end">
+                  <div className="w-48 flex-shrink-0" />
+                  <div className="flex-1 flex">
+                    {slots.map((slot, index) => (
+                      <div key={index} className="flex-1 min-w-0 text-[10px] text-gray-500 whitespace-nowrap overflow-visible">
+                        {isLabelSlot(index) ? formatLabel(slot.at) : ''}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex items-center">
+                  <div className="w-48 flex-shrink-0 pr-2 text-xs font-medium text-gray-500">Coverage</div>
+                  <div className="flex-1 flex h-3">
+                    {slots.map((slot, index) => (
+                      <div
+                        key={index}
+                        className={`flex-1 ${slot.items.length === 0 ? 'bg-amber-400' : 'bg-green-400'} ${
+                          isLabelSlot(index) ? 'border-l border-white' : ''
+                        }`}
+                      />
+                    ))}
+                  </div>
+                </div>
+
+                {rows.map(video => (
+                  <div key={video.id} className="flex items-center">
+                    <div className="w-48 flex-shrink-0 pr-2 text-sm text-gray-900 truncate" title={video.title}>
+                      {video.title}
+                    </div>
+                    <div className="flex-1 flex h-6">
+                      {slots.map((slot, index) => (
+                        <button
+                          key={index}
+                          onClick={() => selectSlot(index)}
+                          title={`${slot.at.toLocaleString()}${slot.videoIds.has(video.id) ? ' - plays' : ''}`}
+                          className={`flex-1 min-w-0 ${
+                            slot.videoIds.has(video.id) ? 'bg-blue-500 hover:bg-blue-600' : 'bg-gray-100 hover:bg-gray-200'
+                          } ${isLabelSlot(index) ? 'border-l border-white' : ''} ${
+                            selectedSlot === index ? 'ring-2 ring-inset ring-gray-900' : ''
+                          }`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+
+                {rows.length === 0 && (
+                  <p className="p-6 text-center text-gray-500">Nothing is scheduled on this screen in this range.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">
+            {selected ? `Playing at ${selected.at.toLocaleString()}` : 'Click a slot to see what plays then'}
+          </h2>
+
+          {selected && (
+            selected.items.length === 0 ? (
+              <p className="text-sm text-amber-600 mb-4">Nothing is scheduled. The display will show &quot;No videos are currently scheduled&quot;.</p>
+            ) : (
+              <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1 mb-4">
+                {selected.items.map(item => (
+                  <li key={item.key}>{item.video.title}</li>
+                ))}
+              </ol>
+            )
+          )}
+
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Preview the display at</label>
+              <input
+                type="datetime-local"
+                value={previewAt}
+                onChange={(e) => setPreviewAt(e.target.value)}
+                className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            {previewUrl ? (
+              <a
+                href={previewUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center space-x-2 py-2 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                <ExternalLink className="w-4 h-4" />
+                <span>Open Preview</span>
+              </a>
+            ) : (
+              <p className="text-sm text-gray-500 pb-2">Choose a screen to open a display preview.</p>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            The preview runs the real display with its clock set to this time (including overrides and overlays). It does not record plays or heartbeats.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+// src/app/api/device/route.ts - Device lookups and changes that need the service role
+import { NextRequest, NextResponse } from 'next/server';
+import { DEVICE_TOKEN_HEADER } from '@/lib/supabase';
+import { getServerSupabase } from '@/lib/supabaseServer';
+import { DEVICE_COLUMNS, deviceUtils } from '@/lib/devices';
+
+// Statuses an admin may set; everything else about a device is set by pairing or heartbeats
+const STATUSES = ['pending', 'paired', 'revoked'];
+
+const failure = (message: string, status: number) => NextResponse.json({ error: message }, { status });
+
+const serverError = (label: string, fallback: string, error: unknown) => {
+  console.error(label, error);
+  return failure(error instanceof Error ? error.message : fallback, 500);
+};
+
+// Look up the device a display's token belongs to
+export async function GET(request: NextRequest) {
+  try {
+    const token = request.headers.get(DEVICE_TOKEN_HEADER);
+    if (!token) {
+      return failure('Missing device token', 401);
+    }
+
+    const { data: device, error } = await getServerSupabase()
+      .from('devices')
+      .select(DEVICE_COLUMNS)
+      .eq('device_token', token)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return NextResponse.json({ device }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error) {
+    return serverError('Device lookup error:', 'Failed to look up device', error);
+  }
+}
+
+// Claim a pairing code shown on a display and assign the device to a screen
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { code, screenId, name } = body && typeof body === 'object' ? body : {};
+    if (typeof code !== 'string' || typeof screenId !== 'string' || !screenId) {
+      return failure('A pairing code and a screen are required', 400);
+    }
+    if (name !== undefined && name !== null && typeof name !== 'string') {
+      return failure('Device name must be text', 400);
+    }
+
+    const pairingCode = deviceUtils.normalizePairingCode(code);
+    const supabase = getServerSupabase();
+
+    const { data: device, error: lookupError } = await supabase
+      .from('devices')
+      .select('id, pairing_expires_at')
+      .eq('pairing_code', pairingCode)
+      .eq('status', 'pending')
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+    if (!device) {
+      return failure(`No display is waiting with pairing code ${pairingCode}`, 404);
+    }
+    if (device.pairing_expires_at && new Date(device.pairing_expires_at) < new Date()) {
+      return failure(`Pairing code ${pairingCode} has expired. Reload the display to get a new one.`, 410);
+    }
+
+    // Only claim the row if it is still pending, so two admins can't claim the same code
+    const { data, error } = await supabase
+      .from('devices')
+      .update({
+        screen_id: screenId,
+        name: name || null,
+        status: 'paired',
+        pairing_code: null,
+        pairing_expires_at: null,
+        paired_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', device.id)
+      .eq('status', 'pending')
+      .select(DEVICE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return failure(`Pairing code ${pairingCode} was just claimed by someone else`, 409);
+    }
+
+    return NextResponse.json({ device: data });
+  } catch (error) {
+    return serverError('Device claim error:', 'Failed to claim device', error);
+  }
+}
+
+// Rename, reassign or revoke a device
+export async function PATCH(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { id, name, screen_id, status } = body && typeof body === 'object' ? body : {};
+    if (typeof id !== 'string' || !id) {
+      return failure('Missing device id', 400);
+    }
+
+    const updates: Record<string, string | null> = {};
+    if (name !== undefined) {
+      if (name !== null && typeof name !== 'string') return failure('Device name must be text', 400);
+      updates.name = name || null;
+    }
+    if (screen_id !== undefined) {
+      if (screen_id !== null && typeof screen_id !== 'string') return failure('Screen id must be text', 400);
+      updates.screen_id = screen_id || null;
+    }
+    if (status !== undefined) {
+      if (!STATUSES.includes(status)) return failure(`Unknown device status: ${status}`, 400);
+      updates.status = status;
+    }
+
+    const { data, error } = await getServerSupabase()
+      .from('devices')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select(DEVICE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return failure('Device not found', 404);
+    }
+
+    return NextResponse.json({ device: data });
+  } catch (error) {
+    return serverError('Device update error:', 'Failed to update device', error);
+  }
+}
+
+// Admins delete any device by id; a display may only withdraw its own unclaimed pairing request
+export async function DELETE(request: NextRequest) {
+  try {
+    const token = request.headers.get(DEVICE_TOKEN_HEADER);
+    const id = request.nextUrl.searchParams.get('id');
+    if (!token && !id) {
+      return failure('Missing device id', 400);
+    }
+
+    const query = getServerSupabase().from('devices').delete();
+    const { error } = token
+      ? await query.eq('device_token', token).eq('status', 'pending')
+      : await query.eq('id', id!);
+
+    if (error) throw error;
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return serverError('Device delete error:', 'Failed to delete device', error);
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 10;
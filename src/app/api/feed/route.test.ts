@@ -0,0 +1,131 @@
+// src/app/api/feed/route.test.ts - Feed proxy: refuses internal addresses, directly or through DNS and redirects
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { NextRequest } from 'next/server';
+import { GET } from './route';
+
+interface FakePage {
+  status: number;
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+// DNS answers and responses by URL; the fake request connects through the route's own lookup
+const { network, fakeClient } = vi.hoisted(() => {
+  const network = {
+    hosts: new Map<string, string[]>(),
+    pages: new Map<string, FakePage>(),
+    requested: [] as string[],
+  };
+
+  const fakeClient = async () => {
+    const { EventEmitter } = await import('node:events');
+    const { Readable } = await import('node:stream');
+
+    const get = (
+      url: URL,
+      options: { lookup: (hostname: string, options: object, callback: (error: Error | null) => void) => void },
+      onResponse: (response: unknown) => void
+    ) => {
+      const request = new EventEmitter();
+      setImmediate(() => {
+        options.lookup(url.hostname, {}, error => {
+          if (error) return request.emit('error', error);
+          network.requested.push(url.href);
+          const page = network.pages.get(url.href) ?? { status: 404 };
+          onResponse(Object.assign(Readable.from(page.body ? [Buffer.from(page.body)] : []), {
+            statusCode: page.status,
+            headers: page.headers || {},
+          }));
+        });
+      });
+      return request;
+    };
+    return { default: { get } };
+  };
+
+  return { network, fakeClient };
+});
+
+vi.mock('node:dns', () => ({
+  lookup: (hostname: string, _options: object, callback: (...args: unknown[]) => void) => {
+    const addresses = network.hosts.get(hostname);
+    if (!addresses) {
+      return callback(Object.assign(new Error(`getaddrinfo ENOTFOUND ${hostname}`), { code: 'ENOTFOUND' }));
+    }
+    callback(null, addresses.map(address => ({ address, family: address.includes(':') ? 6 : 4 })));
+  },
+}));
+
+vi.mock('node:http', fakeClient);
+vi.mock('node:https', fakeClient);
+
+const fetchFeed = (url: string) =>
+  GET(new NextRequest(`http://localhost/api/feed?url=${encodeURIComponent(url)}`));
+
+beforeEach(() => {
+  network.hosts.clear();
+  network.pages.clear();
+  network.requested.length = 0;
+
+  network.hosts.set('feeds.example.com', ['93.184.216.34']);
+  network.hosts.set('localhost', ['127.0.0.1', '::1']);
+  network.hosts.set('intranet.example.com', ['10.1.2.3']);
+  network.hosts.set('split.example.com', ['93.184.216.34', '192.168.1.10']);
+});
+
+describe('feed proxy', () => {
+  it('passes through a public feed', async () => {
+    network.pages.set('https://feeds.example.com/menu.json', {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      body: '{"soup":"tomato"}',
+    });
+
+    const response = await fetchFeed('https://feeds.example.com/menu.json');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.text()).toBe('{"soup":"tomato"}');
+  });
+
+  it.each([
+    ['private', 'http://10.0.0.1/'],
+    ['private', 'http://192.168.1.1/'],
+    ['loopback', 'http://127.0.0.1:3000/'],
+    ['loopback', 'http://[::1]/'],
+    ['link-local', 'http://169.254.169.254/latest/meta-data/'],
+    ['link-local', 'http://[fe80::1]/'],
+    ['unique local', 'http://[fd00::1]/'],
+    ['IPv4-mapped', 'http://[::ffff:127.0.0.1]/'],
+    ['IPv4-mapped', 'http://[::ffff:a9fe:a9fe]/'],
+  ])('refuses a literal %s address (%s)', async (_kind, url) => {
+    const response = await fetchFeed(url);
+    expect(response.status).toBe(400);
+    expect(network.requested).toEqual([]);
+  });
+
+  it.each([
+    ['localhost', 'http://localhost:3000/'],
+    ['a host on the private network', 'http://intranet.example.com/feed.csv'],
+    ['a host with any internal address', 'http://split.example.com/feed.csv'],
+  ])('refuses %s', async (_kind, url) => {
+    const response = await fetchFeed(url);
+    expect(response.status).toBe(400);
+    expect(network.requested).toEqual([]);
+  });
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data/',
+    'http://intranet.example.com/admin',
+    'http://[::ffff:10.0.0.1]/',
+  ])('refuses a redirect to an internal host (%s)', async location => {
+    network.pages.set('https://feeds.example.com/moved', { status: 302, headers: { location } });
+
+    const response = await fetchFeed('https://feeds.example.com/moved');
+    expect(response.status).toBe(400);
+    expect(network.requested).toEqual(['https://feeds.example.com/moved']);
+  });
+
+  it('refuses non-HTTP feed URLs', async () => {
+    expect((await fetchFeed('file:///etc/passwd')).status).toBe(400);
+  });
+});
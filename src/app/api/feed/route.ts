@@ -0,0 +1,167 @@
+// src/app/api/feed/route.ts - Fetches JSON/CSV data feeds for display widgets
+import { NextRequest, NextResponse } from 'next/server';
+import { lookup, LookupAddress } from 'node:dns';
+import { BlockList, isIP } from 'node:net';
+import http, { IncomingMessage } from 'node:http';
+import https from 'node:https';
+
+const MAX_FEED_SIZE = 1024 * 1024; // 1MB
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 3;
+
+// Addresses the proxy must never reach, so it cannot be used to probe the server's own network.
+// Separate lists, as BlockList also matches IPv4 addresses against IPv6 ranges.
+const blockedIpv4 = new BlockList();
+const blockedIpv6 = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+].forEach(([network, prefix]) => blockedIpv4.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 96],          // Unspecified, loopback and IPv4-compatible
+  ['::ffff:0:0', 96],  // IPv4-mapped, e.g. ::ffff:127.0.0.1
+  ['64:ff9b::', 96],   // NAT64
+  ['fc00::', 7],       // Unique local
+  ['fe80::', 10],      // Link-local
+  ['ff00::', 8],       // Multicast
+].forEach(([network, prefix]) => blockedIpv6.addSubnet(network as string, prefix as number, 'ipv6'));
+
+const isBlockedAddress = (address: string) => {
+  switch (isIP(address)) {
+    case 4: return blockedIpv4.check(address, 'ipv4');
+    case 6: return blockedIpv6.check(address, 'ipv6');
+    default: return true;
+  }
+};
+
+const BLOCKED_HOST = 'EBLOCKEDHOST';
+
+// Resolves the host and refuses it if any of its addresses is internal. The request then
+// connects to exactly the addresses checked here, so a second DNS answer cannot differ.
+const checkedLookup = ((hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(Object.assign(new Error(`Feed host ${hostname} resolves to an internal address`), { code: BLOCKED_HOST }));
+    }
+    const { all } = options as { all?: boolean };
+    if (all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof lookup;
+
+type FeedResult =
+  | { ok: true; text: string; contentType: string }
+  | { ok: false; error: string; status: number };
+
+const readBody = (response: IncomingMessage): Promise<string | null> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    response.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_FEED_SIZE) {
+        response.destroy();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    response.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    response.on('error', reject);
+  });
+
+const openFeed = (url: URL, signal: AbortSignal): Promise<IncomingMessage> =>
+  new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    client
+      .get(url, {
+        headers: { Accept: 'application/json, text/csv, text/plain' },
+        lookup: checkedLookup,
+        signal,
+      }, resolve)
+      .on('error', reject);
+  });
+
+// Fetches the feed one hop at a time, so every redirect target passes the same checks
+async function fetchFeed(source: URL): Promise<FeedResult> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let url = source;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      return { ok: false, error: 'Feed URL is not allowed', status: 400 };
+    }
+    // Literal addresses skip DNS, so they are checked here
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname) && isBlockedAddress(hostname)) {
+      return { ok: false, error: 'Feed URL is not allowed', status: 400 };
+    }
+
+    const response = await openFeed(url, signal);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      url = new URL(response.headers.location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      return { ok: false, error: `Feed returned ${status}`, status: 502 };
+    }
+
+    if (Number(response.headers['content-length']) > MAX_FEED_SIZE) {
+      response.destroy();
+      return { ok: false, error: 'Feed is larger than 1MB', status: 413 };
+    }
+
+    const text = await readBody(response);
+    if (text === null) {
+      return { ok: false, error: 'Feed is larger than 1MB', status: 413 };
+    }
+
+    return { ok: true, text, contentType: response.headers['content-type'] || 'text/plain' };
+  }
+
+  return { ok: false, error: 'Feed redirected too many times', status: 502 };
+}
+
+export async function GET(request: NextRequest) {
+  const source = request.nextUrl.searchParams.get('url');
+  if (!source) {
+    return NextResponse.json({ error: 'No feed URL provided' }, { status: 400 });
+  }
+
+  let url: URL;
+  try {
+    url = new URL(source);
+  } catch {
+    return NextResponse.json({ error: 'Invalid feed URL' }, { status: 400 });
+  }
+
+  try {
+    const result = await fetchFeed(url);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return new NextResponse(result.text, {
+      headers: {
+        'Content-Type': result.contentType,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === BLOCKED_HOST) {
+      return NextResponse.json({ error: 'Feed URL is not allowed' }, { status: 400 });
+    }
+    console.error('Feed fetch error:', error);
+    return NextResponse.json({ error: 'Unable to fetch feed' }, { status: 502 });
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 15;
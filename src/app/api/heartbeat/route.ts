@@ -0,0 +1,105 @@
+// src/app/api/heartbeat/route.ts - Receives periodic status reports from displays
+import { NextRequest, NextResponse } from 'next/server';
+import { DEVICE_TOKEN_HEADER } from '@/lib/supabase';
+import { getServerSupabase } from '@/lib/supabaseServer';
+import type { HeartbeatPayload } from '@/lib/fleet';
+import type { HeartbeatServiceWorkerStatus, CacheUsage } from '@/lib/devices';
+
+// Keep stored error messages short so a crash loop cannot bloat the devices table
+const MAX_ERROR_LENGTH = 500;
+const MAX_VERSION_LENGTH = 50; // varchar(50) column
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const text = (value: unknown, maxLength: number): string | null =>
+  typeof value === 'string' && value ? value.slice(0, maxLength) : null;
+
+const serviceWorkerStatus = (value: unknown): HeartbeatServiceWorkerStatus | null => {
+  if (!isObject(value)) return null;
+  return {
+    isSupported: value.isSupported === true,
+    isRegistered: value.isRegistered === true,
+    isUpdateAvailable: value.isUpdateAvailable === true,
+    ...(typeof value.isDevelopment === 'boolean' && { isDevelopment: value.isDevelopment }),
+  };
+};
+
+const cacheUsage = (value: unknown): CacheUsage | null => {
+  if (!isObject(value)) return null;
+  return {
+    ...(isFiniteNumber(value.usage) && { usage: value.usage }),
+    ...(isFiniteNumber(value.quota) && { quota: value.quota }),
+  };
+};
+
+// Displays run old builds for a long time, so fields of the wrong type are dropped rather than rejected
+const parseHeartbeat = (body: unknown): HeartbeatPayload | null => {
+  if (!isObject(body)) return null;
+  return {
+    current_video_id: typeof body.current_video_id === 'string' && UUID_PATTERN.test(body.current_video_id)
+      ? body.current_video_id
+      : null,
+    playback_position: isFiniteNumber(body.playback_position) && body.playback_position >= 0
+      ? Math.round(body.playback_position * 10) / 10
+      : null,
+    is_online: typeof body.is_online === 'boolean' ? body.is_online : true,
+    sw_status: serviceWorkerStatus(body.sw_status),
+    cache_usage: cacheUsage(body.cache_usage),
+    app_version: text(body.app_version, MAX_VERSION_LENGTH),
+    last_error: text(body.last_error, MAX_ERROR_LENGTH),
+  };
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.headers.get(DEVICE_TOKEN_HEADER);
+    if (!token) {
+      return NextResponse.json({ error: 'Missing device token' }, { status: 401 });
+    }
+
+    const supabase = getServerSupabase();
+    const { data: device, error: lookupError } = await supabase
+      .from('devices')
+      .select('id, status')
+      .eq('device_token', token)
+      .maybeSingle();
+
+    if (lookupError) throw lookupError;
+    if (!device) {
+      return NextResponse.json({ error: 'Unknown device' }, { status: 401 });
+    }
+    if (device.status !== 'paired') {
+      return NextResponse.json({ error: `Device is ${device.status}` }, { status: 403 });
+    }
+
+    const heartbeat = parseHeartbeat(await request.json().catch(() => null));
+    if (!heartbeat) {
+      return NextResponse.json({ error: 'Heartbeat must be a JSON object' }, { status: 400 });
+    }
+    const now = new Date().toISOString();
+
+    const { error: updateError } = await supabase
+      .from('devices')
+      .update({ ...heartbeat, last_seen_at: now })
+      .eq('id', device.id);
+
+    if (updateError) throw updateError;
+
+    return NextResponse.json({ ok: true, serverTime: now });
+  } catch (error) {
+    console.error('Heartbeat error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to record heartbeat' },
+      { status: 500 }
+    );
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 10;
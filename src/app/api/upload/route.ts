@@ -12,6 +12,17 @@ const ALLOWED_VIDEO_TYPES = [
   'video/quicktime',
   'video/x-msvideo'
 ];
+// Still images and HTML pages are shown as timed slides
+const ALLOWED_IMAGE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/svg+xml'
+];
+const ALLOWED_HTML_TYPES = ['text/html'];
+// Data files for feed widgets
+const ALLOWED_DATA_TYPES = ['application/json', 'text/csv'];
+const ALLOWED_TYPES = [...ALLOWED_VIDEO_TYPES, ...ALLOWED_IMAGE_TYPES, ...ALLOWED_HTML_TYPES, ...ALLOWED_DATA_TYPES];
 
 export async function POST(request: Request): Promise<NextResponse> {
   console.log('Upload API called');
@@ -41,8 +52,8 @@ export async function POST(request: Request): Promise<NextResponse> {
               throw new Error(error);
             }
             
-            if (!ALLOWED_VIDEO_TYPES.includes(payload.fileType)) {
-              const error = `Invalid file type. Allowed types: ${ALLOWED_VIDEO_TYPES.join(', ')}`;
+            if (!ALLOWED_TYPES.includes(payload.fileType)) {
+              const error = `Invalid file type. Allowed types: ${ALLOWED_TYPES.join(', ')}`;
               console.error(error);
               throw new Error(error);
             }
@@ -53,7 +64,7 @@ export async function POST(request: Request): Promise<NextResponse> {
         }
 
         const tokenConfig = {
-          allowedContentTypes: ALLOWED_VIDEO_TYPES,
+          allowedContentTypes: ALLOWED_TYPES,
           maximumSizeInBytes: MAX_FILE_SIZE,
           addRandomSuffix: true,
           tokenPayload: JSON.stringify({
@@ -1,14 +1,15 @@
 // src/app/api/widget-data/route.ts - API endpoint for widget data
 import { NextResponse } from 'next/server';
 import { videoApi, scheduleUtils } from '@/lib/supabase';
+import { calendarApi } from '@/lib/calendars';
 
 export async function GET() {
   try {
     // Get current video status for widget
-    const videos = await videoApi.getAllVideos();
+    const [videos, calendars] = await Promise.all([videoApi.getAllVideos(), calendarApi.getCalendars()]);
     const activeVideos = videos.filter(v => v.is_active);
     const scheduledVideos = activeVideos.filter(video => 
-      scheduleUtils.isVideoScheduledNow(video)
+      scheduleUtils.isVideoScheduledNow(video, calendars)
     );
     
     const currentVideo = scheduledVideos.length > 0 ? scheduledVideos[0] : null;
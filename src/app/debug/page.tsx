@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { supabase, videoApi, Video, scheduleUtils } from '@/lib/supabase';
+import { calendarApi, ScheduleCalendar } from '@/lib/calendars';
 
 interface VideoWithFileStatus extends Video {
   fileExists: boolean;
@@ -11,6 +12,7 @@ export default function DebugPage() {
   const [allVideos, setAllVideos] = useState<Video[]>([]);
   const [activeVideos, setActiveVideos] = useState<Video[]>([]);
   const [scheduledVideos, setScheduledVideos] = useState<Video[]>([]);
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [connectionTest, setConnectionTest] = useState<string>('Testing...');
   const [uploadTest, setUploadTest] = useState<string>('');
@@ -98,7 +100,9 @@ export default function DebugPage() {
       }
 
       try {
-        const scheduledData = await videoApi.getScheduledVideos();
+        const calendarData = await calendarApi.getCalendars();
+        setCalendars(calendarData);
+        const scheduledData = await videoApi.getScheduledVideos(calendarData);
         setScheduledVideos(scheduledData);
       } catch (scheduleError) {
         console.error('Error loading scheduled videos:', scheduleError);
@@ -297,7 +301,7 @@ export default function DebugPage() {
                   <div className="flex-1">
                     <p className="font-medium text-gray-900">{video.title}</p>
                     <p className="text-sm text-gray-600">
-                      Schedule: {scheduleUtils.formatScheduleDescription(video)}
+                      Schedule: {scheduleUtils.formatScheduleDescription(video, calendars)}
                       {video.schedule_timezone !== 'UTC' && (
                         <span className="text-gray-500"> • {video.schedule_timezone}</span>
                       )}
@@ -327,7 +331,7 @@ export default function DebugPage() {
             <div className="space-y-4">
               {allVideos.map((video) => {
                 const fileCheck = videoFileStatus.find(v => v.id === video.id);
-                const isCurrentlyScheduled = scheduleUtils.isVideoScheduledNow(video);
+                const isCurrentlyScheduled = scheduleUtils.isVideoScheduledNow(video, calendars);
                 
                 return (
                   <div key={video.id} className={`border rounded-lg p-4 ${isCurrentlyScheduled ? 'border-green-300 bg-green-50' : 'border-gray-200'}`}>
@@ -356,7 +360,7 @@ export default function DebugPage() {
                             )}
                           </div>
                           <div>
-                            <p><span className="font-medium text-gray-700">Schedule:</span> <span className="text-gray-800">{scheduleUtils.formatScheduleDescription(video)}</span></p>
+                            <p><span className="font-medium text-gray-700">Schedule:</span> <span className="text-gray-800">{scheduleUtils.formatScheduleDescription(video, calendars)}</span></p>
                             <p><span className="font-medium text-gray-700">Timezone:</span> <span className="text-gray-800">{video.schedule_timezone}</span></p>
                             <p><span className="font-medium text-gray-700">Created:</span> <span className="text-gray-800">{new Date(video.created_at).toLocaleDateString()}</span></p>
                             {video.duration && (
@@ -0,0 +1,46 @@
+// src/app/display/offline.ts - Service worker access and media caching for the display
+import { mediaUtils } from '@/lib/supabase';
+import type { PlaybackItem } from '@/lib/playlists';
+import type { ServiceWorkerManager } from '@/lib/serviceWorker';
+
+// Safely import service worker manager
+let serviceWorkerManager: ServiceWorkerManager | null = null;
+
+if (typeof window !== 'undefined') {
+  import('@/lib/serviceWorker').then(module => {
+    serviceWorkerManager = module.serviceWorkerManager;
+  }).catch(error => {
+    console.warn('Service worker not available:', error);
+  });
+}
+
+// Null until the service worker module has loaded, or where it is not supported
+export const getServiceWorkerManager = (): ServiceWorkerManager | null => serviceWorkerManager;
+
+// Cache media so it keeps playing offline; web pages load live and are not cached
+export async function preloadMedia(items: PlaybackItem[]) {
+  if (items.length === 0 || !serviceWorkerManager) return;
+
+  // The same video can appear several times in a playlist
+  const videos = Array.from(new Map(items.map(item => [item.video.id, item.video])).values())
+    .filter(video => mediaUtils.getMediaType(video) !== 'html');
+
+  try {
+    console.log('Preloading videos for offline viewing...');
+
+    let preloadedCount = 0;
+    for (const video of videos) {
+      try {
+        const success = await serviceWorkerManager.preloadVideo(video.file_url);
+        if (success) preloadedCount++;
+      } catch (error) {
+        console.warn('Failed to preload video:', video.title, error);
+      }
+    }
+
+    console.log(`Video preloading completed: ${preloadedCount}/${videos.length} videos cached`);
+  } catch (error) {
+    console.error('Error preloading videos:', error);
+    // Don't break the app if preloading fails
+  }
+}
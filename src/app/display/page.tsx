@@ -2,43 +2,172 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { videoApi, Video, scheduleUtils } from '@/lib/supabase';
+import { videoApi } from '@/lib/supabase';
+import {
+  screenApi, screenUtils, Screen, VideoAssignment, ScreenDisplaySettings, DEFAULT_DISPLAY_SETTINGS
+} from '@/lib/screens';
+import {
+  playlistApi, playlistUtils, PlaybackItem, PlaybackSnapshot, PlaylistItem, SCHEDULE_CHECK_INTERVAL_MS
+} from '@/lib/playlists';
+import { deviceApi, deviceUtils, Device } from '@/lib/devices';
+import { overrideApi, overrideUtils, Override } from '@/lib/overrides';
+import { layoutApi, layoutUtils, Layout } from '@/lib/layouts';
+import { overlayApi, overlayUtils, OverlayWidget, TickerMessage } from '@/lib/overlays';
+import { clockUtils } from '@/lib/clock';
+import { calendarApi } from '@/lib/calendars';
+import { daypartUtils } from '@/lib/dayparts';
+import { rotationUtils } from '@/lib/rotation';
+import PairingScreen from '@/components/PairingScreen';
+import OverrideDisplay from '@/components/OverrideDisplay';
+import GaplessPlayer from '@/components/GaplessPlayer';
+import ScreenStage from '@/components/ScreenStage';
+import ZonePlaylistPlayer from '@/components/ZonePlaylistPlayer';
+import ZoneWidget from '@/components/ZoneWidget';
+import OverlayWidgets from '@/components/OverlayWidgets';
+import KioskMenu from '@/components/KioskMenu';
 import { Wifi, WifiOff, Loader, AlertCircle } from 'lucide-react';
-
-// Import types from serviceWorker
-import type { ServiceWorkerStatus, ServiceWorkerManager } from '@/lib/serviceWorker';
-
-// Safely import service worker manager
-let serviceWorkerManager: ServiceWorkerManager | null = null;
+import type { ServiceWorkerStatus } from '@/lib/serviceWorker';
+import { getServiceWorkerManager, preloadMedia } from './offline';
+import { usePlaybackLoop, usePlaybackHold, PlaybackHolds } from './usePlaybackLoop';
+import { useVideoWall, useWallTimeline } from './useVideoWall';
+import { useKiosk } from './useKiosk';
+import { useRemoteCommands } from './useRemoteCommands';
+import { useHeartbeat } from './useHeartbeat';
 
 interface DebugInfo {
   totalVideos: number;
   activeVideos: number;
   scheduledVideos: number;
+  playlistItems: number | null;
   currentTime: string;
   timezone: string;
+  screen: string | null;
+  device: string | null;
   serviceWorkerStatus: ServiceWorkerStatus | null;
 }
 
-if (typeof window !== 'undefined') {
-  import('@/lib/serviceWorker').then(module => {
-    serviceWorkerManager = module.serviceWorkerManager;
-  }).catch(error => {
-    console.warn('Service worker not available:', error);
-  });
+// A playback queue; reason explains why it is the fallback (or why it is empty)
+interface PlaybackQueue {
+  items: PlaybackItem[];
+  reason: string | null;
 }
 
+const NOTHING_SCHEDULED = 'No videos are currently scheduled to play. Check the video schedules in the admin panel.';
+
+// The scheduled items as a fair rotation, without videos that reached today's maximum. Screens
+// in a video wall count plays on their own, so they skip that filter and build the same list.
+const buildRotation = (scheduled: PlaybackItem[], screen: Screen | null, synchronized: boolean) =>
+  rotationUtils.buildRotation(
+    synchronized ? scheduled : rotationUtils.withoutExhausted(scheduled, rotationUtils.getPlaysToday(screen?.timezone))
+  );
+
 export default function DisplayPage() {
-  const [videos, setVideos] = useState<Video[]>([]);
+  const [items, setItems] = useState<PlaybackItem[]>([]);
   const [currentVideoIndex, setCurrentVideoIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isOnline, setIsOnline] = useState(true);
-  const [videoError, setVideoError] = useState(false);
-  const [videoLoadError, setVideoLoadError] = useState<string | null>(null);
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
   const [swStatus, setSwStatus] = useState<ServiceWorkerStatus | null>(null);
+  const [screen, setScreen] = useState<Screen | null>(null);
+  const [screenResolved, setScreenResolved] = useState(false);
+  const [device, setDevice] = useState<Device | null>(null);
+  const [needsPairing, setNeedsPairing] = useState(false);
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [overrideNow, setOverrideNow] = useState(() => clockUtils.now());
+  const [displaySettings, setDisplaySettings] = useState<ScreenDisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const [layout, setLayout] = useState<Layout | null>(null);
+  const [overlayWidgets, setOverlayWidgets] = useState<OverlayWidget[]>([]);
+  const [tickerMessages, setTickerMessages] = useState<TickerMessage[]>([]);
+  const [simulatedAt, setSimulatedAt] = useState<Date | null>(null);
+  // ?diagnostic=1 shows errors and debug details; otherwise the public never sees them
+  const [diagnostic, setDiagnostic] = useState(process.env.NODE_ENV === 'development');
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [databaseUnreachable, setDatabaseUnreachable] = useState(false);
+  // What the schedule is re-checked against between loads
+  const [scheduleInputs, setScheduleInputs] = useState<{ snapshot: PlaybackSnapshot; fallbackItems: PlaybackItem[] } | null>(null);
+  const [scheduleChecks, setScheduleChecks] = useState(0);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const assignmentsRef = useRef<VideoAssignment[]>([]);
+  const currentVideoIdsRef = useRef<string[]>([]);
+  const itemsRef = useRef<PlaybackItem[]>([]);
+  const pendingQueueRef = useRef<PlaybackQueue | null>(null);
+  const checkScheduleRef = useRef<() => void>(() => {});
+  const loopsPlayedRef = useRef(0);
+  const lastErrorRef = useRef<string | null>(null);
+  const holdsRef = useRef<PlaybackHolds>({ paused: false, override: false, kiosk: false });
+
+  // The screen's group is a video wall: play on the shared timeline instead of clip by clip
+  const { syncPlayback, syncPlaybackRef, clockOffsetRef } = useVideoWall(screen);
+
+  // ?at=2026-12-24T18:00 previews what this screen would play at that time.
+  // Declared first so the clock is set before anything loads.
+  useEffect(() => {
+    const at = clockUtils.parseSimulatedTime(new URLSearchParams(window.location.search).get('at'));
+    if (!at) return;
+
+    console.log('Simulating display clock at', at.toString());
+    clockUtils.simulate(at);
+    setSimulatedAt(at);
+    setOverrideNow(clockUtils.now());
+  }, []);
+
+  useEffect(() => {
+    if (new URLSearchParams(window.location.search).get('diagnostic') === '1') {
+      setDiagnostic(true);
+    }
+  }, []);
+
+  // Nothing is scheduled: play the screen's fallback content. The reason is only
+  // shown in diagnostic mode, or as the error page when there is no fallback.
+  const showFallback = useCallback((reason: string, fallbackItems: PlaybackItem[]) => {
+    if (fallbackItems.length === 0) {
+      setItems([]);
+      setError(reason);
+      setLoading(false);
+      return;
+    }
+
+    console.log('Playing fallback content:', reason);
+    currentVideoIdsRef.current = fallbackItems.map(item => item.video.id);
+    setFallbackReason(`${reason} Playing the fallback content.`);
+    setError(null);
+    setItems(fallbackItems);
+    setCurrentVideoIndex(0);
+    loopsPlayedRef.current = 0;
+    setLoading(false);
+  }, []);
+
+  // The database is unreachable: rebuild the loop from the last snapshot, or play the cached fallback
+  const playFromCache = useCallback((reason: string, screenSlug: string | null) => {
+    setDatabaseUnreachable(true);
+
+    const snapshot = playlistUtils.getCachedSnapshot(screenSlug);
+    const cachedFallback = playlistUtils.getCachedFallback();
+    pendingQueueRef.current = null;
+    setScheduleInputs(snapshot ? { snapshot, fallbackItems: cachedFallback } : null);
+
+    const cachedItems = snapshot
+      ? buildRotation(playlistUtils.selectPlaybackItems(
+          snapshot.videos, snapshot.screen, snapshot.assignments, snapshot.playlistItems,
+          snapshot.calendars || [], undefined, snapshot.daypartItems
+        ), snapshot.screen, syncPlaybackRef.current)
+      : [];
+
+    if (cachedItems.length === 0) {
+      showFallback(reason, cachedFallback);
+      return;
+    }
+
+    console.log('Playing the cached schedule:', reason);
+    currentVideoIdsRef.current = cachedItems.map(item => item.video.id);
+    setFallbackReason(`${reason} Playing the last loaded schedule.`);
+    setError(null);
+    setItems(cachedItems);
+    setCurrentVideoIndex(0);
+    loopsPlayedRef.current = 0;
+    setLoading(false);
+  }, [showFallback, syncPlaybackRef]);
 
   // Set body class for fullscreen styling
   useEffect(() => {
@@ -51,6 +180,7 @@ export default function DisplayPage() {
   // Initialize service worker monitoring
   useEffect(() => {
     const initServiceWorker = async () => {
+      const serviceWorkerManager = getServiceWorkerManager();
       if (serviceWorkerManager) {
         const unsubscribe = serviceWorkerManager.onStatusChange((status: ServiceWorkerStatus) => {
           setSwStatus(status);
@@ -64,102 +194,360 @@ export default function DisplayPage() {
     initServiceWorker();
   }, []);
 
+  // Resolve which screen this display is: ?screen=<slug>, the paired device token or the persisted slug
+  const resolveScreen = useCallback(async () => {
+    const params = new URLSearchParams(window.location.search);
+    const requestedSlug = params.get('screen');
+    const fallbackSlug = requestedSlug || screenUtils.getStoredScreenSlug();
+
+    try {
+      const token = requestedSlug ? null : deviceUtils.getStoredToken();
+      if (token) {
+        const pairedDevice = await deviceApi.getDeviceByToken(token);
+        const pairedScreen = pairedDevice?.status === 'paired' && pairedDevice.screen_id
+          ? await screenApi.getScreenById(pairedDevice.screen_id)
+          : null;
+
+        if (pairedDevice && pairedScreen) {
+          console.log('Display resolved to screen via device token:', pairedScreen);
+          setDevice(pairedDevice);
+          setScreen(pairedScreen);
+          setNeedsPairing(false);
+          setScreenResolved(true);
+          return;
+        }
+
+        // The device was revoked, deleted or lost its screen - pair it again
+        console.warn('Device token is no longer valid, pairing again');
+        deviceUtils.clearToken();
+        setDevice(null);
+      }
+
+      const slug = requestedSlug || screenUtils.getStoredScreenSlug();
+      if (!slug) {
+        console.log('No device identity, showing pairing code');
+        setScreen(null);
+        setScreenResolved(false);
+        setNeedsPairing(true);
+        setLoading(false);
+        return;
+      }
+
+      const resolved = await screenApi.getScreenBySlug(slug);
+      if (!resolved) {
+        setError(`Screen "${slug}" was not found. Check the screen list in the admin panel.`);
+        setLoading(false);
+        return;
+      }
+
+      console.log('Display resolved to screen:', resolved);
+      // A preview shouldn't change which screen this browser normally shows
+      if (!clockUtils.isSimulated()) screenUtils.storeScreenSlug(resolved.slug);
+      setScreen(resolved);
+      setScreenResolved(true);
+    } catch (err) {
+      console.error('Error resolving screen:', err);
+      lastErrorRef.current = `Screen resolution failed: ${err instanceof Error ? err.message : String(err)}`;
+      playFromCache('Failed to load screen settings. Check your internet connection.', fallbackSlug);
+    }
+  }, [playFromCache]);
+
+  useEffect(() => {
+    resolveScreen();
+  }, [resolveScreen]);
+
+  const handlePaired = useCallback(() => {
+    setNeedsPairing(false);
+    setLoading(true);
+    resolveScreen();
+  }, [resolveScreen]);
+
+  // Follow reassignment or revocation of this device from the admin panel
+  useEffect(() => {
+    if (!device) return;
+
+    const subscription = deviceApi.subscribeToDevice(device.id, (payload) => {
+      const updated = payload.new as Partial<Device> | undefined;
+      // Heartbeats also update the device row - only react to pairing changes
+      if (updated && updated.status === device.status && updated.screen_id === device.screen_id) {
+        return;
+      }
+      console.log('Device update received');
+      resolveScreen();
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [device, resolveScreen]);
+
   const loadVideos = useCallback(async () => {
+    if (!screenResolved) return;
+
     try {
       setError(null);
       console.log('Loading active videos...');
       
-      // Get all videos first for debugging
-      const allVideos = await videoApi.getAllVideos();
+      // Get all videos first for debugging. Without calendars schedules can't be checked, so a
+      // failed load falls back to the cached snapshot and its calendars like any other.
+      const [allVideos, calendars] = await Promise.all([videoApi.getAllVideos(), calendarApi.getCalendars()]);
       console.log('All videos from database:', allVideos);
+
+      let assignments: VideoAssignment[] = [];
+      try {
+        assignments = await screenApi.getAssignments();
+      } catch (assignmentError) {
+        // Without assignments every video is treated as global
+        console.warn('Unable to load video assignments:', assignmentError);
+      }
+      assignmentsRef.current = assignments;
       
-      // Filter for currently scheduled videos
-      const scheduledVideos = allVideos.filter(video => 
-        video.is_active && scheduleUtils.isVideoScheduledNow(video)
+      const playlistItems: PlaylistItem[] | null = screen?.playlist_id
+        ? await playlistApi.getItems(screen.playlist_id)
+        : null;
+
+      // Every playlist the screen's dayparts can switch to, so slot changes need no reload
+      const daypartPlaylistIds = daypartUtils.getPlaylistIds(screen);
+      const daypartPlaylists = await Promise.all(daypartPlaylistIds.map(id => playlistApi.getItems(id)));
+      const daypartItems = Object.fromEntries(daypartPlaylistIds.map((id, index) => [id, daypartPlaylists[index]]));
+      const activeItems = playlistUtils.getActivePlaylistItems(screen, playlistItems, daypartItems);
+
+      const playbackItems = buildRotation(
+        playlistUtils.selectPlaybackItems(allVideos, screen, assignments, playlistItems, calendars, undefined, daypartItems),
+        screen,
+        syncPlaybackRef.current
       );
+
+      const fallbackPlaylistItems: PlaylistItem[] | null = screen?.fallback_playlist_id
+        ? await playlistApi.getItems(screen.fallback_playlist_id)
+        : null;
+      const fallbackItems = playlistUtils.selectFallbackItems(allVideos, screen, fallbackPlaylistItems);
+
+      const snapshot: PlaybackSnapshot = { screen, videos: allVideos, assignments, playlistItems, daypartItems, calendars };
+      pendingQueueRef.current = null;
+      setScheduleInputs({ snapshot, fallbackItems });
+
+      // Cache everything needed to keep playing if the database goes away
+      if (!clockUtils.isSimulated()) {
+        playlistUtils.storeSnapshot(snapshot);
+        playlistUtils.storeFallback(fallbackItems);
+        setTimeout(() => preloadMedia(fallbackItems), 2000);
+      }
+      setDatabaseUnreachable(false);
       
-      console.log('Scheduled videos:', scheduledVideos);
+      console.log('Playback items:', playbackItems);
       
       setDebugInfo({
         totalVideos: allVideos.length,
         activeVideos: allVideos.filter(v => v.is_active).length,
-        scheduledVideos: scheduledVideos.length,
-        currentTime: new Date().toISOString(),
+        scheduledVideos: playbackItems.length,
+        playlistItems: activeItems ? activeItems.length : null,
+        currentTime: clockUtils.now().toISOString(),
         timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        screen: screen ? `${screen.name} (${screen.slug})` : null,
+        device: device ? device.name || device.id : null,
         serviceWorkerStatus: swStatus
       });
+
+      currentVideoIdsRef.current = playbackItems.map(item => item.video.id);
       
-      if (scheduledVideos.length === 0) {
-        if (allVideos.length === 0) {
-          setError('No videos found. Please upload some videos in the admin panel.');
+      if (playbackItems.length === 0) {
+        if (activeItems && activeItems.length === 0) {
+          showFallback('The playlist assigned to this screen is empty. Add videos to it in the admin panel.', fallbackItems);
+        } else if (allVideos.length === 0) {
+          showFallback('No videos found. Please upload some videos in the admin panel.', fallbackItems);
         } else if (allVideos.filter(v => v.is_active).length === 0) {
-          setError('No active videos found. Please activate some videos in the admin panel.');
+          showFallback('No active videos found. Please activate some videos in the admin panel.', fallbackItems);
         } else {
-          setError('No videos are currently scheduled to play. Check the video schedules in the admin panel.');
+          showFallback(NOTHING_SCHEDULED, fallbackItems);
         }
-        setLoading(false);
         return;
       }
       
-      // Sort by sequence order
-      scheduledVideos.sort((a, b) => a.sequence_order - b.sequence_order);
-      
-      setVideos(scheduledVideos);
+      setFallbackReason(null);
+      setItems(playbackItems);
       setCurrentVideoIndex(0);
+      loopsPlayedRef.current = 0;
       setLoading(false);
     } catch (err) {
       console.error('Error loading videos:', err);
-      setError('Failed to load videos. Check your internet connection.');
-      setLoading(false);
+      lastErrorRef.current = `Loading videos failed: ${err instanceof Error ? err.message : String(err)}`;
+      playFromCache('Failed to load videos. Check your internet connection.', screen?.slug ?? null);
     }
-  }, [swStatus]);
+  }, [swStatus, screen, device, screenResolved, showFallback, playFromCache, syncPlaybackRef]);
 
   // Load videos on mount
   useEffect(() => {
+    if (!screenResolved) return;
+
     loadVideos();
     
-    // Set up real-time subscription
-    const subscription = videoApi.subscribeToVideos(() => {
+    // Set up real-time subscriptions, only reloading when the change affects this screen
+    const subscription = videoApi.subscribeToVideos((payload) => {
+      if (!screenUtils.isVideoChangeRelevant(payload, screen, currentVideoIdsRef.current, assignmentsRef.current)) {
+        console.log('Video update ignored (not assigned to this screen)');
+        return;
+      }
       console.log('Video update received');
       loadVideos(); // Reload videos when changes occur
     });
 
+    const assignmentSubscription = screenApi.subscribeToAssignments((payload) => {
+      if (!screenUtils.isAssignmentChangeRelevant(payload, screen, currentVideoIdsRef.current)) {
+        return;
+      }
+      console.log('Assignment update received');
+      loadVideos();
+    });
+
+    const screenSubscription = screen
+      ? screenApi.subscribeToScreen(screen.id, () => {
+          console.log('Screen settings update received');
+          resolveScreen();
+        })
+      : null;
+
+    const calendarSubscription = calendarApi.subscribeToCalendars(() => {
+      console.log('Calendar update received');
+      loadVideos();
+    });
+
+    const playlistIds = new Set([
+      screen?.playlist_id, screen?.fallback_playlist_id, ...daypartUtils.getPlaylistIds(screen),
+    ].filter(Boolean) as string[]);
+    const playlistSubscriptions = Array.from(playlistIds).map(playlistId =>
+      playlistApi.subscribeToPlaylist(playlistId, () => {
+        console.log('Playlist update received');
+        loadVideos();
+      })
+    );
+
     return () => {
       subscription.unsubscribe();
+      assignmentSubscription.unsubscribe();
+      calendarSubscription.unsubscribe();
+      screenSubscription?.unsubscribe();
+      playlistSubscriptions.forEach(playlistSubscription => playlistSubscription.unsubscribe());
     };
-  }, [loadVideos]);
+  }, [loadVideos, resolveScreen, screen, screenResolved]);
 
-  // Preload videos for offline viewing when videos are loaded
   useEffect(() => {
-    const preloadVideos = async () => {
-      if (videos.length === 0 || !serviceWorkerManager) return;
-      
-      try {
-        console.log('Preloading videos for offline viewing...');
-        
-        let preloadedCount = 0;
-        for (const video of videos) {
-          try {
-            const success = await serviceWorkerManager.preloadVideo(video.file_url);
-            if (success) preloadedCount++;
-          } catch (error) {
-            console.warn('Failed to preload video:', video.title, error);
-          }
-        }
-        
-        console.log(`Video preloading completed: ${preloadedCount}/${videos.length} videos cached`);
-      } catch (error) {
-        console.error('Error preloading videos:', error);
-        // Don't break the app if preloading fails
+    itemsRef.current = items;
+  }, [items]);
+
+  // Switch to a re-evaluated queue, continuing after the current item if it is still in it
+  const applyQueue = useCallback((queue: PlaybackQueue, currentKey?: string) => {
+    loopsPlayedRef.current = 0;
+    currentVideoIdsRef.current = queue.items.map(item => item.video.id);
+
+    if (queue.items.length === 0) {
+      setItems([]);
+      setFallbackReason(null);
+      setError(queue.reason);
+      return;
+    }
+
+    const index = queue.items.findIndex(item => item.key === currentKey);
+    setError(null);
+    setFallbackReason(queue.reason && `${queue.reason} Playing the fallback content.`);
+    setItems(queue.items);
+    setCurrentVideoIndex(index === -1 ? 0 : (index + 1) % queue.items.length);
+  }, []);
+
+  // Called between clips: a schedule change never cuts the clip that is playing
+  const takePendingQueue = useCallback((currentKey?: string): boolean => {
+    const pending = pendingQueueRef.current;
+    if (!pending) return false;
+
+    pendingQueueRef.current = null;
+    console.log('Schedule changed, switching to the new queue');
+    applyQueue(pending, currentKey);
+    return true;
+  }, [applyQueue]);
+
+  // Re-run the schedules against the loaded data, without going back to the database
+  const checkSchedule = useCallback(() => {
+    if (!scheduleInputs) return;
+
+    const { snapshot, fallbackItems } = scheduleInputs;
+    const scheduled = buildRotation(playlistUtils.selectPlaybackItems(
+      snapshot.videos, snapshot.screen, snapshot.assignments, snapshot.playlistItems,
+      snapshot.calendars || [], undefined, snapshot.daypartItems
+    ), snapshot.screen, syncPlaybackRef.current);
+    const queue: PlaybackQueue = scheduled.length > 0
+      ? { items: scheduled, reason: null }
+      : { items: fallbackItems, reason: NOTHING_SCHEDULED };
+
+    const keys = (list: PlaybackItem[]) => list.map(item => item.key).join(',');
+    if (keys(queue.items) === keys(itemsRef.current)) {
+      pendingQueueRef.current = null;
+      return;
+    }
+
+    // Nothing is playing, so there is no clip to wait for
+    if (itemsRef.current.length === 0) {
+      applyQueue(queue);
+    } else {
+      pendingQueueRef.current = queue;
+    }
+  }, [scheduleInputs, applyQueue, syncPlaybackRef]);
+
+  useEffect(() => {
+    checkScheduleRef.current = checkSchedule;
+  }, [checkSchedule]);
+
+  // Re-check exactly when the next schedule window opens or closes, and every few minutes as a safety net
+  useEffect(() => {
+    if (!scheduleInputs) return;
+
+    const now = clockUtils.now();
+    const nextChange = playlistUtils.getNextScheduleChange(scheduleInputs.snapshot, now);
+    // A second past the boundary, so the window has definitely opened or closed
+    const delay = nextChange
+      ? Math.min(nextChange.getTime() - now.getTime() + 1000, SCHEDULE_CHECK_INTERVAL_MS)
+      : SCHEDULE_CHECK_INTERVAL_MS;
+
+    const timeout = setTimeout(() => {
+      checkSchedule();
+      setScheduleChecks(count => count + 1);
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [scheduleInputs, scheduleChecks, checkSchedule]);
+
+  // Keep retrying while the database is unreachable; the cached content plays meanwhile
+  useEffect(() => {
+    if (!databaseUnreachable) return;
+
+    const retry = () => {
+      if (screenResolved) {
+        loadVideos();
+      } else {
+        resolveScreen();
       }
     };
 
+    const interval = setInterval(retry, 60000);
+    window.addEventListener('online', retry);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', retry);
+    };
+  }, [databaseUnreachable, screenResolved, loadVideos, resolveScreen]);
+
+  // Joining or leaving a wall changes whether daily maximums apply, so the queue is rebuilt
+  useEffect(() => {
+    checkScheduleRef.current();
+  }, [syncPlayback]);
+
+  // Preload videos for offline viewing when videos are loaded
+  useEffect(() => {
     // Only preload if we have videos and service worker is available
-    if (videos.length > 0) {
+    if (items.length > 0) {
       // Delay preloading to let the page load first
-      setTimeout(preloadVideos, 2000);
+      setTimeout(() => preloadMedia(items), 2000);
     }
-  }, [videos]);
+  }, [items]);
 
   // Monitor online/offline status
   useEffect(() => {
@@ -175,193 +563,329 @@ export default function DisplayPage() {
     };
   }, []);
 
-  // Auto-play next video when current one ends
+  const {
+    videoError, videoLoadError, finishPlay, showItem, switchToPendingQueue, retryVideo, skipToNext, jumpToVideo,
+  } = usePlaybackLoop({
+    items,
+    currentVideoIndex,
+    setCurrentVideoIndex,
+    videoRef,
+    holdsRef,
+    loopsPlayedRef,
+    lastErrorRef,
+    checkScheduleRef,
+    syncPlayback,
+    syncPlaybackRef,
+    takePendingQueue,
+    showFallback,
+    fallbackItems: scheduleInputs?.fallbackItems,
+    diagnostic,
+    screen,
+    device,
+  });
+
+  useWallTimeline({
+    syncPlayback,
+    items,
+    currentVideoIndex,
+    clockOffsetRef,
+    videoRef,
+    holdsRef,
+    finishPlay,
+    switchToPendingQueue,
+    showItem,
+  });
+
+  const { isPaused, identifyUntil } = useRemoteCommands({ screen, device, videoRef, holdsRef, skipToNext, jumpToVideo });
+
+  // Start from cached overrides so an emergency message survives a reload while offline
   useEffect(() => {
-    const video = videoRef.current;
-    if (!video || videos.length === 0) return;
-
-    const handleVideoEnd = () => {
-      console.log('Video ended, moving to next');
-      // Move to next video or loop back to first
-      const nextIndex = (currentVideoIndex + 1) % videos.length;
-      setCurrentVideoIndex(nextIndex);
-      setVideoError(false);
-      setVideoLoadError(null);
-    };
+    setOverrides(overrideUtils.getCachedOverrides());
+    setDisplaySettings(screenUtils.getCachedDisplaySettings());
+    setLayout(layoutUtils.getCachedLayout());
+    const cachedOverlays = overlayUtils.getCachedOverlays();
+    setOverlayWidgets(cachedOverlays.widgets);
+    setTickerMessages(cachedOverlays.messages);
+  }, []);
 
-    const handleVideoError = (e: Event) => {
-      const videoElement = e.target as HTMLVideoElement;
-      const error = videoElement.error;
-      
-      console.error('Video playback error:', {
-        code: error?.code,
-        message: error?.message,
-        src: videoElement.src,
-        networkState: videoElement.networkState,
-        readyState: videoElement.readyState
-      });
-      
-      let errorMessage = 'Unknown video error';
-      if (error) {
-        switch (error.code) {
-          case error.MEDIA_ERR_ABORTED:
-            errorMessage = 'Video playback aborted';
-            break;
-          case error.MEDIA_ERR_NETWORK:
-            errorMessage = 'Network error while loading video';
-            break;
-          case error.MEDIA_ERR_DECODE:
-            errorMessage = 'Video decoding error';
-            break;
-          case error.MEDIA_ERR_SRC_NOT_SUPPORTED:
-            errorMessage = 'Video format not supported';
-            break;
-        }
+  // Rotation and fit follow the screen settings, and are cached for offline start-ups
+  useEffect(() => {
+    if (!screen) return;
+
+    const settings = screenUtils.getDisplaySettings(screen);
+    setDisplaySettings(settings);
+    screenUtils.storeDisplaySettings(settings);
+  }, [screen]);
+
+  // Load the screen's layout and follow edits made in the layout editor
+  useEffect(() => {
+    if (!screenResolved) return;
+
+    const layoutId = screen?.layout_id;
+    if (!layoutId) {
+      setLayout(null);
+      layoutUtils.storeCachedLayout(null);
+      return;
+    }
+
+    const loadLayout = async () => {
+      try {
+        const loaded = await layoutApi.getLayout(layoutId);
+        setLayout(loaded);
+        layoutUtils.storeCachedLayout(loaded);
+      } catch (layoutError) {
+        // Keep the cached layout
+        console.warn('Unable to load layout:', layoutError);
       }
-      
-      setVideoError(true);
-      setVideoLoadError(errorMessage);
-      
-      // Auto-skip to next video after 5 seconds on error
-      setTimeout(() => {
-        const nextIndex = (currentVideoIndex + 1) % videos.length;
-        setCurrentVideoIndex(nextIndex);
-        setVideoError(false);
-        setVideoLoadError(null);
-      }, 5000);
     };
 
-    const handleCanPlay = () => {
-      console.log('Video can play, attempting to start playback');
-      setVideoError(false);
-      setVideoLoadError(null);
-      video.play().catch((playError) => {
-        console.error('Error playing video:', playError);
-        setVideoLoadError(`Playback error: ${playError.message}`);
-      });
+    loadLayout();
+    const subscription = layoutApi.subscribeToLayout(layoutId, () => {
+      console.log('Layout update received');
+      loadLayout();
+    });
+
+    return () => {
+      subscription.unsubscribe();
     };
+  }, [screen?.layout_id, screenResolved]);
+
+  // Overlay widgets and ticker messages update live; they sit above the player so playback is untouched
+  useEffect(() => {
+    if (!screenResolved) return;
+
+    const loadOverlays = async () => {
+      try {
+        const [widgets, messages] = await Promise.all([
+          overlayApi.getWidgets(),
+          overlayApi.getTickerMessages(),
+        ]);
+        // Schedules are checked while rendering; only the targeting is fixed per screen
+        const screenWidgets = widgets.filter(widget => overrideUtils.targetsScreen(widget, screen));
+        const widgetIds = new Set(screenWidgets.map(widget => widget.id));
+        const screenMessages = messages.filter(message => widgetIds.has(message.widget_id));
 
-    const handleLoadStart = () => {
-      console.log('Video load started for:', video.src);
+        setOverlayWidgets(screenWidgets);
+        setTickerMessages(screenMessages);
+        overlayUtils.storeCachedOverlays({ widgets: screenWidgets, messages: screenMessages });
+      } catch (overlayError) {
+        // Keep showing the cached overlays
+        console.warn('Unable to load overlays:', overlayError);
+      }
     };
 
-    const handleLoadedData = () => {
-      console.log('Video data loaded successfully');
-      setVideoLoadError(null);
+    loadOverlays();
+    const subscription = overlayApi.subscribeToOverlays(() => {
+      console.log('Overlay update received');
+      loadOverlays();
+    });
+
+    return () => {
+      subscription.unsubscribe();
     };
+  }, [screen, screenResolved]);
+
+  // Keep overrides for this screen in sync and cached
+  useEffect(() => {
+    if (!screenResolved) return;
 
-    video.addEventListener('ended', handleVideoEnd);
-    video.addEventListener('error', handleVideoError);
-    video.addEventListener('canplay', handleCanPlay);
-    video.addEventListener('loadstart', handleLoadStart);
-    video.addEventListener('loadeddata', handleLoadedData);
+    const loadOverrides = async () => {
+      try {
+        const current = (await overrideApi.getCurrentOverrides())
+          .filter(override => overrideUtils.targetsScreen(override, screen));
+        setOverrides(current);
+        overrideUtils.storeCachedOverrides(current);
+
+        // Cache override media so it can be shown without a connection
+        current.forEach(override => {
+          const serviceWorkerManager = getServiceWorkerManager();
+          if (override.media_url && serviceWorkerManager) {
+            serviceWorkerManager.preloadVideo(override.media_url).catch(() => {});
+          }
+        });
+      } catch (overrideError) {
+        // Keep showing the cached overrides
+        console.warn('Unable to load overrides:', overrideError);
+      }
+    };
+
+    loadOverrides();
+    const subscription = overrideApi.subscribeToOverrides(() => {
+      console.log('Override update received');
+      loadOverrides();
+    });
+    window.addEventListener('online', loadOverrides);
 
     return () => {
-      video.removeEventListener('ended', handleVideoEnd);
-      video.removeEventListener('error', handleVideoError);
-      video.removeEventListener('canplay', handleCanPlay);
-      video.removeEventListener('loadstart', handleLoadStart);
-      video.removeEventListener('loadeddata', handleLoadedData);
+      subscription.unsubscribe();
+      window.removeEventListener('online', loadOverrides);
     };
-  }, [currentVideoIndex, videos.length]);
+  }, [screen, screenResolved]);
 
-  // Auto-play when video changes
+  // Re-evaluate overrides exactly when the next one starts or expires. Far-off changes are
+  // re-checked every few minutes instead, as setTimeout fires at once beyond ~24.8 days.
   useEffect(() => {
-    const video = videoRef.current;
-    if (video && videos.length > 0 && videos[currentVideoIndex]) {
-      console.log('Loading new video:', videos[currentVideoIndex]);
-      setVideoLoadError(null);
-      video.load(); // Reload the video element
-    }
-  }, [currentVideoIndex, videos]);
-
-  // Manual retry function
-  const retryVideo = () => {
-    setVideoError(false);
-    setVideoLoadError(null);
-    const video = videoRef.current;
-    if (video) {
-      video.load();
-    }
-  };
+    const nextChange = overrideUtils.getNextChange(overrides, clockUtils.now());
+    if (!nextChange) return;
+
+    const delay = Math.min(nextChange.getTime() - clockUtils.now().getTime() + 100, SCHEDULE_CHECK_INTERVAL_MS);
+    const timeout = setTimeout(() => setOverrideNow(clockUtils.now()), delay);
+    return () => clearTimeout(timeout);
+  }, [overrides, overrideNow]);
+
+  const activeOverride = overrideUtils.getActiveOverride(overrides, overrideNow);
+  const mainZone = layoutUtils.getMainZone(layout);
+
+  // Hold normal playback underneath an override and pick it up again afterwards
+  usePlaybackHold(holdsRef, videoRef, 'override', !!activeOverride);
+
+  const { kioskMenu, kioskEnabled, kioskShowing, openKiosk, closeKiosk } = useKiosk({
+    menuId: screen?.kiosk_menu_id,
+    screenResolved,
+    syncPlayback,
+    videoRef,
+    holdsRef,
+  });
+
+  const currentVideo = items[currentVideoIndex]?.video;
 
-  // Skip to next video manually
-  const skipToNext = () => {
-    const nextIndex = (currentVideoIndex + 1) % videos.length;
-    setCurrentVideoIndex(nextIndex);
-    setVideoError(false);
-    setVideoLoadError(null);
-  };
+  useHeartbeat({
+    device,
+    enabled: !simulatedAt,
+    currentVideoId: currentVideo?.id ?? null,
+    isOnline,
+    videoRef,
+    lastErrorRef,
+  });
 
-  const currentVideo = videos[currentVideoIndex];
+  if (needsPairing) {
+    return <PairingScreen onPaired={handlePaired} />;
+  }
+
+  const identifyOverlay = identifyUntil && (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-blue-700 bg-opacity-90 text-white text-center">
+      <div>
+        <p className="text-7xl font-bold mb-4">{screen?.name || 'Unassigned display'}</p>
+        {screen && <p className="text-3xl font-mono mb-2">{screen.slug}</p>}
+        {screen?.location && <p className="text-2xl mb-2">{screen.location}</p>}
+        {device && <p className="text-xl text-blue-200">Device: {device.name || device.id}</p>}
+      </div>
+    </div>
+  );
+
+  // Overrides take priority even when the playlist cannot be loaded
+  if (activeOverride && (loading || error || !items[currentVideoIndex])) {
+    return (
+      <ScreenStage settings={displaySettings}>
+        <OverrideDisplay override={activeOverride} />
+      </ScreenStage>
+    );
+  }
 
   if (loading) {
     return (
-      <div className="fixed inset-0 bg-black flex items-center justify-center">
-        <div className="text-center text-white">
-          <Loader className="w-12 h-12 animate-spin mb-4 mx-auto" />
-          <p className="text-xl">Loading videos...</p>
-          {swStatus && (
-            <p className="text-sm text-gray-400 mt-2">
-              SW: {swStatus.isRegistered ? 'Active' : 'Inactive'} | 
-              Mode: {swStatus.isDevelopment ? 'Dev' : 'Prod'}
-            </p>
-          )}
+      <ScreenStage settings={displaySettings}>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-center text-white">
+            <Loader className="w-12 h-12 animate-spin mb-4 mx-auto" />
+            <p className="text-xl">Loading videos...</p>
+            {swStatus && (
+              <p className="text-sm text-gray-400 mt-2">
+                SW: {swStatus.isRegistered ? 'Active' : 'Inactive'} | 
+                Mode: {swStatus.isDevelopment ? 'Dev' : 'Prod'}
+              </p>
+            )}
+          </div>
         </div>
-      </div>
+      </ScreenStage>
+    );
+  }
+
+  // Without diagnostic mode the public sees an empty screen instead of an error page
+  if (error && !diagnostic) {
+    return (
+      <ScreenStage settings={displaySettings}>
+        {identifyOverlay}
+      </ScreenStage>
     );
   }
 
   if (error) {
     return (
-      <div className="fixed inset-0 bg-black flex items-center justify-center">
-        <div className="text-center text-white max-w-2xl px-8">
-          <AlertCircle className="w-16 h-16 text-red-500 mb-4 mx-auto" />
-          <h1 className="text-2xl font-bold mb-4">No Videos to Display</h1>
-          <p className="text-lg mb-6">{error}</p>
-          <div className="space-y-4">
-            <button
-              onClick={loadVideos}
-              className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg"
-            >
-              Retry
-            </button>
-            <div className="text-sm text-gray-400">
-              <a href="/admin" className="text-blue-400 hover:text-blue-300">
-                Go to Admin Panel
-              </a>
-              {' | '}
-              <a href="/debug" className="text-blue-400 hover:text-blue-300">
-                Debug Panel
-              </a>
+      <ScreenStage settings={displaySettings}>
+        <div className="absolute inset-0 flex items-center justify-center">
+          {identifyOverlay}
+          <div className="text-center text-white max-w-2xl px-8">
+            <AlertCircle className="w-16 h-16 text-red-500 mb-4 mx-auto" />
+            <h1 className="text-2xl font-bold mb-4">No Videos to Display</h1>
+            <p className="text-lg mb-6">{error}</p>
+            <div className="space-y-4">
+              <button
+                onClick={loadVideos}
+                className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg"
+              >
+                Retry
+              </button>
+              <div className="text-sm text-gray-400">
+                <a href="/admin" className="text-blue-400 hover:text-blue-300">
+                  Go to Admin Panel
+                </a>
+                {' | '}
+                <a href="/debug" className="text-blue-400 hover:text-blue-300">
+                  Debug Panel
+                </a>
+              </div>
             </div>
+            
+            {/* Debug information */}
+            {debugInfo && (
+              <div className="mt-8 p-4 bg-gray-800 rounded-lg text-left text-sm">
+                <h3 className="font-bold mb-2">Debug Info:</h3>
+                <pre className="text-xs">{JSON.stringify(debugInfo, null, 2)}</pre>
+              </div>
+            )}
           </div>
-          
-          {/* Debug information */}
-          {debugInfo && process.env.NODE_ENV === 'development' && (
-            <div className="mt-8 p-4 bg-gray-800 rounded-lg text-left text-sm">
-              <h3 className="font-bold mb-2">Debug Info:</h3>
-              <pre className="text-xs">{JSON.stringify(debugInfo, null, 2)}</pre>
-            </div>
-          )}
         </div>
-      </div>
+      </ScreenStage>
     );
   }
 
   if (!currentVideo) {
     return (
-      <div className="fixed inset-0 bg-black flex items-center justify-center">
-        <div className="text-center text-white">
-          <AlertCircle className="w-16 h-16 text-yellow-500 mb-4 mx-auto" />
-          <p className="text-xl">No video selected</p>
+      <ScreenStage settings={displaySettings}>
+        <div className="absolute inset-0 flex items-center justify-center">
+          <div className="text-center text-white">
+            <AlertCircle className="w-16 h-16 text-yellow-500 mb-4 mx-auto" />
+            <p className="text-xl">No video selected</p>
+          </div>
         </div>
-      </div>
+      </ScreenStage>
     );
   }
 
   return (
-    <div className="fixed inset-0 bg-black overflow-hidden">
+    <ScreenStage settings={displaySettings}>
+      {activeOverride && <OverrideDisplay override={activeOverride} />}
+      {identifyOverlay}
+
+      {/* Touch kiosk: a tap anywhere opens the menu */}
+      {kioskShowing && kioskMenu ? (
+        <KioskMenu
+          menu={kioskMenu}
+          videos={scheduleInputs?.snapshot.videos ?? []}
+          screenId={screen?.id}
+          deviceId={device?.id}
+          fit={displaySettings.fit_mode}
+          onClose={closeKiosk}
+        />
+      ) : kioskEnabled && !activeOverride && (
+        <div className="absolute inset-0 z-[5]" onPointerDown={openKiosk}>
+          <div className="absolute bottom-16 left-1/2 -translate-x-1/2 text-white text-lg bg-black bg-opacity-50 px-5 py-2 rounded-full animate-pulse">
+            Touch the screen to explore
+          </div>
+        </div>
+      )}
+
       {/* Connection status indicator */}
       <div className="absolute top-4 left-4 z-10">
         <div className="flex items-center space-x-2">
@@ -382,23 +906,48 @@ export default function DisplayPage() {
       </div>
 
       {/* Video progress indicator */}
-      {videos.length > 1 && (
+      {items.length > 1 && (
         <div className="absolute top-4 right-4 z-10">
           <div className="text-white text-sm bg-black bg-opacity-50 px-3 py-2 rounded">
-            {currentVideoIndex + 1} / {videos.length}
+            {currentVideoIndex + 1} / {items.length}
           </div>
         </div>
       )}
 
+      {/* Secondary layout zones */}
+      {layout?.zones.filter(zone => zone.content_type !== 'main').map(zone => (
+        <div key={zone.id} style={layoutUtils.getZoneStyle(zone)}>
+          {zone.content_type === 'playlist' && zone.playlist_id && (
+            <ZonePlaylistPlayer
+              playlistId={zone.playlist_id}
+              screenId={screen?.id}
+              deviceId={device?.id}
+              fit={displaySettings.fit_mode}
+              paused={isPaused || !!activeOverride}
+            />
+          )}
+          {zone.content_type === 'widget' && <ZoneWidget zone={zone} timezone={screen?.timezone} />}
+        </div>
+      ))}
+
       {/* Main video container */}
-      <div className="relative w-full h-full flex items-center justify-center">
-        {videoError || videoLoadError ? (
-          <div className="text-center text-white">
+      <div className="flex items-center justify-center" style={layoutUtils.getZoneStyle(mainZone)}>
+        <GaplessPlayer
+          items={items}
+          currentIndex={currentVideoIndex}
+          videoRef={videoRef}
+          fit={displaySettings.fit_mode}
+          crop={syncPlayback ? screen?.wall_crop : null}
+        />
+
+        {/* Errors cover the player so the buffered clips stay loaded (diagnostic mode only) */}
+        {diagnostic && (videoError || videoLoadError) && (
+          <div className="absolute inset-0 z-10 bg-black flex flex-col items-center justify-center text-center text-white">
             <div className="text-6xl mb-4">⚠️</div>
             <h2 className="text-2xl font-bold mb-2">Video Error</h2>
             <p className="mb-4">{videoLoadError || 'Video playback error'}</p>
             <p className="text-sm text-gray-300 mb-6">
-              {videos.length > 1 ? 'Skipping to next video...' : 'Will retry automatically...'}
+              {items.length > 1 ? 'Skipping to next video...' : 'Will retry automatically...'}
             </p>
             <div className="space-x-4">
               <button
@@ -407,7 +956,7 @@ export default function DisplayPage() {
               >
                 Retry
               </button>
-              {videos.length > 1 && (
+              {items.length > 1 && (
                 <button
                   onClick={skipToNext}
                   className="bg-gray-600 hover:bg-gray-700 text-white px-4 py-2 rounded"
@@ -418,7 +967,7 @@ export default function DisplayPage() {
             </div>
 
             {/* Video details for debugging */}
-            {process.env.NODE_ENV === 'development' && (
+            {diagnostic && (
               <div className="mt-4 p-3 bg-gray-800 rounded text-xs text-left">
                 <p><strong>Video:</strong> {currentVideo.title}</p>
                 <p><strong>URL:</strong> {currentVideo.file_url}</p>
@@ -427,24 +976,41 @@ export default function DisplayPage() {
               </div>
             )}
           </div>
-        ) : (
-          <video
-            ref={videoRef}
-            className="w-full h-full object-contain rotate-180"
-            autoPlay
-            muted
-            playsInline
-            preload="auto"
-            crossOrigin="anonymous"
-          >
-            <source src={currentVideo.file_url} type="video/mp4" />
-            <source src={currentVideo.file_url} type="video/webm" />
-            <source src={currentVideo.file_url} type="video/quicktime" />
-            Your browser does not support the video tag.
-          </video>
         )}
       </div>
 
+      <OverlayWidgets
+        widgets={overlayWidgets}
+        messages={tickerMessages}
+        screen={screen}
+        calendars={scheduleInputs?.snapshot.calendars || []}
+      />
+
+      {simulatedAt && (
+        <div className="absolute top-4 right-4 z-40">
+          <div className="text-black text-sm font-medium bg-amber-400 px-3 py-2 rounded">
+            Preview at {simulatedAt.toLocaleString()}
+          </div>
+        </div>
+      )}
+
+      {diagnostic && fallbackReason && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 z-40">
+          <div className="text-black text-sm bg-amber-400 px-3 py-2 rounded max-w-xl text-center">
+            {fallbackReason}
+          </div>
+        </div>
+      )}
+
+      {/* Remote pause indicator */}
+      {isPaused && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-10">
+          <div className="text-white text-sm bg-black bg-opacity-50 px-3 py-2 rounded">
+            Paused
+          </div>
+        </div>
+      )}
+
       {/* Video title overlay */}
       <div className="absolute bottom-4 left-4 z-10">
         <div className="text-white text-lg bg-black bg-opacity-50 px-4 py-2 rounded">
@@ -453,18 +1019,19 @@ export default function DisplayPage() {
       </div>
 
       {/* Next video indicator */}
-      {videos.length > 1 && (
+      {items.length > 1 && (
         <div className="absolute bottom-4 right-4 z-10">
           <div className="text-white text-sm bg-black bg-opacity-50 px-3 py-2 rounded">
-            Next: {videos[(currentVideoIndex + 1) % videos.length]?.title}
+            Next: {items[(currentVideoIndex + 1) % items.length]?.video.title}
           </div>
         </div>
       )}
 
-      {/* Debug info (only in development) */}
-      {process.env.NODE_ENV === 'development' && (
+      {/* Debug info (development or diagnostic mode) */}
+      {diagnostic && (
         <div className="absolute top-16 left-4 z-10 text-white text-xs bg-black bg-opacity-75 p-3 rounded max-w-md">
-          <div><strong>Current:</strong> {currentVideoIndex + 1}/{videos.length}</div>
+          <div><strong>Screen:</strong> {screen ? `${screen.name} (${screen.slug})` : 'All screens'}</div>
+          <div><strong>Current:</strong> {currentVideoIndex + 1}/{items.length}</div>
           <div><strong>Video:</strong> {currentVideo.title}</div>
           <div><strong>File:</strong> {currentVideo.file_name}</div>
           <div><strong>URL Type:</strong> {currentVideo.file_url.includes('blob.vercel-storage.com') ? 'Vercel Blob' : 'Local/Other'}</div>
@@ -484,12 +1051,12 @@ export default function DisplayPage() {
         </div>
       )}
 
-      {/* Manual controls (only visible on hover in development) */}
-      {process.env.NODE_ENV === 'development' && videos.length > 1 && (
+      {/* Manual controls (only visible on hover in development or diagnostic mode) */}
+      {diagnostic && items.length > 1 && (
         <div className="absolute bottom-16 right-4 z-10 opacity-0 hover:opacity-100 transition-opacity">
           <div className="space-x-2">
             <button
-              onClick={() => setCurrentVideoIndex(Math.max(0, currentVideoIndex - 1))}
+              onClick={() => showItem(Math.max(0, currentVideoIndex - 1))}
               disabled={currentVideoIndex === 0}
               className="bg-black bg-opacity-50 text-white px-3 py-1 rounded disabled:opacity-50"
             >
@@ -504,6 +1071,6 @@ export default function DisplayPage() {
           </div>
         </div>
       )}
-    </div>
+    </ScreenStage>
   );
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+// src/app/display/useHeartbeat.ts - Reports what this display is doing so the fleet view can spot broken screens
+import { useEffect, useRef, RefObject } from 'react';
+import type { Device } from '@/lib/devices';
+import { fleetApi, HEARTBEAT_INTERVAL_MS } from '@/lib/fleet';
+import { getServiceWorkerManager } from './offline';
+
+interface HeartbeatOptions {
+  device: Device | null;
+  // Previews at a simulated time don't report
+  enabled: boolean;
+  currentVideoId: string | null;
+  isOnline: boolean;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  lastErrorRef: RefObject<string | null>;
+}
+
+export function useHeartbeat({ device, enabled, currentVideoId, isOnline, videoRef, lastErrorRef }: HeartbeatOptions) {
+  const stateRef = useRef<{ videoId: string | null; isOnline: boolean }>({
+    videoId: null,
+    isOnline: true,
+  });
+
+  useEffect(() => {
+    stateRef.current = { videoId: currentVideoId, isOnline };
+  }, [currentVideoId, isOnline]);
+
+  useEffect(() => {
+    if (!device || !enabled) return;
+
+    const sendHeartbeat = async () => {
+      const { videoId, isOnline: online } = stateRef.current;
+      const status = getServiceWorkerManager()?.getStatus() ?? null;
+
+      let cacheUsage = null;
+      try {
+        if (navigator.storage?.estimate) {
+          const estimate = await navigator.storage.estimate();
+          cacheUsage = { usage: estimate.usage, quota: estimate.quota };
+        }
+      } catch {
+        // Storage estimates are not available everywhere
+      }
+
+      try {
+        await fleetApi.sendHeartbeat({
+          current_video_id: videoId,
+          playback_position: videoRef.current ? videoRef.current.currentTime : null,
+          is_online: online && navigator.onLine,
+          sw_status: status
+            ? {
+                isSupported: status.isSupported,
+                isRegistered: status.isRegistered,
+                isUpdateAvailable: status.isUpdateAvailable,
+                isDevelopment: status.isDevelopment,
+              }
+            : null,
+          cache_usage: cacheUsage,
+          app_version: process.env.NEXT_PUBLIC_APP_VERSION || null,
+          last_error: lastErrorRef.current,
+        });
+      } catch (heartbeatError) {
+        console.warn('Heartbeat failed:', heartbeatError);
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+    };
+  }, [device, enabled, videoRef, lastErrorRef]);
+}
@@ -0,0 +1,66 @@
+// src/app/display/useKiosk.ts - The screen's touch kiosk menu and holding the attract loop under it
+import { useState, useEffect, useCallback, RefObject } from 'react';
+import { kioskApi, kioskUtils, KioskMenu } from '@/lib/kiosk';
+import { usePlaybackHold, PlaybackHolds } from './usePlaybackLoop';
+
+interface KioskOptions {
+  menuId: string | null | undefined;
+  screenResolved: boolean;
+  syncPlayback: boolean;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  holdsRef: RefObject<PlaybackHolds>;
+}
+
+export function useKiosk({ menuId, screenResolved, syncPlayback, videoRef, holdsRef }: KioskOptions) {
+  const [kioskMenu, setKioskMenu] = useState<KioskMenu | null>(null);
+  const [kioskOpen, setKioskOpen] = useState(false);
+
+  // Start from the cached menu so a kiosk works after a reload while offline
+  useEffect(() => {
+    setKioskMenu(kioskUtils.getCachedMenu());
+  }, []);
+
+  // Load the screen's kiosk menu and follow edits made in the admin
+  useEffect(() => {
+    if (!screenResolved) return;
+
+    if (!menuId) {
+      setKioskMenu(null);
+      kioskUtils.storeCachedMenu(null);
+      return;
+    }
+
+    const loadMenu = async () => {
+      try {
+        const loaded = await kioskApi.getMenu(menuId);
+        setKioskMenu(loaded);
+        kioskUtils.storeCachedMenu(loaded);
+      } catch (menuError) {
+        // Keep the cached menu
+        console.warn('Unable to load kiosk menu:', menuError);
+      }
+    };
+
+    loadMenu();
+    const subscription = kioskApi.subscribeToMenu(menuId, () => {
+      console.log('Kiosk menu update received');
+      loadMenu();
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [menuId, screenResolved]);
+
+  // Walls stay on their shared timeline, so they never open the kiosk menu
+  const kioskEnabled = !!kioskMenu && !syncPlayback;
+  const kioskShowing = kioskEnabled && kioskOpen;
+
+  // The attract loop holds underneath the kiosk menu and picks up where it left off
+  usePlaybackHold(holdsRef, videoRef, 'kiosk', kioskShowing);
+
+  const openKiosk = useCallback(() => setKioskOpen(true), []);
+  const closeKiosk = useCallback(() => setKioskOpen(false), []);
+
+  return { kioskMenu, kioskEnabled, kioskShowing, openKiosk, closeKiosk };
+}
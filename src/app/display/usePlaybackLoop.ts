@@ -0,0 +1,414 @@
+// src/app/display/usePlaybackLoop.ts - Moves the display through its queue: clips, slides, loops, errors and proof-of-play
+import { useState, useEffect, useRef, useCallback, RefObject } from 'react';
+import { mediaUtils } from '@/lib/supabase';
+import type { Screen } from '@/lib/screens';
+import { playlistUtils, PlaybackItem } from '@/lib/playlists';
+import type { Device } from '@/lib/devices';
+import { playLogApi, playLogUtils, PlayOutcome } from '@/lib/playLogs';
+import { rotationUtils } from '@/lib/rotation';
+import { clockUtils } from '@/lib/clock';
+
+// Why the loop is holding its current frame
+export interface PlaybackHolds {
+  paused: boolean;    // Paused remotely
+  override: boolean;  // An override covers the screen
+  kiosk: boolean;     // The kiosk menu is open
+}
+
+export const isHeld = (holds: PlaybackHolds) => holds.paused || holds.override || holds.kiosk;
+
+// Hold the video while `active` and pick it up again afterwards, unless something else still holds it
+export function usePlaybackHold(
+  holdsRef: RefObject<PlaybackHolds>,
+  videoRef: RefObject<HTMLVideoElement | null>,
+  reason: keyof PlaybackHolds,
+  active: boolean
+) {
+  useEffect(() => {
+    holdsRef.current[reason] = active;
+
+    const video = videoRef.current;
+    if (!video) return;
+
+    if (active) {
+      video.pause();
+    } else if (!isHeld(holdsRef.current)) {
+      video.play().catch(() => {});
+    }
+  }, [holdsRef, videoRef, reason, active]);
+}
+
+interface PlaybackLoopOptions {
+  items: PlaybackItem[];
+  currentVideoIndex: number;
+  setCurrentVideoIndex: (index: number) => void;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  holdsRef: RefObject<PlaybackHolds>;
+  // Passes of the current item so far; reset whenever the queue is replaced
+  loopsPlayedRef: RefObject<number>;
+  lastErrorRef: RefObject<string | null>;
+  // Rebuilds the queue, e.g. once a video reaches its daily maximum
+  checkScheduleRef: RefObject<() => void>;
+  syncPlayback: boolean;
+  syncPlaybackRef: RefObject<boolean>;
+  takePendingQueue: (currentKey?: string) => boolean;
+  showFallback: (reason: string, fallbackItems: PlaybackItem[]) => void;
+  fallbackItems: PlaybackItem[] | undefined;
+  diagnostic: boolean;
+  screen: Screen | null;
+  device: Device | null;
+}
+
+export function usePlaybackLoop({
+  items, currentVideoIndex, setCurrentVideoIndex, videoRef, holdsRef, loopsPlayedRef, lastErrorRef,
+  checkScheduleRef, syncPlayback, syncPlaybackRef, takePendingQueue, showFallback, fallbackItems,
+  diagnostic, screen, device,
+}: PlaybackLoopOptions) {
+  const [videoError, setVideoError] = useState(false);
+  const [videoLoadError, setVideoLoadError] = useState<string | null>(null);
+  const playRef = useRef<{ item: PlaybackItem; startedAt: string } | null>(null);
+  const playIdentityRef = useRef<{ screenId: string | null; deviceId: string | null; timezone: string | null }>({
+    screenId: null,
+    deviceId: null,
+    timezone: null,
+  });
+  const fallbackItemsRef = useRef<PlaybackItem[]>([]);
+  const diagnosticRef = useRef(false);
+
+  useEffect(() => {
+    fallbackItemsRef.current = fallbackItems ?? [];
+  }, [fallbackItems]);
+
+  useEffect(() => {
+    diagnosticRef.current = diagnostic;
+  }, [diagnostic]);
+
+  useEffect(() => {
+    playIdentityRef.current = {
+      screenId: screen?.id ?? null,
+      deviceId: device?.id ?? null,
+      timezone: screen?.timezone ?? null,
+    };
+  }, [screen, device]);
+
+  const clearVideoError = useCallback(() => {
+    setVideoError(false);
+    setVideoLoadError(null);
+  }, []);
+
+  // Show an item from its first pass
+  const showItem = useCallback((index: number) => {
+    loopsPlayedRef.current = 0;
+    setCurrentVideoIndex(index);
+    clearVideoError();
+  }, [loopsPlayedRef, setCurrentVideoIndex, clearVideoError]);
+
+  // A new queue starts without the old clip's error
+  const switchToPendingQueue = useCallback((currentKey?: string): boolean => {
+    if (!takePendingQueue(currentKey)) return false;
+    clearVideoError();
+    return true;
+  }, [takePendingQueue, clearVideoError]);
+
+  // Close the play in progress and buffer it for proof-of-play reporting
+  const finishPlay = useCallback((outcome: PlayOutcome, item?: PlaybackItem, errorMessage?: string) => {
+    const play = playRef.current;
+    playRef.current = null;
+
+    // Errors before playback started still count as an attempted play
+    const playedItem = play?.item ?? (outcome === 'errored' ? item : undefined);
+    // Previews at a simulated time are not real plays
+    if (!playedItem || clockUtils.isSimulated()) return;
+
+    const record = playLogUtils.createPlay({
+      screen_id: playIdentityRef.current.screenId,
+      device_id: playIdentityRef.current.deviceId,
+      video_id: playedItem.video.id,
+      playlist_item_id: playedItem.playlistItem?.id ?? null,
+      started_at: play?.startedAt ?? new Date().toISOString(),
+      outcome,
+      error_message: errorMessage ?? null,
+    });
+    console.log(`Play ${outcome}:`, playedItem.video.title);
+    playLogUtils.bufferPlay(record);
+
+    // Reaching the daily maximum takes the video out of the rotation before the next item;
+    // video walls keep every screen on the same list instead
+    if (outcome === 'completed' && !syncPlaybackRef.current) {
+      const playsToday = rotationUtils.recordPlay(playedItem.video.id, playIdentityRef.current.timezone);
+      const maxPlays = playedItem.video.max_plays_per_day;
+      if (maxPlays && playsToday >= maxPlays) {
+        console.log(`Daily maximum reached for ${playedItem.video.title}`);
+        checkScheduleRef.current();
+      }
+    }
+  }, [syncPlaybackRef, checkScheduleRef]);
+
+  // Send buffered plays when online; they stay in local storage until the database accepts them
+  useEffect(() => {
+    const flushPlays = async () => {
+      if (!navigator.onLine) return;
+      try {
+        const flushed = await playLogApi.flush();
+        if (flushed > 0) console.log(`Flushed ${flushed} play records`);
+      } catch (flushError) {
+        console.warn('Unable to flush play records:', flushError);
+      }
+    };
+
+    flushPlays();
+    const interval = setInterval(flushPlays, 60000);
+    window.addEventListener('online', flushPlays);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', flushPlays);
+    };
+  }, []);
+
+  // Auto-play next video when current one ends
+  useEffect(() => {
+    const video = videoRef.current;
+    const item = items[currentVideoIndex];
+    if (!video || !item) return;
+
+    // Guards against timeupdate firing again before the next item renders
+    let hasAdvanced = false;
+
+    const handlePlaying = () => {
+      // Also fires after buffering stalls - only the first one starts a play
+      if (!playRef.current) {
+        playRef.current = { item, startedAt: new Date().toISOString() };
+      }
+    };
+
+    const handleVideoEnd = () => {
+      // Walls move on at the shared timeline's boundaries, not when this copy ends
+      if (hasAdvanced || syncPlaybackRef.current) return;
+
+      finishPlay('completed');
+
+      if (switchToPendingQueue(item.key)) {
+        hasAdvanced = true;
+        return;
+      }
+
+      // Replay the same item until its loop count is reached
+      if (loopsPlayedRef.current + 1 < item.loopCount || items.length === 1) {
+        loopsPlayedRef.current = (loopsPlayedRef.current + 1) % item.loopCount;
+        console.log(`Video ended, replaying (${loopsPlayedRef.current + 1}/${item.loopCount})`);
+        video.currentTime = 0;
+        video.play().catch((playError) => {
+          console.error('Error replaying video:', playError);
+        });
+        return;
+      }
+
+      console.log('Video ended, moving to next');
+      // Move to next video or loop back to first
+      hasAdvanced = true;
+      showItem((currentVideoIndex + 1) % items.length);
+    };
+
+    // Playlist items can cut a video short with a duration override
+    const handleTimeUpdate = () => {
+      if (item.durationOverride && video.currentTime >= item.durationOverride) {
+        handleVideoEnd();
+      }
+    };
+
+    const handleVideoError = (e: Event) => {
+      const videoElement = e.target as HTMLVideoElement;
+      const error = videoElement.error;
+
+      console.error('Video playback error:', {
+        code: error?.code,
+        message: error?.message,
+        src: videoElement.src,
+        networkState: videoElement.networkState,
+        readyState: videoElement.readyState
+      });
+
+      let errorMessage = 'Unknown video error';
+      if (error) {
+        switch (error.code) {
+          case error.MEDIA_ERR_ABORTED:
+            errorMessage = 'Video playback aborted';
+            break;
+          case error.MEDIA_ERR_NETWORK:
+            errorMessage = 'Network error while loading video';
+            break;
+          case error.MEDIA_ERR_DECODE:
+            errorMessage = 'Video decoding error';
+            break;
+          case error.MEDIA_ERR_SRC_NOT_SUPPORTED:
+            errorMessage = 'Video format not supported';
+            break;
+        }
+      }
+
+      setVideoError(true);
+      setVideoLoadError(errorMessage);
+      lastErrorRef.current = `${errorMessage}: ${item.video.title}`;
+      finishPlay('errored', item, errorMessage);
+
+      // Skip to the next item, or to the fallback content when this was the only one. The public
+      // never sees the error; diagnostic mode shows it for 5 seconds first.
+      const fallback = fallbackItemsRef.current;
+      const hasFallback = fallback.length > 0 && !fallback.some(fallbackItem => fallbackItem.key === item.key);
+      const canSkip = items.length > 1 || hasFallback;
+
+      setTimeout(() => {
+        if (syncPlaybackRef.current) return;
+        if (switchToPendingQueue(item.key)) return;
+        loopsPlayedRef.current = 0;
+        clearVideoError();
+
+        if (items.length > 1) {
+          setCurrentVideoIndex((currentVideoIndex + 1) % items.length);
+        } else if (hasFallback) {
+          showFallback(`${item.video.title} failed to play.`, fallback);
+        } else {
+          // Nothing else to show: try the same clip again
+          video.load();
+        }
+      }, diagnosticRef.current || !canSkip ? 5000 : 0);
+    };
+
+    const handleCanPlay = () => {
+      clearVideoError();
+      // Paused remotely or held by an override or the kiosk menu - stay on the first frame until resumed
+      if (isHeld(holdsRef.current)) return;
+      console.log('Video can play, attempting to start playback');
+      video.play().catch((playError) => {
+        console.error('Error playing video:', playError);
+        setVideoLoadError(`Playback error: ${playError.message}`);
+        lastErrorRef.current = `Playback error: ${playError.message}`;
+      });
+    };
+
+    const handleLoadStart = () => {
+      console.log('Video load started for:', video.src);
+    };
+
+    const handleLoadedData = () => {
+      console.log('Video data loaded successfully');
+      setVideoLoadError(null);
+    };
+
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('ended', handleVideoEnd);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('error', handleVideoError);
+    video.addEventListener('canplay', handleCanPlay);
+    video.addEventListener('loadstart', handleLoadStart);
+    video.addEventListener('loadeddata', handleLoadedData);
+
+    // The player hands over a clip that was buffered in the background, so its
+    // canplay event has already fired - start it here instead
+    console.log('Now showing:', item.video.title);
+    if (!video.paused) {
+      handlePlaying();
+    } else if (video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+      handleCanPlay();
+    }
+
+    return () => {
+      // Switching items or reloading the playlist interrupts the current play
+      finishPlay('skipped');
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('ended', handleVideoEnd);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('error', handleVideoError);
+      video.removeEventListener('canplay', handleCanPlay);
+      video.removeEventListener('loadstart', handleLoadStart);
+      video.removeEventListener('loadeddata', handleLoadedData);
+    };
+  }, [
+    currentVideoIndex, items, videoRef, holdsRef, loopsPlayedRef, lastErrorRef, syncPlaybackRef,
+    setCurrentVideoIndex, finishPlay, switchToPendingQueue, showItem, showFallback, clearVideoError,
+  ]);
+
+  // Images and web pages advance on a timer the same way videos advance on 'ended'
+  useEffect(() => {
+    const item = items[currentVideoIndex];
+    if (!item || !mediaUtils.isSlide(item.video)) return;
+
+    console.log('Now showing slide:', item.video.title);
+    const startPlay = () => {
+      playRef.current = { item, startedAt: new Date().toISOString() };
+    };
+    startPlay();
+
+    // On a video wall the shared timeline moves slides on
+    if (syncPlayback) {
+      return () => finishPlay('skipped');
+    }
+
+    const stopTimer = playlistUtils.startSlideTimer(
+      playlistUtils.getSlideDuration(item),
+      () => isHeld(holdsRef.current),
+      () => {
+        finishPlay('completed');
+        if (switchToPendingQueue(item.key)) return;
+
+        // Repeat the slide until its loop count is reached
+        if (loopsPlayedRef.current + 1 < item.loopCount || items.length === 1) {
+          loopsPlayedRef.current = (loopsPlayedRef.current + 1) % item.loopCount;
+          startPlay();
+          return;
+        }
+
+        showItem((currentVideoIndex + 1) % items.length);
+      }
+    );
+
+    return () => {
+      finishPlay('skipped');
+      stopTimer();
+    };
+  }, [currentVideoIndex, items, holdsRef, loopsPlayedRef, finishPlay, switchToPendingQueue, showItem, syncPlayback]);
+
+  // Manual retry function
+  const retryVideo = () => {
+    clearVideoError();
+    videoRef.current?.load();
+  };
+
+  // Skip to next video manually
+  const skipToNext = () => {
+    if (syncPlayback) {
+      console.log('Skip ignored: this screen follows its video wall\'s timeline');
+      return;
+    }
+    finishPlay('skipped');
+    if (switchToPendingQueue(items[currentVideoIndex]?.key)) return;
+    showItem((currentVideoIndex + 1) % items.length);
+  };
+
+  // Jump to the first playlist entry of a video (remote command)
+  const jumpToVideo = (videoId?: string): string => {
+    if (syncPlayback) {
+      throw new Error('This screen follows its video wall\'s timeline');
+    }
+    const index = items.findIndex(item => item.video.id === videoId);
+    if (index === -1) {
+      throw new Error('Video is not in this screen\'s playlist right now');
+    }
+
+    finishPlay('skipped');
+    showItem(index);
+    return `Playing ${items[index].video.title}`;
+  };
+
+  return {
+    videoError,
+    videoLoadError,
+    finishPlay,
+    showItem,
+    switchToPendingQueue,
+    retryVideo,
+    skipToNext,
+    jumpToVideo,
+  };
+}
@@ -0,0 +1,136 @@
+// src/app/display/useRemoteCommands.ts - Runs commands sent from the admin panel and acknowledges each one
+import { useState, useEffect, useRef, RefObject } from 'react';
+import type { Screen } from '@/lib/screens';
+import type { Device } from '@/lib/devices';
+import { commandApi, commandUtils, DisplayCommand } from '@/lib/commands';
+import { getServiceWorkerManager } from './offline';
+import type { PlaybackHolds } from './usePlaybackLoop';
+
+interface CommandActions {
+  skipToNext: () => void;
+  jumpToVideo: (videoId?: string) => string;
+}
+
+interface RemoteCommandOptions extends CommandActions {
+  screen: Screen | null;
+  device: Device | null;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  holdsRef: RefObject<PlaybackHolds>;
+}
+
+export function useRemoteCommands({ screen, device, videoRef, holdsRef, skipToNext, jumpToVideo }: RemoteCommandOptions) {
+  const [isPaused, setIsPaused] = useState(false);
+  const [identifyUntil, setIdentifyUntil] = useState<number | null>(null);
+  const actionsRef = useRef<CommandActions>({ skipToNext, jumpToVideo });
+
+  // Commands arrive outside React's render cycle, so they call the latest handlers through a ref
+  useEffect(() => {
+    actionsRef.current = { skipToNext, jumpToVideo };
+  });
+
+  useEffect(() => {
+    if (!screen) return;
+
+    const deviceId = device?.id ?? null;
+    const handledIds = new Set<string>();
+
+    const runCommand = async (command: DisplayCommand) => {
+      if (handledIds.has(command.id)) return;
+      if (!commandUtils.isForDevice(command, deviceId) || commandUtils.isExpired(command)) return;
+      handledIds.add(command.id);
+
+      console.log('Remote command received:', command.command, command.payload);
+      let status: 'executed' | 'failed' = 'executed';
+      let result = '';
+      let afterAcknowledge: (() => void) | null = null;
+
+      try {
+        switch (command.command) {
+          case 'reload':
+            result = 'Reloading page';
+            afterAcknowledge = () => window.location.reload();
+            break;
+          case 'skip':
+            actionsRef.current.skipToNext();
+            result = 'Skipped to next video';
+            break;
+          case 'jump':
+            result = actionsRef.current.jumpToVideo(command.payload?.video_id);
+            break;
+          case 'pause':
+            holdsRef.current.paused = true;
+            setIsPaused(true);
+            videoRef.current?.pause();
+            result = 'Paused';
+            break;
+          case 'resume':
+            holdsRef.current.paused = false;
+            setIsPaused(false);
+            if (!holdsRef.current.override && !holdsRef.current.kiosk) await videoRef.current?.play();
+            result = 'Resumed';
+            break;
+          case 'clear_cache': {
+            const manager = getServiceWorkerManager();
+            if (!manager) throw new Error('Service worker is not available');
+            const cleared = await manager.clearAllCaches();
+            if (!cleared) throw new Error('Caches could not be cleared (unsupported or development mode)');
+            result = 'Caches cleared';
+            break;
+          }
+          case 'update_sw': {
+            const manager = getServiceWorkerManager();
+            if (!manager) throw new Error('Service worker is not available');
+            await manager.update();
+            if (manager.getStatus().isUpdateAvailable) {
+              // Activating the new worker reloads the page, so acknowledge first
+              result = 'Update found, activating';
+              afterAcknowledge = () => manager.skipWaiting();
+            } else {
+              result = 'Service worker is up to date';
+            }
+            break;
+          }
+          case 'identify':
+            setIdentifyUntil(Date.now() + (command.payload?.duration_seconds || 15) * 1000);
+            result = 'Showing identify overlay';
+            break;
+          default:
+            throw new Error(`Unknown command: ${command.command}`);
+        }
+      } catch (commandError) {
+        console.error('Remote command failed:', commandError);
+        status = 'failed';
+        result = commandError instanceof Error ? commandError.message : String(commandError);
+      }
+
+      try {
+        await commandApi.acknowledgeCommand(command.id, status, result);
+      } catch (ackError) {
+        console.warn('Unable to acknowledge command:', ackError);
+      }
+
+      afterAcknowledge?.();
+    };
+
+    // Pick up commands sent while the realtime connection was down
+    commandApi.getPendingCommands(screen.id, deviceId)
+      .then(commands => commands.forEach(runCommand))
+      .catch(pendingError => console.warn('Unable to load pending commands:', pendingError));
+
+    const subscription = commandApi.subscribeToScreenCommands(screen.id, runCommand);
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [screen, device, videoRef, holdsRef]);
+
+  // Hide the identify overlay when it expires
+  useEffect(() => {
+    if (!identifyUntil) return;
+
+    const timeout = setTimeout(() => setIdentifyUntil(null), Math.max(0, identifyUntil - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [identifyUntil]);
+
+  return { isPaused, identifyUntil };
+}
@@ -0,0 +1,113 @@
+// src/app/display/useVideoWall.ts - Video wall membership, server clock and the shared timeline
+import { useState, useEffect, useRef, RefObject } from 'react';
+import { mediaUtils } from '@/lib/supabase';
+import { screenApi, Screen } from '@/lib/screens';
+import type { PlaybackItem } from '@/lib/playlists';
+import type { PlayOutcome } from '@/lib/playLogs';
+import { clockUtils } from '@/lib/clock';
+import { syncUtils, SYNC_INTERVAL_MS, CLOCK_SYNC_INTERVAL_MS } from '@/lib/sync';
+import type { PlaybackHolds } from './usePlaybackLoop';
+
+// Whether the screen's group is a video wall, and its offset to the server's clock. Previews at
+// a simulated time never sync.
+export function useVideoWall(screen: Screen | null) {
+  const [syncPlayback, setSyncPlayback] = useState(false);
+  const syncPlaybackRef = useRef(false);
+  const clockOffsetRef = useRef(0);
+
+  // Video walls are set per screen group
+  useEffect(() => {
+    if (!screen?.group_id || clockUtils.isSimulated()) {
+      setSyncPlayback(false);
+      return;
+    }
+
+    screenApi.getGroups()
+      .then(groups => setSyncPlayback(!!groups.find(group => group.id === screen.group_id)?.sync_playback))
+      .catch(groupError => {
+        console.warn('Unable to load screen group, playing unsynchronized:', groupError);
+        setSyncPlayback(false);
+      });
+  }, [screen]);
+
+  useEffect(() => {
+    syncPlaybackRef.current = syncPlayback;
+  }, [syncPlayback]);
+
+  // Screens in a wall agree on the server's clock rather than their own
+  useEffect(() => {
+    if (!syncPlayback) return;
+
+    const measure = async () => {
+      try {
+        clockOffsetRef.current = await syncUtils.measureClockOffset();
+        console.log(`Clock offset to server: ${Math.round(clockOffsetRef.current)}ms`);
+      } catch (clockError) {
+        // Keep the last offset; local clocks drift slowly
+        console.warn('Unable to measure the server clock:', clockError);
+      }
+    };
+
+    measure();
+    const interval = setInterval(measure, CLOCK_SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [syncPlayback]);
+
+  return { syncPlayback, syncPlaybackRef, clockOffsetRef };
+}
+
+interface WallTimelineOptions {
+  syncPlayback: boolean;
+  items: PlaybackItem[];
+  currentVideoIndex: number;
+  clockOffsetRef: RefObject<number>;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  holdsRef: RefObject<PlaybackHolds>;
+  finishPlay: (outcome: PlayOutcome) => void;
+  switchToPendingQueue: (currentKey?: string) => boolean;
+  showItem: (index: number) => void;
+}
+
+// Follow the shared timeline: switch items at its boundaries and keep the clip
+// aligned, nudging playbackRate for small drift and seeking for large drift
+export function useWallTimeline({
+  syncPlayback, items, currentVideoIndex, clockOffsetRef, videoRef, holdsRef,
+  finishPlay, switchToPendingQueue, showItem,
+}: WallTimelineOptions) {
+  useEffect(() => {
+    if (!syncPlayback || items.length === 0) return;
+
+    const tick = () => {
+      if (holdsRef.current.paused || holdsRef.current.override) return;
+
+      const position = syncUtils.getPosition(items, Date.now() + clockOffsetRef.current);
+      if (!position) return;
+
+      const item = items[currentVideoIndex];
+      if (position.index !== currentVideoIndex || !item) {
+        // Reaching the next item on time is a completed play; anything else is a jump
+        finishPlay(position.index === (currentVideoIndex + 1) % items.length ? 'completed' : 'skipped');
+        if (switchToPendingQueue(item?.key)) return;
+        showItem(position.index);
+        return;
+      }
+
+      const video = videoRef.current;
+      if (!video || mediaUtils.isSlide(item.video) || video.readyState < HTMLMediaElement.HAVE_METADATA) return;
+
+      const expected = syncUtils.getExpectedTime(item, position);
+      const correction = syncUtils.getCorrection(expected - video.currentTime);
+      if (correction.seekTo) {
+        video.currentTime = expected;
+      }
+      video.playbackRate = correction.playbackRate;
+      if (video.paused) {
+        video.play().catch(playError => console.warn('Unable to resume synchronized playback:', playError));
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, SYNC_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [syncPlayback, items, currentVideoIndex, clockOffsetRef, videoRef, holdsRef, finishPlay, switchToPendingQueue, showItem]);
+}
@@ -11,7 +11,7 @@ export default function manifest(): MetadataRoute.Manifest {
     scope: "/",
     start_url: "/display",
     display: "standalone",  // This removes the URL bar
-    orientation: "portrait",
+    orientation: "any",  // Each screen sets its own rotation in the admin panel
     id: "video-display-system",
     lang: "en",
     dir: "ltr",
@@ -88,6 +88,10 @@ export default function manifest(): MetadataRoute.Manifest {
           "video/quicktime": [".mov"],
           "video/x-msvideo": [".avi"],
           "video/ogg": [".ogv"],
+          "image/jpeg": [".jpg", ".jpeg"],
+          "image/png": [".png"],
+          "image/webp": [".webp"],
+          "image/svg+xml": [".svg"],
         },
       },
     ],
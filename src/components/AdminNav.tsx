@@ -0,0 +1,48 @@
+// src/components/AdminNav.tsx - Navigation between admin sections
+'use client';
+
+import Link from 'next/link';
+import { usePathname } from 'next/navigation';
+import { Activity, BarChart3, CalendarDays, CalendarRange, Clock, Film, Hand, Layers, LayoutTemplate, ListVideo, Monitor, Siren, Tv } from 'lucide-react';
+
+const sections = [
+  { href: '/admin', label: 'Videos', icon: Film },
+  { href: '/admin/playlists', label: 'Playlists', icon: ListVideo },
+  { href: '/admin/screens', label: 'Screens', icon: Monitor },
+  { href: '/admin/dayparts', label: 'Dayparting', icon: Clock },
+  { href: '/admin/layouts', label: 'Layouts', icon: LayoutTemplate },
+  { href: '/admin/overlays', label: 'Overlays', icon: Layers },
+  { href: '/admin/kiosk', label: 'Kiosk', icon: Hand },
+  { href: '/admin/timeline', label: 'Timeline', icon: CalendarRange },
+  { href: '/admin/calendars', label: 'Calendars', icon: CalendarDays },
+  { href: '/admin/devices', label: 'Devices', icon: Tv },
+  { href: '/admin/fleet', label: 'Fleet', icon: Activity },
+  { href: '/admin/reports', label: 'Reports', icon: BarChart3 },
+  { href: '/admin/overrides', label: 'Overrides', icon: Siren },
+];
+
+export default function AdminNav() {
+  const pathname = usePathname();
+
+  return (
+    <nav className="flex flex-wrap gap-2 mb-6">
+      {sections.map(({ href, label, icon: Icon }) => {
+        const isActive = pathname === href;
+        return (
+          <Link
+            key={href}
+            href={href}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg text-sm font-medium ${
+              isActive
+                ? 'bg-blue-600 text-white'
+                : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+            }`}
+          >
+            <Icon className="h-4 w-4" />
+            <span>{label}</span>
+          </Link>
+        );
+      })}
+    </nav>
+  );
+}
@@ -0,0 +1,165 @@
+// src/components/DataFeedFields.tsx - Admin form fields for configuring a data feed
+'use client';
+
+import { useState } from 'react';
+import { upload } from '@vercel/blob/client';
+import {
+  dataFeedApi, dataFeedUtils, DataFeedConfig, DataFeedFormat, DEFAULT_FEED_REFRESH_SECONDS, MIN_FEED_REFRESH_SECONDS
+} from '@/lib/dataFeeds';
+import { Upload } from 'lucide-react';
+
+interface DataFeedFieldsProps {
+  value: DataFeedConfig;
+  onChange: (updates: Partial<DataFeedConfig>) => void;
+}
+
+export default function DataFeedFields({ value, onChange }: DataFeedFieldsProps) {
+  const [uploading, setUploading] = useState(false);
+  const [testing, setTesting] = useState(false);
+  const [preview, setPreview] = useState<string[] | null>(null);
+  const [testError, setTestError] = useState('');
+
+  // Uploaded files are stored like media and then polled like any other feed URL
+  const uploadFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const format: DataFeedFormat = file.name.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+    const fileType = format === 'csv' ? 'text/csv' : 'application/json';
+
+    setUploading(true);
+    try {
+      const blob = await upload(file.name, file, {
+        access: 'public',
+        handleUploadUrl: '/api/upload',
+        contentType: fileType,
+        clientPayload: JSON.stringify({
+          fileSize: file.size,
+          fileType,
+          fileName: file.name,
+        }),
+      });
+      onChange({ feed_url: blob.url, feed_format: format });
+    } catch (error) {
+      console.error('Error uploading feed file:', error);
+      alert('Error uploading file: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const testFeed = async () => {
+    setTesting(true);
+    setTestError('');
+    setPreview(null);
+    try {
+      const feed = await dataFeedApi.fetchFeed(value);
+      const template = value.feed_template || '{{value}}';
+      setPreview(feed.rows.slice(0, 5).map(row => dataFeedUtils.renderTemplate(template, row)));
+    } catch (error) {
+      setTestError(error instanceof Error ? error.message : 'Unable to load feed');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Feed URL</label>
+        <div className="flex space-x-2">
+          <input
+            type="url"
+            value={value.feed_url || ''}
+            onChange={(e) => onChange({ feed_url: e.target.value })}
+            placeholder="https://example.com/queue.json"
+            className="flex-1 min-w-0 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+          <label
+            className={`flex items-center px-3 border border-gray-300 rounded-lg text-sm text-gray-700 ${
+              uploading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-gray-50'
+            }`}
+            title="Upload a JSON or CSV file"
+          >
+            <Upload className="h-4 w-4" />
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+              disabled={uploading}
+              onChange={(e) => uploadFile(e.target.files?.[0])}
+            />
+          </label>
+        </div>
+        {uploading && <p className="text-xs text-blue-600 mt-1">Uploading...</p>}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+          <select
+            value={value.feed_format || 'json'}
+            onChange={(e) => onChange({ feed_format: e.target.value as DataFeedFormat })}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="json">JSON</option>
+            <option value="csv">CSV</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Refresh (s)</label>
+          <input
+            type="number"
+            min={MIN_FEED_REFRESH_SECONDS}
+            value={value.feed_refresh_seconds || DEFAULT_FEED_REFRESH_SECONDS}
+            onChange={(e) => onChange({ feed_refresh_seconds: Number(e.target.value) || DEFAULT_FEED_REFRESH_SECONDS })}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      {(value.feed_format || 'json') === 'json' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Rows path (optional)</label>
+          <input
+            type="text"
+            value={value.feed_path || ''}
+            onChange={(e) => onChange({ feed_path: e.target.value })}
+            placeholder="data.items"
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+        <textarea
+          value={value.feed_template || ''}
+          onChange={(e) => onChange({ feed_template: e.target.value })}
+          rows={2}
+          placeholder="{{name}} - ${{price}}"
+          className="w-full p-2 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          One line per row. Use {'{{field}}'} for a column or JSON field ({'{{a.b}}'} for nested fields).
+        </p>
+      </div>
+
+      <div>
+        <button
+          type="button"
+          onClick={testFeed}
+          disabled={testing || !value.feed_url}
+          className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          {testing ? 'Loading...' : 'Test feed'}
+        </button>
+        {testError && <p className="text-xs text-red-600 mt-2">{testError}</p>}
+        {preview && (
+          <div className="mt-2 p-2 bg-gray-50 border border-gray-200 rounded text-xs font-mono text-gray-700">
+            {preview.length === 0 ? 'The feed has no rows' : preview.map((line, index) => <p key={index}>{line}</p>)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+// src/components/DataFeedWidget.tsx - Polls a data feed and renders its rows through a template
+'use client';
+
+import { useState, useEffect } from 'react';
+import { dataFeedApi, dataFeedUtils, CachedFeed, DataFeedConfig } from '@/lib/dataFeeds';
+
+interface DataFeedWidgetProps {
+  config: DataFeedConfig;
+  className?: string;
+}
+
+export default function DataFeedWidget({ config, className = '' }: DataFeedWidgetProps) {
+  const [feed, setFeed] = useState<CachedFeed | null>(null);
+  const [isStale, setIsStale] = useState(false);
+  const { feed_url, feed_format, feed_path, feed_refresh_seconds } = config;
+
+  useEffect(() => {
+    if (!feed_url) return;
+
+    // Show the last good copy straight away, then refresh on the interval
+    setFeed(dataFeedUtils.getCachedFeed(feed_url));
+
+    const loadFeed = async () => {
+      try {
+        setFeed(await dataFeedApi.fetchFeed({ feed_url, feed_format, feed_path }));
+        setIsStale(false);
+      } catch (error) {
+        // Keep rendering the last good data
+        console.warn('Unable to refresh data feed:', feed_url, error);
+        setIsStale(true);
+      }
+    };
+
+    loadFeed();
+    const interval = setInterval(loadFeed, dataFeedUtils.getRefreshMs({ feed_refresh_seconds }));
+    return () => clearInterval(interval);
+  }, [feed_url, feed_format, feed_path, feed_refresh_seconds]);
+
+  if (!feed || feed.rows.length === 0) return null;
+
+  const template = config.feed_template || '{{value}}';
+
+  return (
+    <div className={className} title={isStale ? `Offline - showing data from ${new Date(feed.fetched_at).toLocaleString()}` : undefined}>
+      {feed.rows.map((row, index) => (
+        <div key={index} className="whitespace-pre-line">
+          {dataFeedUtils.renderTemplate(template, row)}
+        </div>
+      ))}
+    </div>
+  );
+}
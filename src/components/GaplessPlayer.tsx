@@ -0,0 +1,187 @@
+// src/components/GaplessPlayer.tsx - Double-buffered video player without gaps between clips
+'use client';
+
+import { useState, useRef, useLayoutEffect, RefObject } from 'react';
+import { mediaUtils } from '@/lib/supabase';
+import { PlaybackItem, TransitionType, TRANSITION_DURATION_MS } from '@/lib/playlists';
+import { screenUtils, FitMode } from '@/lib/screens';
+import { syncUtils, CropRegion } from '@/lib/sync';
+
+interface GaplessPlayerProps {
+  items: PlaybackItem[];
+  currentIndex: number;
+  // Always points at the visible element, so callers can attach listeners and control playback.
+  // Null while an image or web page is showing - callers time those themselves
+  videoRef: RefObject<HTMLVideoElement | null>;
+  fit?: FitMode;
+  // Video walls: show only this part of each item, stretched to fill the screen
+  crop?: CropRegion | null;
+}
+
+type Slot = 0 | 1;
+
+// How the incoming (visible) and outgoing (hidden) layers animate for each transition
+const transitionStyles = (transition: TransitionType, isActive: boolean): string => {
+  switch (transition) {
+    case 'crossfade':
+      // The new clip fades in over the last frame of the old one
+      return isActive
+        ? `opacity ${TRANSITION_DURATION_MS}ms ease-in-out`
+        : `opacity 0s linear ${TRANSITION_DURATION_MS}ms`;
+    case 'fade':
+      // Fade the old clip to black, then the new clip in from black
+      return isActive
+        ? `opacity ${TRANSITION_DURATION_MS / 2}ms ease-in ${TRANSITION_DURATION_MS / 2}ms`
+        : `opacity ${TRANSITION_DURATION_MS / 2}ms ease-out`;
+    default:
+      return 'none';
+  }
+};
+
+export default function GaplessPlayer({ items, currentIndex, videoRef, fit = 'contain', crop }: GaplessPlayerProps) {
+  const firstRef = useRef<HTMLVideoElement>(null);
+  const secondRef = useRef<HTMLVideoElement>(null);
+  const slotKeysRef = useRef<[string | null, string | null]>([null, null]);
+  const activeSlotRef = useRef<Slot>(0);
+  const preloadTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [activeSlot, setActiveSlot] = useState<Slot>(0);
+  const [transition, setTransition] = useState<TransitionType>('cut');
+  const [slide, setSlide] = useState<PlaybackItem | null>(null);
+
+  // Runs before the parent's effects so videoRef already points at the new element when they attach listeners
+  useLayoutEffect(() => {
+    const elements = [firstRef.current, secondRef.current];
+    const current = items[currentIndex];
+    if (!current || !elements[0] || !elements[1]) return;
+
+    const loadInto = (slot: Slot, item: PlaybackItem) => {
+      const element = elements[slot]!;
+      if (slotKeysRef.current[slot] === item.key && element.src === new URL(item.video.file_url, window.location.href).href) {
+        // Already buffered - just rewind it
+        element.pause();
+        element.currentTime = 0;
+        return;
+      }
+      slotKeysRef.current[slot] = item.key;
+      element.src = item.video.file_url;
+      element.load();
+    };
+
+    if (preloadTimeoutRef.current) {
+      clearTimeout(preloadTimeoutRef.current);
+      preloadTimeoutRef.current = null;
+    }
+
+    const previousSlot = activeSlotRef.current;
+    const following = items.length > 1 ? items[(currentIndex + 1) % items.length] : null;
+
+    if (mediaUtils.isSlide(current.video)) {
+      // Slides sit above the video slots; keep buffering the next clip underneath
+      elements[previousSlot]!.pause();
+      videoRef.current = null;
+      setSlide(current);
+      setTransition(current.transition || 'cut');
+
+      if (following && !mediaUtils.isSlide(following.video)) {
+        const bufferedSlot = slotKeysRef.current.indexOf(following.key);
+        const targetSlot: Slot = bufferedSlot !== -1 ? bufferedSlot as Slot : previousSlot === 0 ? 1 : 0;
+        loadInto(targetSlot, following);
+      }
+      return;
+    }
+
+    let nextActive = previousSlot;
+    if (slotKeysRef.current[previousSlot] !== current.key) {
+      const otherSlot: Slot = previousSlot === 0 ? 1 : 0;
+      if (slotKeysRef.current[otherSlot] === current.key && !elements[otherSlot]!.error) {
+        // The next clip is already buffered in the hidden element - swap to it
+        nextActive = otherSlot;
+        elements[previousSlot]!.pause();
+      } else {
+        loadInto(previousSlot, current);
+      }
+    }
+
+    const itemTransition = nextActive !== previousSlot ? current.transition || 'cut' : 'cut';
+    activeSlotRef.current = nextActive;
+    videoRef.current = elements[nextActive];
+    setActiveSlot(nextActive);
+    setTransition(itemTransition);
+    setSlide(null);
+
+    // Buffer the following clip once the outgoing one has finished its transition
+    const hiddenSlot: Slot = nextActive === 0 ? 1 : 0;
+    if (following && !mediaUtils.isSlide(following.video)) {
+      preloadTimeoutRef.current = setTimeout(
+        () => loadInto(hiddenSlot, following),
+        itemTransition === 'cut' ? 0 : TRANSITION_DURATION_MS
+      );
+    }
+  }, [items, currentIndex, videoRef]);
+
+  useLayoutEffect(() => {
+    return () => {
+      if (preloadTimeoutRef.current) clearTimeout(preloadTimeoutRef.current);
+    };
+  }, []);
+
+  // Each screen of a wall maps its crop region exactly, so the pieces line up
+  const cropped = crop && !syncUtils.isFullFrame(crop) ? crop : null;
+  const fitStyle = screenUtils.getFitStyle(cropped ? 'stretch' : fit);
+
+  return (
+    <div className="absolute inset-0 overflow-hidden">
+      <div className={cropped ? undefined : 'absolute inset-0'} style={cropped ? syncUtils.getCropStyle(cropped) : undefined}>
+        {([firstRef, secondRef] as const).map((ref, slot) => {
+          const isActive = slot === activeSlot && !slide;
+          return (
+            <video
+              key={slot}
+              ref={ref}
+              className="absolute inset-0 w-full h-full"
+              style={{
+                ...fitStyle,
+                opacity: isActive ? 1 : 0,
+                zIndex: isActive ? 1 : 0,
+                transition: transitionStyles(transition, isActive),
+              }}
+              muted
+              playsInline
+              preload="auto"
+              crossOrigin="anonymous"
+            />
+          );
+        })}
+
+        {slide && (
+          <div
+            key={slide.key}
+            className="absolute inset-0"
+            style={{
+              zIndex: 2,
+              animation: transition === 'cut' ? undefined : `slide-fade-in ${TRANSITION_DURATION_MS}ms ease-in-out`,
+            }}
+          >
+            {mediaUtils.getMediaType(slide.video) === 'image' ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={slide.video.file_url}
+                alt={slide.video.title}
+                className="absolute inset-0 w-full h-full"
+                style={fitStyle}
+              />
+            ) : (
+              // Web pages cannot reach the display's storage or navigate it
+              <iframe
+                src={slide.video.file_url}
+                title={slide.video.title}
+                className="absolute inset-0 w-full h-full border-0 bg-white"
+                sandbox="allow-scripts"
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+// src/components/KioskMenu.tsx - Touch menu shown over the attract loop: pick a category, then a video
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Video, mediaUtils } from '@/lib/supabase';
+import { playlistUtils, PlaybackItem } from '@/lib/playlists';
+import { playLogUtils, PlayOutcome } from '@/lib/playLogs';
+import { kioskUtils, KioskMenu as Menu } from '@/lib/kiosk';
+import { clockUtils } from '@/lib/clock';
+import { FitMode } from '@/lib/screens';
+import GaplessPlayer from '@/components/GaplessPlayer';
+import { ArrowLeft, Play, X } from 'lucide-react';
+
+interface KioskMenuProps {
+  menu: Menu;
+  videos: Video[];
+  screenId?: string | null;
+  deviceId?: string | null;
+  fit?: FitMode;
+  // Idle timeout or "Back to start": the display resumes its attract loop
+  onClose: () => void;
+}
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.round(seconds % 60)).padStart(2, '0')}`;
+
+export default function KioskMenu({ menu, videos, screenId, deviceId, fit, onClose }: KioskMenuProps) {
+  const [categoryId, setCategoryId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<PlaybackItem | null>(null);
+  const [lastTouch, setLastTouch] = useState(() => Date.now());
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const playRef = useRef<{ item: PlaybackItem; startedAt: string } | null>(null);
+
+  const categories = kioskUtils.getVisibleCategories(menu, videos);
+  // A single category opens straight away
+  const category = categories.find(c => c.id === categoryId) || (categories.length === 1 ? categories[0] : null);
+  const categoryVideos = category ? kioskUtils.getCategoryVideos(category, videos) : [];
+
+  // A new array every render would make the player rewind the clip
+  const selectedItems = useMemo(() => (selected ? [selected] : []), [selected]);
+
+  // Back to the attract loop after a while without a touch; never while a chosen video plays
+  useEffect(() => {
+    if (selected) return;
+
+    const timeout = setTimeout(onClose, kioskUtils.getIdleTimeoutMs(menu));
+    return () => clearTimeout(timeout);
+  }, [selected, lastTouch, menu, onClose]);
+
+  // Plays picked here are logged as touch plays, separate from the scheduled loop
+  const finishPlay = useCallback((outcome: PlayOutcome, item?: PlaybackItem, errorMessage?: string) => {
+    const play = playRef.current;
+    playRef.current = null;
+
+    const playedItem = play?.item ?? (outcome === 'errored' ? item : undefined);
+    if (!playedItem || clockUtils.isSimulated()) return;
+
+    console.log(`Touch play ${outcome}:`, playedItem.video.title);
+    playLogUtils.bufferPlay(playLogUtils.createPlay({
+      screen_id: screenId ?? null,
+      device_id: deviceId ?? null,
+      video_id: playedItem.video.id,
+      playlist_item_id: null,
+      started_at: play?.startedAt ?? new Date().toISOString(),
+      outcome,
+      error_message: errorMessage ?? null,
+      source: 'touch',
+    }));
+  }, [screenId, deviceId]);
+
+  // Play the chosen video once, then return to the menu
+  useEffect(() => {
+    const item = selected;
+    if (!item) return;
+
+    if (mediaUtils.isSlide(item.video)) {
+      playRef.current = { item, startedAt: new Date().toISOString() };
+      const stopTimer = playlistUtils.startSlideTimer(playlistUtils.getSlideDuration(item), () => false, () => {
+        finishPlay('completed');
+        setSelected(null);
+      });
+
+      return () => {
+        finishPlay('skipped');
+        stopTimer();
+      };
+    }
+
+    const video = videoRef.current;
+    if (!video) return;
+
+    const handlePlaying = () => {
+      if (!playRef.current) {
+        playRef.current = { item, startedAt: new Date().toISOString() };
+      }
+    };
+
+    const handleEnded = () => {
+      finishPlay('completed');
+      setSelected(null);
+    };
+
+    const handleError = () => {
+      finishPlay('errored', item, video.error?.message || 'Video error');
+      setSelected(null);
+    };
+
+    // A viewer asked for this one, so it plays with sound where the browser allows it
+    const handleCanPlay = () => {
+      video.muted = false;
+      video.play().catch(() => {
+        video.muted = true;
+        video.play().catch(playError => console.warn('Kiosk playback error:', playError));
+      });
+    };
+
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('error', handleError);
+    video.addEventListener('canplay', handleCanPlay);
+
+    if (video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+      handleCanPlay();
+    }
+
+    return () => {
+      finishPlay('skipped');
+      video.pause();
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('error', handleError);
+      video.removeEventListener('canplay', handleCanPlay);
+    };
+  }, [selected, finishPlay]);
+
+  return (
+    <div
+      className="absolute inset-0 z-30 bg-gray-900 text-white flex flex-col"
+      onPointerDown={() => setLastTouch(Date.now())}
+    >
+      {selected ? (
+        <>
+          <GaplessPlayer items={selectedItems} currentIndex={0} videoRef={videoRef} fit={fit} />
+          <button
+            onClick={() => setSelected(null)}
+            className="absolute top-6 left-6 z-10 flex items-center space-x-2 px-5 py-3 bg-black bg-opacity-60 rounded-full text-lg"
+          >
+            <ArrowLeft className="w-6 h-6" />
+            <span>Back</span>
+          </button>
+        </>
+      ) : (
+        <>
+          <div className="flex items-center justify-between px-8 py-6 border-b border-gray-700">
+            <div className="flex items-center space-x-4">
+              {category && categories.length > 1 && (
+                <button
+                  onClick={() => setCategoryId(null)}
+                  className="p-3 bg-gray-800 rounded-full"
+                  aria-label="All categories"
+                >
+                  <ArrowLeft className="w-6 h-6" />
+                </button>
+              )}
+              <h1 className="text-3xl font-bold">{category?.name || menu.name}</h1>
+            </div>
+            <button
+              onClick={onClose}
+              className="flex items-center space-x-2 px-5 py-3 bg-gray-800 rounded-full text-lg"
+            >
+              <X className="w-6 h-6" />
+              <span>Close</span>
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-8">
+            {categories.length === 0 ? (
+              <p className="text-center text-xl text-gray-400">Nothing to show right now.</p>
+            ) : !category ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                {categories.map(c => (
+                  <button
+                    key={c.id}
+                    onClick={() => setCategoryId(c.id)}
+                    className="p-8 bg-gray-800 rounded-2xl text-left active:bg-gray-700"
+                  >
+                    <p className="text-2xl font-semibold mb-2">{c.name}</p>
+                    <p className="text-gray-400">{kioskUtils.getCategoryVideos(c, videos).length} item(s)</p>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                {categoryVideos.map(video => (
+                  <button
+                    key={video.id}
+                    onClick={() => setSelected(kioskUtils.toPlaybackItem(video))}
+                    className="flex items-center space-x-4 p-6 bg-gray-800 rounded-2xl text-left active:bg-gray-700"
+                  >
+                    <span className="p-4 bg-blue-600 rounded-full flex-shrink-0">
+                      <Play className="w-6 h-6" />
+                    </span>
+                    <span>
+                      <span className="block text-xl font-semibold">{video.title}</span>
+                      {mediaUtils.getDuration(video) > 0 && (
+                        <span className="block text-gray-400">{formatDuration(mediaUtils.getDuration(video))}</span>
+                      )}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
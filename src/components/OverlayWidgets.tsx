@@ -0,0 +1,139 @@
+// src/components/OverlayWidgets.tsx - Draws overlay widgets over the display's content
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Screen } from '@/lib/screens';
+import type { ScheduleCalendar } from '@/lib/calendars';
+import { overlayUtils, OverlayWidget, OverlayPosition, TickerMessage } from '@/lib/overlays';
+import DataFeedWidget from '@/components/DataFeedWidget';
+import { clockUtils } from '@/lib/clock';
+
+interface OverlayWidgetsProps {
+  widgets: OverlayWidget[];
+  messages: TickerMessage[];
+  screen: Screen | null;
+  calendars: ScheduleCalendar[];
+}
+
+const positionClasses: Record<OverlayPosition, string> = {
+  top: 'top-0 inset-x-0 flex flex-col',
+  bottom: 'bottom-0 inset-x-0 flex flex-col',
+  'top-left': 'top-4 left-4 flex flex-col items-start gap-2',
+  'top-right': 'top-4 right-4 flex flex-col items-end gap-2',
+  'bottom-left': 'bottom-4 left-4 flex flex-col items-start gap-2',
+  'bottom-right': 'bottom-4 right-4 flex flex-col items-end gap-2',
+  center: 'inset-0 flex flex-col items-center justify-center gap-2',
+};
+
+// Same reading speed as the layout ticker
+const TICKER_SECONDS_PER_CHARACTER = 0.25;
+
+function OverlayItem({ widget, messages, timezone, now }: {
+  widget: OverlayWidget;
+  messages: TickerMessage[];
+  timezone?: string;
+  now: Date;
+}) {
+  const style = {
+    fontSize: `${widget.font_size}px`,
+    color: widget.text_color,
+    backgroundColor: widget.background_color || undefined,
+  };
+  const isBar = widget.position === 'top' || widget.position === 'bottom';
+
+  switch (widget.widget_type) {
+    case 'ticker': {
+      const text = overlayUtils.getTickerText(widget.id, messages);
+      if (!text) return null;
+      return (
+        <div className={`overflow-hidden py-2 font-semibold ${isBar ? 'w-full' : 'max-w-xl rounded'}`} style={style}>
+          {/* Keyed by the text so only a changed message list restarts the scroll */}
+          <span
+            key={text}
+            className="ticker-track"
+            style={{ ['--ticker-duration' as string]: `${Math.max(10, text.length * TICKER_SECONDS_PER_CHARACTER)}s` }}
+          >
+            {text}
+          </span>
+        </div>
+      );
+    }
+
+    case 'clock':
+      return (
+        <div className={`px-4 py-2 text-center tabular-nums ${isBar ? 'w-full' : 'rounded'}`} style={style}>
+          <span className="font-bold">
+            {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone })}
+          </span>
+          <span className="ml-3 opacity-80" style={{ fontSize: '0.6em' }}>
+            {now.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', timeZone: timezone })}
+          </span>
+        </div>
+      );
+
+    case 'logo':
+      if (!widget.image_url) return null;
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={widget.image_url}
+          alt={widget.name}
+          className={isBar ? 'mx-auto' : 'rounded'}
+          style={{ height: `${widget.font_size}px`, backgroundColor: widget.background_color || undefined }}
+        />
+      );
+
+    case 'text':
+      return (
+        <div className={`px-4 py-2 whitespace-pre-line ${isBar ? 'w-full text-center' : 'rounded'}`} style={style}>
+          {widget.text}
+        </div>
+      );
+
+    case 'feed':
+      return (
+        <div className={`px-4 py-2 ${isBar ? 'w-full text-center' : 'rounded'}`} style={style}>
+          <DataFeedWidget config={widget} />
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
+
+export default function OverlayWidgets({ widgets, messages, screen, calendars }: OverlayWidgetsProps) {
+  const [now, setNow] = useState(() => clockUtils.now());
+  const hasClock = widgets.some(widget => widget.widget_type === 'clock');
+
+  // Clocks need every second; otherwise just re-check schedules
+  useEffect(() => {
+    const interval = setInterval(() => setNow(clockUtils.now()), hasClock ? 1000 : 30000);
+    return () => clearInterval(interval);
+  }, [hasClock]);
+
+  const visible = widgets.filter(widget => overlayUtils.isShowing(widget, screen, calendars, now));
+  if (visible.length === 0) return null;
+
+  const positions = Array.from(new Set(visible.map(widget => widget.position)));
+
+  return (
+    <div className="absolute inset-0 z-30 pointer-events-none">
+      {positions.map(position => (
+        <div key={position} className={`absolute ${positionClasses[position]}`}>
+          {visible
+            .filter(widget => widget.position === position)
+            .map(widget => (
+              <OverlayItem
+                key={widget.id}
+                widget={widget}
+                messages={messages}
+                timezone={screen?.timezone}
+                now={now}
+              />
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,47 @@
+// src/components/OverrideDisplay.tsx - Full-screen emergency/priority override shown on displays
+'use client';
+
+import { Override } from '@/lib/overrides';
+
+interface OverrideDisplayProps {
+  override: Override;
+}
+
+export default function OverrideDisplay({ override }: OverrideDisplayProps) {
+  return (
+    <div
+      className="absolute inset-0 z-40 flex flex-col items-center justify-center overflow-hidden"
+      style={{ backgroundColor: override.background_color, color: override.text_color }}
+    >
+      {override.content_type === 'image' && override.media_url && (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={override.media_url} alt={override.title} className="w-full h-full object-contain" />
+      )}
+
+      {override.content_type === 'video' && override.media_url && (
+        <video
+          key={override.id}
+          src={override.media_url}
+          className="w-full h-full object-contain"
+          autoPlay
+          loop
+          muted
+          playsInline
+        />
+      )}
+
+      {override.content_type === 'text' ? (
+        <div className="max-w-5xl px-12 text-center">
+          <h1 className="text-6xl font-bold mb-8">{override.title}</h1>
+          {override.message && (
+            <p className="text-4xl leading-snug whitespace-pre-line">{override.message}</p>
+          )}
+        </div>
+      ) : override.message && (
+        <div className="absolute bottom-0 inset-x-0 px-8 py-6 bg-black bg-opacity-60 text-center text-3xl font-semibold text-white">
+          {override.message}
+        </div>
+      )}
+    </div>
+  );
+}
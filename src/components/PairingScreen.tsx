@@ -0,0 +1,127 @@
+// src/components/PairingScreen.tsx - Shown on displays that have not been paired yet
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { deviceApi, deviceUtils, Device } from '@/lib/devices';
+import { Loader, AlertCircle } from 'lucide-react';
+
+interface PairingScreenProps {
+  onPaired: (device: Device) => void;
+}
+
+// Fallback polling in case realtime is not enabled for the devices table
+const PAIRING_POLL_INTERVAL = 10000;
+
+export default function PairingScreen({ onPaired }: PairingScreenProps) {
+  const [device, setDevice] = useState<Device | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const requestCode = useCallback(async () => {
+    try {
+      setError(null);
+      const pending = await deviceApi.createPairingRequest();
+      console.log('Waiting to be paired with code:', pending.pairing_code);
+      setDevice(pending);
+    } catch (err) {
+      console.error('Error requesting pairing code:', err);
+      setError('Unable to request a pairing code. Check your internet connection.');
+    }
+  }, []);
+
+  useEffect(() => {
+    requestCode();
+  }, [requestCode]);
+
+  // Wait for an admin to claim the code
+  useEffect(() => {
+    if (!device) return;
+
+    const checkClaimed = async () => {
+      try {
+        const latest = await deviceApi.getDevice(device.id);
+        if (latest?.status === 'paired' && latest.screen_id) {
+          console.log('Device paired to screen:', latest.screen_id);
+          // The token is never read back from the database, so it comes from the pairing request
+          if (device.device_token) deviceUtils.storeToken(device.device_token);
+          onPaired(latest);
+        }
+      } catch (err) {
+        console.warn('Error checking pairing status:', err);
+      }
+    };
+
+    const subscription = deviceApi.subscribeToDevice(device.id, () => {
+      checkClaimed();
+    });
+    const pollInterval = setInterval(checkClaimed, PAIRING_POLL_INTERVAL);
+
+    // Request a fresh code once this one expires
+    const expiresIn = device.pairing_expires_at
+      ? new Date(device.pairing_expires_at).getTime() - Date.now()
+      : null;
+    const expiryTimeout = expiresIn !== null
+      ? setTimeout(() => {
+          console.log('Pairing code expired, requesting a new one');
+          if (device.device_token) deviceApi.withdrawPairingRequest(device.device_token).catch(() => {});
+          requestCode();
+        }, Math.max(expiresIn, 0))
+      : null;
+
+    return () => {
+      subscription.unsubscribe();
+      clearInterval(pollInterval);
+      if (expiryTimeout) clearTimeout(expiryTimeout);
+    };
+  }, [device, onPaired, requestCode]);
+
+  if (error) {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center">
+        <div className="text-center text-white max-w-2xl px-8">
+          <AlertCircle className="w-16 h-16 text-red-500 mb-4 mx-auto" />
+          <p className="text-lg mb-6">{error}</p>
+          <button
+            onClick={requestCode}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg"
+          >
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!device?.pairing_code) {
+    return (
+      <div className="fixed inset-0 bg-black flex items-center justify-center">
+        <div className="text-center text-white">
+          <Loader className="w-12 h-12 animate-spin mb-4 mx-auto" />
+          <p className="text-xl">Requesting pairing code...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black flex items-center justify-center">
+      <div className="text-center text-white px-8">
+        <h1 className="text-3xl font-bold mb-2">Pair this display</h1>
+        <p className="text-gray-400 mb-8">
+          Scan the code or enter it in the admin panel under Devices
+        </p>
+
+        <div className="inline-block bg-white p-4 rounded-lg mb-8">
+          <QRCodeSVG value={deviceUtils.getPairingUrl(device.pairing_code)} size={220} />
+        </div>
+
+        <p className="text-6xl font-mono font-bold tracking-[0.3em] mb-4">
+          {device.pairing_code}
+        </p>
+        <p className="text-sm text-gray-500">
+          {window.location.origin}/admin/devices
+        </p>
+      </div>
+    </div>
+  );
+}
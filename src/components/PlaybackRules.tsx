@@ -0,0 +1,170 @@
+// src/components/PlaybackRules.tsx - Frequency, weighting and share-of-voice rules for a video
+'use client';
+
+import { useState } from 'react';
+import { Video } from '@/lib/supabase';
+import { rotationUtils, PlaybackRules as Rules } from '@/lib/rotation';
+import { Gauge, X, Save } from 'lucide-react';
+
+interface PlaybackRulesProps {
+  video: Video;
+  onUpdate: (videoId: string, updates: Partial<Video>) => void;
+  onClose: () => void;
+}
+
+const toNumber = (value: string) => (value ? Number(value) : null);
+
+export default function PlaybackRules({ video, onUpdate, onClose }: PlaybackRulesProps) {
+  const [rules, setRules] = useState<Rules>({
+    play_weight: video.play_weight ?? 1,
+    min_plays_per_hour: video.min_plays_per_hour ?? null,
+    max_plays_per_day: video.max_plays_per_day ?? null,
+    no_back_to_back: video.no_back_to_back ?? false,
+    share_of_voice: video.share_of_voice ?? null,
+  });
+  const [saving, setSaving] = useState(false);
+
+  const update = (updates: Partial<Rules>) => setRules(prev => ({ ...prev, ...updates }));
+
+  const handleSave = async () => {
+    if (rules.share_of_voice !== null && rules.share_of_voice !== undefined &&
+        (rules.share_of_voice <= 0 || rules.share_of_voice > 100)) {
+      alert('Share of voice must be between 0 and 100%');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onUpdate(video.id, {
+        ...rules,
+        play_weight: Math.max(1, Math.round(rules.play_weight || 1)),
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error updating playback rules:', error);
+      alert('Error saving playback rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const summary = rotationUtils.describe(rules);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center space-x-2">
+            <Gauge className="w-5 h-5" />
+            <span>Playback Rules: {video.title}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Current Status */}
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+            <h3 className="font-medium mb-2">Current Status</h3>
+            <p className="text-sm text-gray-600">
+              {summary ? `🎯 ${summary}` : '🔁 Plays once per loop, in sequence order'}
+            </p>
+          </div>
+
+          {/* Frequency */}
+          <div className="mb-6 grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Weight</label>
+              <input
+                type="number"
+                min={1}
+                value={rules.play_weight ?? 1}
+                onChange={(e) => update({ play_weight: Number(e.target.value) || 1 })}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">3 plays it three times as often as a video with weight 1</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">At least (plays per hour)</label>
+              <input
+                type="number"
+                min={1}
+                value={rules.min_plays_per_hour ?? ''}
+                placeholder="No minimum"
+                onChange={(e) => update({ min_plays_per_hour: toNumber(e.target.value) })}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">At most (plays per day)</label>
+              <input
+                type="number"
+                min={1}
+                value={rules.max_plays_per_day ?? ''}
+                placeholder="No maximum"
+                onChange={(e) => update({ max_plays_per_day: toNumber(e.target.value) })}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Counted per screen from midnight</p>
+            </div>
+          </div>
+
+          <div className="mb-6">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={!!rules.no_back_to_back}
+                onChange={(e) => update({ no_back_to_back: e.target.checked })}
+              />
+              <span className="text-sm text-gray-700">Never play back-to-back</span>
+            </label>
+            <p className="text-xs text-gray-500 mt-1 ml-6">
+              Another item plays in between as long as this video makes up no more than half of the rotation.
+              With a higher weight it still repeats sometimes: weight 3 against one other video plays A B A A.
+            </p>
+          </div>
+
+          {/* Share of Voice */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Contracted Share of Voice (%)</label>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step="0.1"
+              value={rules.share_of_voice ?? ''}
+              placeholder="None"
+              onChange={(e) => update({ share_of_voice: toNumber(e.target.value) })}
+              className="w-40 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Not enforced on the display. Play Reports compare it with the share of play time actually delivered.
+            </p>
+          </div>
+
+          {/* Save/Cancel Buttons */}
+          <div className="flex space-x-4 pt-4 border-t">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center space-x-2 py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Rules'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+// src/components/ScheduleWarnings.tsx - Upcoming schedule gaps and problems for the admin panel
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Video } from '@/lib/supabase';
+import { Screen, VideoAssignment } from '@/lib/screens';
+import { playlistApi, Playlist, PlaylistItem } from '@/lib/playlists';
+import type { ScheduleCalendar } from '@/lib/calendars';
+import { scheduleAnalysis, ScheduleWarningKind, ANALYSIS_RANGES } from '@/lib/scheduleAnalysis';
+import { AlertTriangle, CheckCircle, Clock, Repeat, XCircle } from 'lucide-react';
+
+interface ScheduleWarningsProps {
+  videos: Video[];
+  screens: Screen[];
+  assignments: VideoAssignment[];
+  calendars: ScheduleCalendar[];
+}
+
+const MAX_SHOWN = 50;
+
+const kindStyles: Record<ScheduleWarningKind, { icon: typeof AlertTriangle; className: string }> = {
+  invalid: { icon: XCircle, className: 'text-red-600' },
+  expired: { icon: Clock, className: 'text-gray-500' },
+  gap: { icon: AlertTriangle, className: 'text-amber-600' },
+  'short-loop': { icon: Repeat, className: 'text-blue-600' },
+};
+
+export default function ScheduleWarnings({ videos, screens, assignments, calendars }: ScheduleWarningsProps) {
+  const [days, setDays] = useState(ANALYSIS_RANGES[0]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [itemsByPlaylist, setItemsByPlaylist] = useState<Record<string, PlaylistItem[]>>({});
+
+  // Playlists are optional - without them screens are analysed from their assigned videos
+  useEffect(() => {
+    const loadPlaylists = async () => {
+      try {
+        const playlistData = await playlistApi.getPlaylists();
+        const items = await Promise.all(playlistData.map(playlist => playlistApi.getItems(playlist.id)));
+        setPlaylists(playlistData);
+        setItemsByPlaylist(Object.fromEntries(playlistData.map((playlist, index) => [playlist.id, items[index]])));
+      } catch (error) {
+        console.warn('Unable to load playlists for schedule analysis:', error);
+      }
+    };
+
+    loadPlaylists();
+  }, []);
+
+  const warnings = useMemo(() => {
+    const targets = scheduleAnalysis.getTargets(screens, playlists, itemsByPlaylist);
+    return scheduleAnalysis.analyze(videos, targets, assignments, calendars, days);
+  }, [videos, screens, assignments, calendars, playlists, itemsByPlaylist, days]);
+
+  return (
+    <div className="mb-8 bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">
+          Schedule Warnings {warnings.length > 0 && `(${warnings.length})`}
+        </h2>
+        <div className="flex space-x-2">
+          {ANALYSIS_RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => setDays(range)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium border ${
+                days === range
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {warnings.length === 0 ? (
+        <div className="p-6 flex items-center space-x-2 text-green-700">
+          <CheckCircle className="h-5 w-5" />
+          <span className="text-sm">Every screen has something to play for the next {days} days.</span>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-100 max-h-80 overflow-y-auto">
+          {warnings.slice(0, MAX_SHOWN).map((warning, index) => {
+            const { icon: Icon, className } = kindStyles[warning.kind];
+            return (
+              <li key={index} className="px-6 py-2 flex items-start space-x-2 text-sm">
+                <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${className}`} />
+                <span className="text-gray-700">{warning.message}</span>
+              </li>
+            );
+          })}
+          {warnings.length > MAX_SHOWN && (
+            <li className="px-6 py-2 text-sm text-gray-500">
+              and {warnings.length - MAX_SHOWN} more
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+// src/components/ScreenCommands.tsx - Send remote commands to a screen and show acknowledgements
+'use client';
+
+import { useState } from 'react';
+import { Video } from '@/lib/supabase';
+import { Screen } from '@/lib/screens';
+import { Device } from '@/lib/devices';
+import { commandApi, commandUtils, DisplayCommand, DisplayCommandType, DisplayCommandPayload } from '@/lib/commands';
+import {
+  RotateCw, SkipForward, Pause, Play, Trash2, Download, Eye, CheckCircle, XCircle, Clock
+} from 'lucide-react';
+
+interface ScreenCommandsProps {
+  screen: Screen;
+  devices: Device[];
+  videos: Video[];
+  commands: DisplayCommand[];
+}
+
+const buttons: { command: DisplayCommandType; label: string; icon: typeof RotateCw }[] = [
+  { command: 'reload', label: 'Reload', icon: RotateCw },
+  { command: 'skip', label: 'Skip', icon: SkipForward },
+  { command: 'pause', label: 'Pause', icon: Pause },
+  { command: 'resume', label: 'Resume', icon: Play },
+  { command: 'clear_cache', label: 'Clear cache', icon: Trash2 },
+  { command: 'update_sw', label: 'Update', icon: Download },
+  { command: 'identify', label: 'Identify', icon: Eye },
+];
+
+export default function ScreenCommands({ screen, devices, videos, commands }: ScreenCommandsProps) {
+  const [sending, setSending] = useState<DisplayCommandType | null>(null);
+  const [jumpVideoId, setJumpVideoId] = useState('');
+
+  const sendCommand = async (command: DisplayCommandType, payload: DisplayCommandPayload = {}) => {
+    if (command === 'clear_cache' && !confirm(`Clear all cached videos on "${screen.name}"? They will be downloaded again.`)) {
+      return;
+    }
+
+    setSending(command);
+    try {
+      await commandApi.sendCommand(screen.id, command, payload, devices.map(d => d.id));
+    } catch (error) {
+      console.error('Error sending command:', error);
+      alert('Error sending command: ' + (error instanceof Error ? error.message : 'Unknown error'));
+    } finally {
+      setSending(null);
+    }
+  };
+
+  const deviceName = (deviceId?: string | null) =>
+    deviceId ? devices.find(d => d.id === deviceId)?.name || 'Display' : 'All displays';
+  const videoTitle = (videoId?: string) => videos.find(v => v.id === videoId)?.title;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <div className="flex flex-wrap gap-1">
+        {buttons.map(({ command, label, icon: Icon }) => (
+          <button
+            key={command}
+            onClick={() => sendCommand(command)}
+            disabled={sending !== null}
+            className="flex items-center space-x-1 px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+            title={label}
+          >
+            <Icon className={`h-3 w-3 ${sending === command ? 'animate-pulse' : ''}`} />
+            <span>{label}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2 mt-2">
+        <select
+          value={jumpVideoId}
+          onChange={(e) => setJumpVideoId(e.target.value)}
+          className="flex-1 p-1 text-xs border border-gray-300 rounded"
+        >
+          <option value="">Jump to video...</option>
+          {videos.filter(v => v.is_active).map(video => (
+            <option key={video.id} value={video.id}>{video.title}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => sendCommand('jump', { video_id: jumpVideoId })}
+          disabled={!jumpVideoId || sending !== null}
+          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          Jump
+        </button>
+      </div>
+
+      {commands.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs">
+          {commands.slice(0, 5).map(command => {
+            const expired = command.status === 'pending' && commandUtils.isExpired(command);
+            return (
+              <li key={command.id} className="flex items-start space-x-2">
+                {command.status === 'executed' ? (
+                  <CheckCircle className="h-3 w-3 mt-0.5 text-green-600 flex-shrink-0" />
+                ) : command.status === 'failed' || expired ? (
+                  <XCircle className="h-3 w-3 mt-0.5 text-red-600 flex-shrink-0" />
+                ) : (
+                  <Clock className="h-3 w-3 mt-0.5 text-gray-400 flex-shrink-0" />
+                )}
+                <span className="text-gray-700">
+                  {commandUtils.describe(command, videoTitle(command.payload?.video_id))}
+                  <span className="text-gray-400"> · {deviceName(command.device_id)} · {new Date(command.created_at).toLocaleTimeString()}</span>
+                  {expired && <span className="text-red-600"> · not acknowledged</span>}
+                  {command.result && (
+                    <span className={command.status === 'failed' ? 'text-red-600' : 'text-gray-500'}> · {command.result}</span>
+                  )}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
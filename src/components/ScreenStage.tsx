@@ -0,0 +1,21 @@
+// src/components/ScreenStage.tsx - Rotated, padded drawing area for everything a display shows
+'use client';
+
+import { ReactNode } from 'react';
+import { screenUtils, ScreenDisplaySettings } from '@/lib/screens';
+
+interface ScreenStageProps {
+  settings: ScreenDisplaySettings;
+  children: ReactNode;
+}
+
+export default function ScreenStage({ settings, children }: ScreenStageProps) {
+  return (
+    <div style={screenUtils.getStageStyle(settings)}>
+      {/* Overlays position themselves against this box, so they stay inside the safe area */}
+      <div className="absolute overflow-hidden" style={{ inset: settings.safe_area_padding }}>
+        {children}
+      </div>
+    </div>
+  );
+}
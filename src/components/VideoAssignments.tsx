@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Video } from '@/lib/supabase';
+import { Screen, ScreenGroup, VideoAssignment, AssignmentTarget } from '@/lib/screens';
+import { Monitor, X, Save } from 'lucide-react';
+
+interface VideoAssignmentsProps {
+  video: Video;
+  screens: Screen[];
+  groups: ScreenGroup[];
+  assignments: VideoAssignment[];
+  onUpdate: (videoId: string, targets: AssignmentTarget[]) => void;
+  onClose: () => void;
+}
+
+export default function VideoAssignments({ video, screens, groups, assignments, onUpdate, onClose }: VideoAssignmentsProps) {
+  const videoAssignments = assignments.filter(a => a.video_id === video.id);
+  const [selectedScreens, setSelectedScreens] = useState<string[]>(
+    videoAssignments.filter(a => a.screen_id).map(a => a.screen_id as string)
+  );
+  const [selectedGroups, setSelectedGroups] = useState<string[]>(
+    videoAssignments.filter(a => a.group_id).map(a => a.group_id as string)
+  );
+  const [saving, setSaving] = useState(false);
+
+  const toggle = (list: string[], id: string) =>
+    list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const targets: AssignmentTarget[] = [
+        ...selectedScreens.map(screen_id => ({ screen_id })),
+        ...selectedGroups.map(group_id => ({ group_id })),
+      ];
+      await onUpdate(video.id, targets);
+      onClose();
+    } catch (error) {
+      console.error('Error updating assignments:', error);
+      alert('Error saving screen assignments');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const isGlobal = selectedScreens.length === 0 && selectedGroups.length === 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-semibold flex items-center space-x-2">
+            <Monitor className="w-5 h-5" />
+            <span>Screens: {video.title}</span>
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {/* Current Status */}
+          <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+            <h3 className="font-medium mb-2">Current Status</h3>
+            <p className="text-sm text-gray-600">
+              {isGlobal
+                ? '🌐 Plays on every screen'
+                : `📺 Plays on ${selectedScreens.length} screen(s) and ${selectedGroups.length} group(s)`}
+            </p>
+          </div>
+
+          {/* Groups */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Screen Groups
+            </label>
+            {groups.length === 0 ? (
+              <p className="text-sm text-gray-500">No screen groups defined.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {groups.map(group => (
+                  <label key={group.id} className="flex items-center space-x-2 p-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedGroups.includes(group.id)}
+                      onChange={() => setSelectedGroups(prev => toggle(prev, group.id))}
+                    />
+                    <span className="text-sm">{group.name}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Screens */}
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Individual Screens
+            </label>
+            {screens.length === 0 ? (
+              <p className="text-sm text-gray-500">No screens registered.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {screens.map(screen => (
+                  <label key={screen.id} className="flex items-center space-x-2 p-2 border border-gray-200 rounded-lg hover:bg-gray-50">
+                    <input
+                      type="checkbox"
+                      checked={selectedScreens.includes(screen.id)}
+                      onChange={() => setSelectedScreens(prev => toggle(prev, screen.id))}
+                    />
+                    <span className="text-sm">
+                      {screen.name}
+                      {screen.location && <span className="text-gray-400"> • {screen.location}</span>}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Leave everything unchecked to play this video on every screen.
+            </p>
+          </div>
+
+          {/* Save/Cancel Buttons */}
+          <div className="flex space-x-4 pt-4 border-t">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="flex-1 flex items-center justify-center space-x-2 py-3 px-4 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Saving...' : 'Save Screens'}</span>
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 py-3 px-4 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
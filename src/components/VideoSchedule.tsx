@@ -1,15 +1,26 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Video, Timezone, videoApi, scheduleUtils } from '@/lib/supabase';
-import { Calendar, X, Save } from 'lucide-react';
+import { Schedulable, ScheduleRule, CalendarReference, Timezone, videoApi, scheduleUtils } from '@/lib/supabase';
+import { calendarApi, calendarUtils, ScheduleCalendar } from '@/lib/calendars';
+import { clockUtils } from '@/lib/clock';
+import { scheduleAnalysis } from '@/lib/scheduleAnalysis';
+import { rruleUtils, RecurrenceRule, RecurrenceFrequency, DEFAULT_RRULE_DURATION_MINUTES } from '@/lib/rrule';
+import { Calendar, X, Save, Plus, Trash2, AlertTriangle } from 'lucide-react';
 
 interface VideoScheduleProps {
-  video: Video;
-  onUpdate: (videoId: string, updates: Partial<Video>) => void;
+  // A video or any other scheduled item (e.g. an overlay widget)
+  video: Schedulable & { id: string; title: string };
+  onUpdate: (videoId: string, updates: Partial<Schedulable>) => void;
   onClose: () => void;
 }
 
+const newRule = (): ScheduleRule => ({
+  start_time: '09:00',
+  end_time: '17:00',
+  weekdays: [1, 2, 3, 4, 5],
+});
+
 export default function VideoSchedule({ video, onUpdate, onClose }: VideoScheduleProps) {
   const [scheduleType, setScheduleType] = useState(video.schedule_type || 'always');
   const [startDate, setStartDate] = useState(video.schedule_start_date || '');
@@ -19,14 +30,46 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
   const [selectedWeekdays, setSelectedWeekdays] = useState<number[]>(
     video.schedule_weekdays ? JSON.parse(video.schedule_weekdays) : [1, 2, 3, 4, 5]
   );
+  const [rrule, setRrule] = useState(video.schedule_rrule || 'FREQ=WEEKLY;BYDAY=MO');
+  const [durationMinutes, setDurationMinutes] = useState(video.schedule_duration_minutes || DEFAULT_RRULE_DURATION_MINUTES);
+  const [rules, setRules] = useState<ScheduleRule[]>(
+    video.schedule_rules?.length ? video.schedule_rules : [newRule()]
+  );
   const [timezone, setTimezone] = useState(video.schedule_timezone || 'UTC');
   const [timezones, setTimezones] = useState<Timezone[]>([]);
+  const [calendars, setCalendars] = useState<ScheduleCalendar[]>([]);
+  const [calendarsLoaded, setCalendarsLoaded] = useState(false);
+  const [calendarReferences, setCalendarReferences] = useState<CalendarReference[]>(video.schedule_calendars || []);
   const [saving, setSaving] = useState(false);
 
   const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+  const frequencyUnits: Record<RecurrenceFrequency, string> = { DAILY: 'day(s)', WEEKLY: 'week(s)', MONTHLY: 'month(s)', YEARLY: 'year(s)' };
+
+  const ruleError = scheduleType === 'rrule' ? rruleUtils.validate(rrule) : null;
+  const parsedRule = scheduleType === 'rrule' && !ruleError ? rruleUtils.parse(rrule) : null;
+
+  // The builder edits the parsed rule; the text field below stays the source of truth
+  const updateRule = (changes: Partial<RecurrenceRule>) => {
+    if (!parsedRule) return;
+    setRrule(rruleUtils.stringify({ ...parsedRule, ...changes }));
+  };
+
+  const toggleRuleWeekday = (dayIndex: number) => {
+    if (!parsedRule) return;
+    const byDay = parsedRule.byDay.some(({ weekday }) => weekday === dayIndex)
+      ? parsedRule.byDay.filter(({ weekday }) => weekday !== dayIndex)
+      : [...parsedRule.byDay, { weekday: dayIndex }].sort((a, b) => a.weekday - b.weekday);
+    updateRule({ byDay });
+  };
 
   useEffect(() => {
     loadTimezones();
+    calendarApi.getCalendars()
+      .then(data => {
+        setCalendars(data);
+        setCalendarsLoaded(true);
+      })
+      .catch(error => console.warn('Unable to load calendars:', error));
   }, []);
 
   const loadTimezones = async () => {
@@ -57,12 +100,90 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
     );
   };
 
+  const updateScheduleRule = (index: number, changes: Partial<ScheduleRule>) => {
+    setRules(prev => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const toggleScheduleRuleWeekday = (index: number, dayIndex: number) => {
+    const weekdays = rules[index].weekdays || [];
+    updateScheduleRule(index, {
+      weekdays: weekdays.includes(dayIndex)
+        ? weekdays.filter(d => d !== dayIndex)
+        : [...weekdays, dayIndex].sort(),
+    });
+  };
+
+  const setCalendarMode = (calendarId: string, mode: string) => {
+    setCalendarReferences(prev => [
+      ...prev.filter(reference => reference.calendar_id !== calendarId),
+      ...(mode === 'only' || mode === 'never' ? [{ calendar_id: calendarId, mode } as CalendarReference] : []),
+    ]);
+  };
+
+  // The next two weeks in the schedule's timezone, and the next dates the calendars mention
+  const getCalendarPreview = () => {
+    const today = scheduleUtils.getZonedTime(clockUtils.now(), timezone).date;
+    const days = Array.from({ length: 365 }, (_, index) => {
+      const date = calendarUtils.addDays(today, index);
+      const entry = calendarReferences
+        .map(reference => calendarUtils.getCalendar(calendars, reference.calendar_id))
+        .map(calendar => calendar && calendarUtils.getEntry(calendar, date))
+        .find(Boolean);
+      return { date, label: entry?.label || null, listed: !!entry, allowed: calendarUtils.allowsDate(calendarReferences, date, calendars) };
+    });
+    return { fortnight: days.slice(0, 14), upcoming: days.filter(day => day.listed).slice(0, 5) };
+  };
+
+  const getDraftSchedule = (): Schedulable => ({
+    ...video,
+    schedule_type: scheduleType,
+    schedule_start_date: startDate,
+    schedule_end_date: endDate,
+    schedule_start_time: startTime,
+    schedule_end_time: endTime,
+    schedule_weekdays: JSON.stringify(selectedWeekdays),
+    schedule_timezone: timezone,
+    schedule_rrule: rrule,
+    schedule_duration_minutes: durationMinutes,
+    schedule_rules: rules,
+    schedule_calendars: calendarReferences,
+  });
+
   const handleSave = async () => {
+    if (scheduleType === 'rrule') {
+      if (!startDate) {
+        alert('Please choose the date of the first occurrence');
+        return;
+      }
+      if (ruleError) {
+        alert(`Invalid recurrence rule: ${ruleError}`);
+        return;
+      }
+    }
+
+    if (scheduleType === 'rules') {
+      if (rules.length === 0) {
+        alert('Please add at least one time window');
+        return;
+      }
+      if (rules.some(rule => !!rule.start_time !== !!rule.end_time)) {
+        alert('Each time window needs both a start and an end time');
+        return;
+      }
+    }
+
+    const problems = scheduleAnalysis.checkSchedule(getDraftSchedule(), calendarsLoaded ? calendars : null);
+    if (problems.length > 0 &&
+        !confirm(`This schedule has problems:\n\n${problems.map(p => `- ${p.message}`).join('\n')}\n\nSave anyway?`)) {
+      return;
+    }
+
     setSaving(true);
     try {
-      const updates: Partial<Video> = {
+      const updates: Partial<Schedulable> = {
         schedule_type: scheduleType,
         schedule_timezone: timezone,
+        schedule_calendars: calendarReferences.length > 0 ? calendarReferences : null,
       };
 
       // Add schedule-specific fields
@@ -80,6 +201,24 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
         updates.schedule_weekdays = JSON.stringify(selectedWeekdays);
       }
 
+      if (scheduleType === 'rrule') {
+        updates.schedule_start_date = startDate;
+        updates.schedule_start_time = startTime;
+        updates.schedule_rrule = rrule.trim().replace(/^RRULE:/i, '');
+        updates.schedule_duration_minutes = durationMinutes;
+      }
+
+      if (scheduleType === 'rules') {
+        // Empty inputs are stored as null so they don't restrict the window
+        updates.schedule_rules = rules.map(rule => ({
+          start_date: rule.start_date || null,
+          end_date: rule.end_date || null,
+          start_time: rule.start_time || null,
+          end_time: rule.end_time || null,
+          weekdays: rule.weekdays?.length ? rule.weekdays : null,
+        }));
+      }
+
       await onUpdate(video.id, updates);
       onClose();
     } catch (error) {
@@ -90,19 +229,10 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
     }
   };
 
+  const scheduleProblems = scheduleAnalysis.checkSchedule(getDraftSchedule(), calendarsLoaded ? calendars : null);
+
   const getCurrentScheduleStatus = () => {
-    const tempVideo = {
-      ...video,
-      schedule_type: scheduleType,
-      schedule_start_date: startDate,
-      schedule_end_date: endDate,
-      schedule_start_time: startTime,
-      schedule_end_time: endTime,
-      schedule_weekdays: JSON.stringify(selectedWeekdays),
-      schedule_timezone: timezone
-    } as Video;
-
-    const isActive = scheduleUtils.isVideoScheduledNow(tempVideo);
+    const isActive = scheduleUtils.isVideoScheduledNow(getDraftSchedule(), calendars);
     return isActive ? '✅ Currently Scheduled' : '⏳ Not Currently Scheduled';
   };
 
@@ -128,16 +258,7 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
             <h3 className="font-medium mb-2">Current Status</h3>
             <p className="text-sm text-gray-600">{getCurrentScheduleStatus()}</p>
             <p className="text-xs text-gray-500 mt-1">
-              {scheduleUtils.formatScheduleDescription({
-                ...video,
-                schedule_type: scheduleType,
-                schedule_start_date: startDate,
-                schedule_end_date: endDate,
-                schedule_start_time: startTime,
-                schedule_end_time: endTime,
-                schedule_weekdays: JSON.stringify(selectedWeekdays),
-                schedule_timezone: timezone
-              } as Video)}
+              {scheduleUtils.formatScheduleDescription(getDraftSchedule(), calendars)}
             </p>
           </div>
 
@@ -148,7 +269,7 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
             </label>
             <select
               value={scheduleType}
-              onChange={(e) => setScheduleType(e.target.value as Video['schedule_type'])}
+              onChange={(e) => setScheduleType(e.target.value as Schedulable['schedule_type'])}
               className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
             >
               <option value="always">Always Active</option>
@@ -156,6 +277,8 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
               <option value="time_daily">Daily Time Range</option>
               <option value="weekdays">Specific Weekdays</option>
               <option value="custom">Custom (Combine Options)</option>
+              <option value="rrule">Recurring (e.g. first Monday of each month)</option>
+              <option value="rules">Multiple Time Windows</option>
             </select>
           </div>
 
@@ -233,7 +356,7 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
                 </div>
               </div>
               <p className="text-xs text-gray-500 mt-1">
-                Time ranges can span midnight (e.g., 22:00 to 06:00)
+                Time ranges can span midnight (e.g., 22:00 to 06:00) and include the end minute (09:00 to 17:00 runs until 17:01)
               </p>
             </div>
           )}
@@ -262,6 +385,365 @@ export default function VideoSchedule({ video, onUpdate, onClose }: VideoSchedul
             </div>
           )}
 
+          {/* Recurrence Rule */}
+          {scheduleType === 'rrule' && (
+            <div className="mb-6 space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">First Occurrence</label>
+                  <input
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Start Time</label>
+                  <input
+                    type="time"
+                    value={startTime}
+                    onChange={(e) => setStartTime(e.target.value)}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Duration (minutes)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={durationMinutes}
+                    onChange={(e) => setDurationMinutes(Math.max(1, Number(e.target.value) || DEFAULT_RRULE_DURATION_MINUTES))}
+                    className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {parsedRule && (
+                <>
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="text-gray-700">Repeat every</span>
+                    <input
+                      type="number"
+                      min="1"
+                      value={parsedRule.interval}
+                      onChange={(e) => updateRule({ interval: Math.max(1, Number(e.target.value) || 1) })}
+                      className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    />
+                    <select
+                      value={parsedRule.freq}
+                      onChange={(e) => updateRule({
+                        freq: e.target.value as RecurrenceFrequency,
+                        byDay: [],
+                        byMonthDay: [],
+                        bySetPos: [],
+                      })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      {(Object.keys(frequencyUnits) as RecurrenceFrequency[]).map(freq => (
+                        <option key={freq} value={freq}>{frequencyUnits[freq]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {parsedRule.freq === 'WEEKLY' && (
+                    <div className="grid grid-cols-7 gap-2">
+                      {weekdayNames.map((day, index) => (
+                        <button
+                          key={index}
+                          onClick={() => toggleRuleWeekday(index)}
+                          className={`p-2 text-xs font-medium rounded-lg border ${
+                            parsedRule.byDay.some(({ weekday }) => weekday === index)
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-gray-50 text-gray-700 border-gray-300 hover:bg-gray-100'
+                          }`}
+                        >
+                          {day.substring(0, 3)}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {parsedRule.freq === 'MONTHLY' && (
+                    <div className="flex items-center space-x-2 text-sm">
+                      <span className="text-gray-700">On the</span>
+                      <select
+                        value={parsedRule.byDay[0]?.ordinal ?? 0}
+                        onChange={(e) => {
+                          const ordinal = Number(e.target.value);
+                          updateRule(ordinal === 0
+                            ? { byDay: [], byMonthDay: [] }
+                            : { byDay: [{ weekday: parsedRule.byDay[0]?.weekday ?? 1, ordinal }], byMonthDay: [] });
+                        }}
+                        className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value={0}>same day of the month</option>
+                        <option value={1}>first</option>
+                        <option value={2}>second</option>
+                        <option value={3}>third</option>
+                        <option value={4}>fourth</option>
+                        <option value={-1}>last</option>
+                      </select>
+                      {parsedRule.byDay[0]?.ordinal && (
+                        <select
+                          value={parsedRule.byDay[0].weekday}
+                          onChange={(e) => updateRule({
+                            byDay: [{ weekday: Number(e.target.value), ordinal: parsedRule.byDay[0].ordinal }],
+                          })}
+                          className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        >
+                          {weekdayNames.map((day, index) => (
+                            <option key={index} value={index}>{day}</option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="text-gray-700">Ends</span>
+                    <select
+                      value={parsedRule.count ? 'count' : parsedRule.until !== undefined ? 'until' : 'never'}
+                      onChange={(e) => updateRule({
+                        count: e.target.value === 'count' ? 10 : undefined,
+                        until: e.target.value === 'until' ? rruleUtils.parseUntil((endDate || startDate || '2099-12-31').replace(/-/g, '')) : undefined,
+                      })}
+                      className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                    >
+                      <option value="never">never</option>
+                      <option value="count">after</option>
+                      <option value="until">on</option>
+                    </select>
+                    {parsedRule.count && (
+                      <>
+                        <input
+                          type="number"
+                          min="1"
+                          value={parsedRule.count}
+                          onChange={(e) => updateRule({ count: Math.max(1, Number(e.target.value) || 1) })}
+                          className="w-20 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                        <span className="text-gray-700">occurrences</span>
+                      </>
+                    )}
+                    {parsedRule.until !== undefined && (
+                      <input
+                        type="date"
+                        value={new Date(parsedRule.until).toISOString().slice(0, 10)}
+                        onChange={(e) => e.target.value && updateRule({ until: rruleUtils.parseUntil(e.target.value.replace(/-/g, '')) })}
+                        className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                      />
+                    )}
+                  </div>
+                </>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Recurrence Rule (RFC 5545)</label>
+                <input
+                  type="text"
+                  value={rrule}
+                  onChange={(e) => setRrule(e.target.value)}
+                  className={`w-full p-3 font-mono text-sm border rounded-lg focus:ring-2 focus:ring-blue-500 ${
+                    ruleError ? 'border-red-400' : 'border-gray-300'
+                  }`}
+                />
+                {ruleError ? (
+                  <p className="text-xs text-red-600 mt-1">{ruleError}</p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    e.g. FREQ=MONTHLY;BYDAY=1MO or FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE
+                  </p>
+                )}
+              </div>
+
+              {parsedRule && startDate && (
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <h4 className="text-xs font-medium text-gray-700 mb-1">Next occurrences ({timezone})</h4>
+                  {(() => {
+                    const upcoming = scheduleUtils.getNextOccurrences(getDraftSchedule(), 5);
+                    return upcoming.length === 0 ? (
+                      <p className="text-xs text-gray-500">No upcoming occurrences</p>
+                    ) : (
+                      <ul className="text-xs text-gray-600 space-y-0.5">
+                        {upcoming.map(occurrence => (
+                          <li key={occurrence}>
+                            {rruleUtils.formatWallClock(occurrence)} – {rruleUtils.formatDuration(durationMinutes)}
+                          </li>
+                        ))}
+                      </ul>
+                    );
+                  })()}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Time Windows */}
+          {scheduleType === 'rules' && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Time Windows
+              </label>
+              <p className="text-xs text-gray-500 mb-3">
+                Active when any window matches. Leave a field empty to not restrict by it.
+              </p>
+              <div className="space-y-3">
+                {rules.map((rule, index) => (
+                  <div key={index} className="p-4 border border-gray-200 rounded-lg space-y-3">
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm font-medium text-gray-700">Window {index + 1}</span>
+                      <button
+                        onClick={() => setRules(prev => prev.filter((_, i) => i !== index))}
+                        disabled={rules.length === 1}
+                        className="p-1 text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+                        title="Remove window"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Start Date</label>
+                        <input
+                          type="date"
+                          value={rule.start_date || ''}
+                          onChange={(e) => updateScheduleRule(index, { start_date: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">End Date</label>
+                        <input
+                          type="date"
+                          value={rule.end_date || ''}
+                          onChange={(e) => updateScheduleRule(index, { end_date: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">Start Time</label>
+                        <input
+                          type="time"
+                          value={rule.start_time || ''}
+                          onChange={(e) => updateScheduleRule(index, { start_time: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs text-gray-500 mb-1">End Time</label>
+                        <input
+                          type="time"
+                          value={rule.end_time || ''}
+                          onChange={(e) => updateScheduleRule(index, { end_time: e.target.value })}
+                          className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                        />
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-7 gap-2">
+                      {weekdayNames.map((day, dayIndex) => (
+                        <button
+                          key={dayIndex}
+                          onClick={() => toggleScheduleRuleWeekday(index, dayIndex)}
+                          className={`p-2 text-xs font-medium rounded-lg border ${
+                            rule.weekdays?.includes(dayIndex)
+                              ? 'bg-blue-600 text-white border-blue-600'
+                              : 'bg-gray-50 text-gray-700 border-gray-300 hover:bg-gray-100'
+                          }`}
+                        >
+                          {day.substring(0, 3)}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => setRules(prev => [...prev, newRule()])}
+                className="mt-3 flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add time window</span>
+              </button>
+            </div>
+          )}
+
+          {/* Holiday and blackout calendars */}
+          {calendars.length > 0 && (
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Calendars
+              </label>
+              <p className="text-xs text-gray-500 mb-2">
+                Play only on a calendar&apos;s dates, or never on them (e.g. public holidays or store closures)
+              </p>
+              <div className="space-y-2">
+                {calendars.map(calendar => (
+                  <div key={calendar.id} className="flex items-center justify-between p-2 border border-gray-200 rounded-lg">
+                    <span className="text-sm text-gray-900">
+                      {calendar.name}
+                      <span className="text-xs text-gray-500"> ({calendar.entries.length} dates)</span>
+                    </span>
+                    <select
+                      value={calendarReferences.find(reference => reference.calendar_id === calendar.id)?.mode || ''}
+                      onChange={(e) => setCalendarMode(calendar.id, e.target.value)}
+                      className="p-1 border border-gray-300 rounded text-sm"
+                    >
+                      <option value="">Not used</option>
+                      <option value="only">Only on these dates</option>
+                      <option value="never">Never on these dates</option>
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {calendarReferences.length > 0 && (() => {
+                const preview = getCalendarPreview();
+                return (
+                  <div className="mt-3">
+                    <p className="text-xs font-medium text-gray-700 mb-1">Next 14 days</p>
+                    <div className="grid grid-cols-7 gap-1">
+                      {preview.fortnight.map(day => (
+                        <div
+                          key={day.date}
+                          title={day.label || undefined}
+                          className={`p-1 text-center text-xs rounded ${
+                            day.allowed ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-500 line-through'
+                          }`}
+                        >
+                          {weekdayNames[new Date(`${day.date}T00:00:00Z`).getUTCDay()].substring(0, 3)} {Number(day.date.slice(8))}
+                        </div>
+                      ))}
+                    </div>
+                    {preview.upcoming.length > 0 && (
+                      <ul className="mt-2 text-xs text-gray-600 space-y-0.5">
+                        {preview.upcoming.map(day => (
+                          <li key={day.date}>
+                            {day.date}{day.label && ` ${day.label}`}: {day.allowed ? 'plays if the schedule matches' : 'blocked'}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })()}
+            </div>
+          )}
+
+          {scheduleProblems.length > 0 && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-center space-x-2 text-sm font-medium text-amber-800 mb-1">
+                <AlertTriangle className="w-4 h-4" />
+                <span>This schedule may never play</span>
+              </div>
+              <ul className="list-disc list-inside text-sm text-amber-700">
+                {scheduleProblems.map((problem, index) => (
+                  <li key={index}>{problem.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {/* Save/Cancel Buttons */}
           <div className="flex space-x-4 pt-4 border-t">
             <button
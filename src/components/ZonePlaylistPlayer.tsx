@@ -0,0 +1,205 @@
+// src/components/ZonePlaylistPlayer.tsx - Loops a playlist inside a layout zone
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { videoApi, mediaUtils } from '@/lib/supabase';
+import { playlistApi, playlistUtils, PlaybackItem } from '@/lib/playlists';
+import { playLogUtils, PlayOutcome } from '@/lib/playLogs';
+import { clockUtils } from '@/lib/clock';
+import { calendarApi } from '@/lib/calendars';
+import { FitMode } from '@/lib/screens';
+import GaplessPlayer from '@/components/GaplessPlayer';
+
+interface ZonePlaylistPlayerProps {
+  playlistId: string;
+  screenId?: string | null;
+  deviceId?: string | null;
+  fit?: FitMode;
+  paused?: boolean;
+}
+
+// Zones re-check their playlist and schedules every minute, like the main display
+const RELOAD_INTERVAL_MS = 60 * 1000;
+
+export default function ZonePlaylistPlayer({ playlistId, screenId, deviceId, fit, paused = false }: ZonePlaylistPlayerProps) {
+  const [items, setItems] = useState<PlaybackItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const loopsPlayedRef = useRef(0);
+  const playRef = useRef<{ item: PlaybackItem; startedAt: string } | null>(null);
+  const pausedRef = useRef(paused);
+
+  const loadItems = useCallback(async () => {
+    try {
+      const [playlistItems, videos, calendars] = await Promise.all([
+        playlistApi.getItems(playlistId),
+        videoApi.getAllVideos(),
+        calendarApi.getCalendars(),
+      ]);
+      const playback = playlistUtils.selectPlaybackItems(videos, null, [], playlistItems, calendars);
+
+      // Keep playing the current clip if the playlist did not change
+      setItems(prev => {
+        const unchanged = prev.length === playback.length &&
+          prev.every((item, index) => item.key === playback[index].key && item.video.file_url === playback[index].video.file_url);
+        return unchanged ? prev : playback;
+      });
+    } catch (error) {
+      // Keep the current loop when offline
+      console.warn('Unable to load zone playlist:', error);
+    }
+  }, [playlistId]);
+
+  useEffect(() => {
+    loadItems();
+    const interval = setInterval(loadItems, RELOAD_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadItems]);
+
+  useEffect(() => {
+    setCurrentIndex(0);
+    loopsPlayedRef.current = 0;
+  }, [items]);
+
+  const finishPlay = useCallback((outcome: PlayOutcome, item?: PlaybackItem, errorMessage?: string) => {
+    const play = playRef.current;
+    playRef.current = null;
+
+    const playedItem = play?.item ?? (outcome === 'errored' ? item : undefined);
+    if (!playedItem || clockUtils.isSimulated()) return;
+
+    playLogUtils.bufferPlay(playLogUtils.createPlay({
+      screen_id: screenId ?? null,
+      device_id: deviceId ?? null,
+      video_id: playedItem.video.id,
+      playlist_item_id: playedItem.playlistItem?.id ?? null,
+      started_at: play?.startedAt ?? new Date().toISOString(),
+      outcome,
+      error_message: errorMessage ?? null,
+    }));
+  }, [screenId, deviceId]);
+
+  useEffect(() => {
+    pausedRef.current = paused;
+
+    const video = videoRef.current;
+    if (!video) return;
+    if (paused) {
+      video.pause();
+    } else {
+      video.play().catch(() => {});
+    }
+  }, [paused]);
+
+  // Same advance rules as the main display: loop counts, duration overrides and skipping broken clips
+  useEffect(() => {
+    const video = videoRef.current;
+    const item = items[currentIndex];
+    if (!video || !item) return;
+
+    let hasAdvanced = false;
+    let errorTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const advance = () => {
+      hasAdvanced = true;
+      loopsPlayedRef.current = 0;
+      setCurrentIndex((currentIndex + 1) % items.length);
+    };
+
+    const handlePlaying = () => {
+      if (!playRef.current) {
+        playRef.current = { item, startedAt: new Date().toISOString() };
+      }
+    };
+
+    const handleEnded = () => {
+      if (hasAdvanced) return;
+      finishPlay('completed');
+
+      if (loopsPlayedRef.current + 1 < item.loopCount || items.length === 1) {
+        loopsPlayedRef.current = (loopsPlayedRef.current + 1) % item.loopCount;
+        video.currentTime = 0;
+        video.play().catch(() => {});
+        return;
+      }
+      advance();
+    };
+
+    const handleTimeUpdate = () => {
+      if (item.durationOverride && video.currentTime >= item.durationOverride) {
+        handleEnded();
+      }
+    };
+
+    const handleError = () => {
+      finishPlay('errored', item, video.error?.message || 'Video error');
+      if (items.length > 1) {
+        errorTimeout = setTimeout(advance, 5000);
+      }
+    };
+
+    const handleCanPlay = () => {
+      if (pausedRef.current) return;
+      video.play().catch(playError => {
+        console.warn('Zone playback error:', playError);
+      });
+    };
+
+    video.addEventListener('playing', handlePlaying);
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('timeupdate', handleTimeUpdate);
+    video.addEventListener('error', handleError);
+    video.addEventListener('canplay', handleCanPlay);
+
+    if (!video.paused) {
+      handlePlaying();
+    } else if (video.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+      handleCanPlay();
+    }
+
+    return () => {
+      finishPlay('skipped');
+      if (errorTimeout) clearTimeout(errorTimeout);
+      video.removeEventListener('playing', handlePlaying);
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('timeupdate', handleTimeUpdate);
+      video.removeEventListener('error', handleError);
+      video.removeEventListener('canplay', handleCanPlay);
+    };
+  }, [currentIndex, items, finishPlay]);
+
+  // Images and web pages advance on a timer
+  useEffect(() => {
+    const item = items[currentIndex];
+    if (!item || !mediaUtils.isSlide(item.video)) return;
+
+    playRef.current = { item, startedAt: new Date().toISOString() };
+
+    const stopTimer = playlistUtils.startSlideTimer(
+      playlistUtils.getSlideDuration(item),
+      () => pausedRef.current,
+      () => {
+        finishPlay('completed');
+
+        if (loopsPlayedRef.current + 1 < item.loopCount || items.length === 1) {
+          loopsPlayedRef.current = (loopsPlayedRef.current + 1) % item.loopCount;
+          playRef.current = { item, startedAt: new Date().toISOString() };
+          return;
+        }
+        loopsPlayedRef.current = 0;
+        setCurrentIndex((currentIndex + 1) % items.length);
+      }
+    );
+
+    return () => {
+      finishPlay('skipped');
+      stopTimer();
+    };
+  }, [currentIndex, items, finishPlay]);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  return <GaplessPlayer items={items} currentIndex={currentIndex} videoRef={videoRef} fit={fit} />;
+}
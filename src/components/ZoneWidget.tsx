@@ -0,0 +1,68 @@
+// src/components/ZoneWidget.tsx - Built-in widgets for layout zones (clock, text, ticker)
+'use client';
+
+import { useState, useEffect } from 'react';
+import { LayoutZone } from '@/lib/layouts';
+import DataFeedWidget from '@/components/DataFeedWidget';
+import { clockUtils } from '@/lib/clock';
+
+interface ZoneWidgetProps {
+  zone: LayoutZone;
+  timezone?: string;
+}
+
+// Roughly constant reading speed regardless of message length
+const TICKER_SECONDS_PER_CHARACTER = 0.25;
+
+export default function ZoneWidget({ zone, timezone }: ZoneWidgetProps) {
+  const [now, setNow] = useState(() => clockUtils.now());
+
+  useEffect(() => {
+    if (zone.widget_type !== 'clock') return;
+
+    const interval = setInterval(() => setNow(clockUtils.now()), 1000);
+    return () => clearInterval(interval);
+  }, [zone.widget_type]);
+
+  switch (zone.widget_type) {
+    case 'clock':
+      return (
+        <div className="w-full h-full flex flex-col items-center justify-center text-center p-4">
+          <p className="text-6xl font-bold tabular-nums">
+            {now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone: timezone })}
+          </p>
+          <p className="text-2xl mt-2 opacity-80">
+            {now.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', timeZone: timezone })}
+          </p>
+        </div>
+      );
+
+    case 'ticker': {
+      const text = zone.text || '';
+      return (
+        <div className="w-full h-full flex items-center overflow-hidden text-3xl font-semibold">
+          <span
+            key={text}
+            className="ticker-track"
+            style={{ ['--ticker-duration' as string]: `${Math.max(10, text.length * TICKER_SECONDS_PER_CHARACTER)}s` }}
+          >
+            {text}
+          </span>
+        </div>
+      );
+    }
+
+    case 'feed':
+      return <DataFeedWidget config={zone} className="w-full h-full p-6 text-3xl space-y-2 overflow-hidden" />;
+
+    case 'text':
+      return (
+        <div className="w-full h-full flex items-center justify-center text-center p-6 text-3xl whitespace-pre-line">
+          {zone.text}
+        </div>
+      );
+
+    default:
+      return null;
+  }
+}
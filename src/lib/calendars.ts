@@ -0,0 +1,199 @@
+// src/lib/calendars.ts - Named holiday and blackout calendars that schedules can reference
+import { supabase, CalendarReference } from '@/lib/supabase';
+import { rruleUtils } from '@/lib/rrule';
+
+// One day or a run of days, both ends inclusive (YYYY-MM-DD)
+export interface CalendarEntry {
+  start_date: string;
+  end_date: string;
+  label?: string | null;
+}
+
+export interface ScheduleCalendar {
+  id: string;
+  name: string;
+  description?: string | null;
+  entries: CalendarEntry[];
+  created_at: string;
+  updated_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Recurring .ics events (e.g. yearly holidays) are expanded this far ahead
+const ICS_RECURRENCE_YEARS = 3;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// 20261225 or 20261225T090000Z to 2026-12-25
+const parseIcsDate = (value?: string): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+const unescapeIcsText = (value: string) =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+function eventEntries(event: Record<string, string>): CalendarEntry[] {
+  const start = parseIcsDate(event.DTSTART);
+  if (!start) return [];
+
+  // All-day events end the day before DTEND; timed events end on the day of DTEND
+  let end = parseIcsDate(event.DTEND) || start;
+  if (/^\d{8}$/.test(event.DTEND || '') && end > start) end = addDays(end, -1);
+  const spanDays = Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS);
+  const label = event.SUMMARY ? unescapeIcsText(event.SUMMARY) : null;
+
+  if (!event.RRULE) return [{ start_date: start, end_date: end, label }];
+
+  try {
+    const rule = rruleUtils.parse(event.RRULE);
+    const horizon = Date.now() + ICS_RECURRENCE_YEARS * 365 * DAY_MS;
+    const entries: CalendarEntry[] = [];
+    const first = rruleUtils.getStart(start);
+    for (const occurrence of rruleUtils.occurrences(rule, first, first)) {
+      if (occurrence > horizon) break;
+      const date = new Date(occurrence).toISOString().slice(0, 10);
+      entries.push({ start_date: date, end_date: addDays(date, spanDays), label });
+    }
+    return entries;
+  } catch (error) {
+    console.warn('Unsupported recurrence in calendar event, using its first date:', event.RRULE, error);
+    return [{ start_date: start, end_date: end, label }];
+  }
+}
+
+export const calendarUtils = {
+  addDays(date: string, days: number): string {
+    return addDays(date, days);
+  },
+
+  getCalendar(calendars: ScheduleCalendar[], id: string): ScheduleCalendar | undefined {
+    return calendars.find(calendar => calendar.id === id);
+  },
+
+  getEntry(calendar: ScheduleCalendar, date: string): CalendarEntry | undefined {
+    return calendar.entries.find(entry => date >= entry.start_date && date <= entry.end_date);
+  },
+
+  // A date must be in one of the "only on" calendars (if there are any) and in
+  // none of the "never on" ones. A reference to a calendar that isn't in `calendars`
+  // (deleted, or not loaded) blocks every date, as its dates can't be checked.
+  allowsDate(references: CalendarReference[] | null | undefined, date: string, calendars: ScheduleCalendar[]): boolean {
+    const referenced: { mode: CalendarReference['mode']; calendar: ScheduleCalendar }[] = [];
+    for (const reference of references || []) {
+      const calendar = this.getCalendar(calendars, reference.calendar_id);
+      if (!calendar) return false;
+      referenced.push({ mode: reference.mode, calendar });
+    }
+
+    const only = referenced.filter(item => item.mode === 'only');
+    if (only.length > 0 && !only.some(item => this.getEntry(item.calendar, date))) return false;
+
+    return !referenced.some(item => item.mode === 'never' && this.getEntry(item.calendar, date));
+  },
+
+  describe(references: CalendarReference[] | null | undefined, calendars: ScheduleCalendar[]): string {
+    const names = (mode: CalendarReference['mode']) => (references || [])
+      .filter(reference => reference.mode === mode)
+      .map(reference => this.getCalendar(calendars, reference.calendar_id)?.name || 'unknown calendar')
+      .join(', ');
+
+    const parts = [];
+    if (names('only')) parts.push(`only on ${names('only')}`);
+    if (names('never')) parts.push(`never on ${names('never')}`);
+    return parts.join(', ');
+  },
+
+  // Entries from an iCalendar (.ics) file: one per event, or per occurrence of a recurring event
+  parseIcs(text: string): CalendarEntry[] {
+    // Long lines are folded onto continuation lines that start with a space or tab
+    const lines = text.replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+    const entries: CalendarEntry[] = [];
+    let event: Record<string, string> | null = null;
+
+    for (const line of lines.map(l => l.trim())) {
+      if (line === 'BEGIN:VEVENT') {
+        event = {};
+      } else if (line === 'END:VEVENT') {
+        if (event) entries.push(...eventEntries(event));
+        event = null;
+      } else if (event) {
+        const colon = line.indexOf(':');
+        if (colon === -1) continue;
+        // Parameters such as DTSTART;VALUE=DATE are not needed
+        event[line.slice(0, colon).split(';')[0].toUpperCase()] = line.slice(colon + 1);
+      }
+    }
+
+    if (entries.length === 0) {
+      throw new Error('No events found in the calendar file');
+    }
+    return entries.sort((a, b) => a.start_date.localeCompare(b.start_date));
+  }
+};
+
+// Calendar API functions
+export const calendarApi = {
+  async getCalendars(): Promise<ScheduleCalendar[]> {
+    const { data, error } = await supabase
+      .from('schedule_calendars')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addCalendar(name: string, entries: CalendarEntry[] = []): Promise<ScheduleCalendar> {
+    if (!name) {
+      throw new Error('Calendar name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('schedule_calendars')
+      .insert({
+        name,
+        entries,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateCalendar(id: string, updates: Partial<ScheduleCalendar>): Promise<ScheduleCalendar> {
+    const { data, error } = await supabase
+      .from('schedule_calendars')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteCalendar(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('schedule_calendars')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  subscribeToCalendars(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('schedule_calendars')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'schedule_calendars' },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,36 @@
+// src/lib/clock.ts - The display's clock, which ?at= can move to preview another time
+//
+// Schedules, overrides and overlays read the time from here instead of
+// new Date(), so a simulated display goes through exactly the same checks as
+// a real one. The simulated clock keeps running from the chosen time.
+
+let offsetMs = 0;
+let simulated = false;
+
+export const clockUtils = {
+  now(): Date {
+    return new Date(Date.now() + offsetMs);
+  },
+
+  isSimulated(): boolean {
+    return simulated;
+  },
+
+  simulate(at: Date) {
+    offsetMs = at.getTime() - Date.now();
+    simulated = true;
+  },
+
+  // e.g. ?at=2026-12-24T18:00 - the browser's local time unless an offset is given
+  parseSimulatedTime(value: string | null): Date | null {
+    if (!value) return null;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  },
+
+  // Value for ?at= (and datetime-local inputs) in the browser's local time
+  formatSimulatedTime(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+};
@@ -0,0 +1,152 @@
+// src/lib/commands.ts - Remote commands sent from the admin panel to displays
+import { supabase } from '@/lib/supabase';
+
+export type DisplayCommandType =
+  | 'reload'
+  | 'skip'
+  | 'jump'
+  | 'pause'
+  | 'resume'
+  | 'clear_cache'
+  | 'update_sw'
+  | 'identify';
+
+export interface DisplayCommandPayload {
+  video_id?: string;          // For 'jump'
+  duration_seconds?: number;  // For 'identify'
+}
+
+export interface DisplayCommand {
+  id: string;
+  screen_id: string;
+  device_id?: string | null;  // null targets every display showing the screen
+  command: DisplayCommandType;
+  payload: DisplayCommandPayload;
+  status: 'pending' | 'executed' | 'failed';
+  result?: string | null;
+  acknowledged_at?: string | null;
+  created_at: string;
+}
+
+export const COMMAND_LABELS: Record<DisplayCommandType, string> = {
+  reload: 'Reload page',
+  skip: 'Skip to next',
+  jump: 'Jump to video',
+  pause: 'Pause',
+  resume: 'Resume',
+  clear_cache: 'Clear caches',
+  update_sw: 'Update service worker',
+  identify: 'Identify',
+};
+
+// Commands not picked up within this time are ignored, so a display coming back
+// online the next morning does not replay yesterday's "reload" or "identify"
+export const COMMAND_EXPIRY_SECONDS = 5 * 60;
+
+export const commandUtils = {
+  isForDevice(command: Pick<DisplayCommand, 'device_id'>, deviceId: string | null): boolean {
+    return !command.device_id || command.device_id === deviceId;
+  },
+
+  isExpired(command: Pick<DisplayCommand, 'created_at'>, now: Date = new Date()): boolean {
+    return now.getTime() - new Date(command.created_at).getTime() > COMMAND_EXPIRY_SECONDS * 1000;
+  },
+
+  describe(command: DisplayCommand, videoTitle?: string): string {
+    if (command.command === 'jump' && videoTitle) {
+      return `${COMMAND_LABELS.jump}: ${videoTitle}`;
+    }
+    return COMMAND_LABELS[command.command] || command.command;
+  }
+};
+
+// Command API functions
+export const commandApi = {
+  // Issue a command to a screen, one row per paired device so each can acknowledge it
+  async sendCommand(
+    screenId: string,
+    command: DisplayCommandType,
+    payload: DisplayCommandPayload = {},
+    deviceIds: string[] = []
+  ): Promise<DisplayCommand[]> {
+    const targets = deviceIds.length > 0 ? deviceIds : [null];
+
+    const { data, error } = await supabase
+      .from('device_commands')
+      .insert(targets.map(deviceId => ({
+        screen_id: screenId,
+        device_id: deviceId,
+        command,
+        payload,
+        status: 'pending',
+        created_at: new Date().toISOString(),
+      })))
+      .select();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data || [];
+  },
+
+  // Commands a display missed while its realtime connection was down
+  async getPendingCommands(screenId: string, deviceId: string | null): Promise<DisplayCommand[]> {
+    const since = new Date(Date.now() - COMMAND_EXPIRY_SECONDS * 1000);
+
+    const { data, error } = await supabase
+      .from('device_commands')
+      .select('*')
+      .eq('screen_id', screenId)
+      .eq('status', 'pending')
+      .gte('created_at', since.toISOString())
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).filter(command => commandUtils.isForDevice(command, deviceId));
+  },
+
+  // Get the latest commands for the admin panel
+  async getRecentCommands(limit = 50): Promise<DisplayCommand[]> {
+    const { data, error } = await supabase
+      .from('device_commands')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async acknowledgeCommand(id: string, status: 'executed' | 'failed', result?: string): Promise<void> {
+    const { error } = await supabase
+      .from('device_commands')
+      .update({
+        status,
+        result: result || null,
+        acknowledged_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Subscribe to new commands for one screen (used by displays)
+  subscribeToScreenCommands(screenId: string, callback: (command: DisplayCommand) => void) {
+    return supabase
+      .channel(`commands-${screenId}`)
+      .on('postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'device_commands', filter: `screen_id=eq.${screenId}` },
+        (payload) => callback(payload.new as DisplayCommand)
+      )
+      .subscribe();
+  },
+
+  // Subscribe to every command and acknowledgement (used by the admin panel)
+  subscribeToCommands(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('device-commands')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'device_commands' },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,153 @@
+// src/lib/dataFeeds.ts - JSON/CSV data feeds rendered through text templates
+export type DataFeedFormat = 'json' | 'csv';
+
+export type FeedRow = Record<string, unknown>;
+
+// Shared by layout zones and overlay widgets that show a data feed
+export interface DataFeedConfig {
+  feed_url?: string | null;
+  feed_format?: DataFeedFormat | null;
+  feed_path?: string | null;             // Dot path to the rows in a JSON feed, e.g. "data.queue"
+  feed_template?: string | null;         // One line per row, e.g. "{{name}} - {{price}}"
+  feed_refresh_seconds?: number | null;
+}
+
+export interface CachedFeed {
+  rows: FeedRow[];
+  fetched_at: string;
+}
+
+export const DEFAULT_FEED_REFRESH_SECONDS = 60;
+export const MIN_FEED_REFRESH_SECONDS = 10;
+export const MAX_FEED_ROWS = 50;
+
+const FEED_CACHE_KEY = 'video-display:data-feeds';
+
+export const dataFeedUtils = {
+  // Feeds are fetched through our API so other origins work and the service worker caches them
+  getProxyUrl(feedUrl: string): string {
+    return `/api/feed?url=${encodeURIComponent(feedUrl)}`;
+  },
+
+  getRefreshMs(config: DataFeedConfig): number {
+    const seconds = config.feed_refresh_seconds || DEFAULT_FEED_REFRESH_SECONDS;
+    return Math.max(MIN_FEED_REFRESH_SECONDS, seconds) * 1000;
+  },
+
+  getPath(value: unknown, path?: string | null): unknown {
+    if (!path) return value;
+    return path.split('.').reduce<unknown>((current, key) => {
+      if (current === null || current === undefined) return undefined;
+      return (current as Record<string, unknown>)[key];
+    }, value);
+  },
+
+  // Handles quoted fields, escaped quotes ("") and commas or newlines inside quotes
+  parseCsv(text: string): FeedRow[] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        record.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        record.push(field);
+        records.push(record);
+        record = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+    if (field || record.length > 0) {
+      record.push(field);
+      records.push(record);
+    }
+
+    const [header, ...rows] = records.filter(r => r.some(value => value.trim() !== ''));
+    if (!header) return [];
+
+    const columns = header.map(column => column.trim());
+    return rows.map(values =>
+      Object.fromEntries(columns.map((column, index) => [column, values[index]?.trim() ?? '']))
+    );
+  },
+
+  // Always returns a list of rows; a single JSON object becomes one row
+  parseFeed(text: string, format: DataFeedFormat, path?: string | null): FeedRow[] {
+    if (format === 'csv') {
+      return this.parseCsv(text).slice(0, MAX_FEED_ROWS);
+    }
+
+    const data = this.getPath(JSON.parse(text), path);
+    if (data === null || data === undefined) return [];
+
+    const rows = Array.isArray(data) ? data : [data];
+    return rows
+      .slice(0, MAX_FEED_ROWS)
+      .map(row => (typeof row === 'object' && row !== null ? row as FeedRow : { value: row }));
+  },
+
+  // Replaces {{field}} (or {{nested.field}}) with the row's value
+  renderTemplate(template: string, row: FeedRow): string {
+    return template.replace(/\{\{\s*([^}]+?)\s*\}\}/g, (_, field: string) => {
+      const value = this.getPath(row, field);
+      return value === null || value === undefined ? '' : String(value);
+    });
+  },
+
+  // Last good copy of every feed on this device, for offline start-ups
+  getCachedFeed(feedUrl: string): CachedFeed | null {
+    try {
+      const stored = window.localStorage.getItem(FEED_CACHE_KEY);
+      return stored ? JSON.parse(stored)[feedUrl] || null : null;
+    } catch {
+      return null;
+    }
+  },
+
+  storeCachedFeed(feedUrl: string, feed: CachedFeed) {
+    try {
+      const stored = window.localStorage.getItem(FEED_CACHE_KEY);
+      const feeds = stored ? JSON.parse(stored) : {};
+      window.localStorage.setItem(FEED_CACHE_KEY, JSON.stringify({ ...feeds, [feedUrl]: feed }));
+    } catch (error) {
+      console.warn('Unable to cache data feed:', error);
+    }
+  }
+};
+
+export const dataFeedApi = {
+  async fetchFeed(config: DataFeedConfig): Promise<CachedFeed> {
+    if (!config.feed_url) throw new Error('No feed URL configured');
+
+    const response = await fetch(dataFeedUtils.getProxyUrl(config.feed_url));
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new Error(body?.error || `Feed request failed (${response.status})`);
+    }
+
+    const feed = {
+      rows: dataFeedUtils.parseFeed(await response.text(), config.feed_format || 'json', config.feed_path),
+      fetched_at: new Date().toISOString(),
+    };
+    dataFeedUtils.storeCachedFeed(config.feed_url, feed);
+    return feed;
+  }
+};
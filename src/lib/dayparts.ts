@@ -0,0 +1,96 @@
+// src/lib/dayparts.ts - Weekly time slots that switch a screen between playlists
+import { Schedulable, scheduleUtils } from '@/lib/supabase';
+import type { Screen } from '@/lib/screens';
+import { clockUtils } from '@/lib/clock';
+
+// One block on the weekly grid, in the screen's timezone. Blocks never cross
+// midnight; end_time '24:00' runs to the end of the day.
+export interface ScreenDaypart {
+  weekday: number;     // 0 = Sunday
+  start_time: string;  // HH:MM
+  end_time: string;    // HH:MM, exclusive
+  playlist_id: string;
+}
+
+// Playlist id per slot of each weekday (index 0 = Sunday); null plays the screen's default content
+export type DaypartGrid = (string | null)[][];
+
+export const DAYPART_SLOT_MINUTES = 30;
+export const DAYPART_SLOTS_PER_DAY = (24 * 60) / DAYPART_SLOT_MINUTES;
+
+const formatSlotTime = (slot: number) => {
+  const minutes = slot * DAYPART_SLOT_MINUTES;
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+export const daypartUtils = {
+  // A daypart as a one-window schedule, so it is evaluated exactly like video schedules
+  toSchedule(daypart: ScreenDaypart, timezone: string): Schedulable {
+    return {
+      is_active: true,
+      schedule_type: 'rules',
+      schedule_timezone: timezone,
+      schedule_rules: [{ weekdays: [daypart.weekday], start_time: daypart.start_time, end_time: daypart.end_time }],
+    };
+  },
+
+  // The screen's daypart at a time (now by default), or null outside every slot
+  getActiveDaypart(screen: Screen | null, at?: Date): ScreenDaypart | null {
+    const timezone = screen?.timezone || 'UTC';
+    return (screen?.dayparts || []).find(daypart =>
+      scheduleUtils.isVideoScheduledNow(this.toSchedule(daypart, timezone), [], at)
+    ) || null;
+  },
+
+  // Next time the screen moves into or out of a slot
+  getNextBoundary(screen: Screen | null, from: Date = clockUtils.now()): Date | null {
+    const timezone = screen?.timezone || 'UTC';
+    return scheduleUtils.getNextChange((screen?.dayparts || []).map(daypart => this.toSchedule(daypart, timezone)), from);
+  },
+
+  getPlaylistIds(screen: Screen | null): string[] {
+    return Array.from(new Set((screen?.dayparts || []).map(daypart => daypart.playlist_id)));
+  },
+
+  toGrid(dayparts: ScreenDaypart[] | null | undefined): DaypartGrid {
+    const grid: DaypartGrid = Array.from({ length: 7 }, () => Array(DAYPART_SLOTS_PER_DAY).fill(null));
+
+    (dayparts || []).forEach(daypart => {
+      const start = Math.floor(scheduleUtils.timeStringToMinutes(daypart.start_time) / DAYPART_SLOT_MINUTES);
+      const end = Math.ceil(scheduleUtils.timeStringToMinutes(daypart.end_time) / DAYPART_SLOT_MINUTES);
+      for (let slot = start; slot < Math.min(end, DAYPART_SLOTS_PER_DAY); slot++) {
+        grid[daypart.weekday][slot] = daypart.playlist_id;
+      }
+    });
+
+    return grid;
+  },
+
+  // Merges runs of slots with the same playlist into blocks
+  fromGrid(grid: DaypartGrid): ScreenDaypart[] {
+    const dayparts: ScreenDaypart[] = [];
+
+    grid.forEach((slots, weekday) => {
+      let start = 0;
+      for (let slot = 1; slot <= slots.length; slot++) {
+        if (slot < slots.length && slots[slot] === slots[start]) continue;
+        const playlistId = slots[start];
+        if (playlistId) {
+          dayparts.push({
+            weekday,
+            start_time: formatSlotTime(start),
+            end_time: formatSlotTime(slot),
+            playlist_id: playlistId,
+          });
+        }
+        start = slot;
+      }
+    });
+
+    return dayparts;
+  },
+
+  formatSlotTime(slot: number): string {
+    return formatSlotTime(slot);
+  }
+};
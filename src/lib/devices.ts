@@ -0,0 +1,219 @@
+// src/lib/devices.ts - Display device pairing and identity
+import { supabase, DEVICE_TOKEN_STORAGE_KEY, DEVICE_TOKEN_HEADER, getStoredDeviceToken } from '@/lib/supabase';
+
+export interface Device {
+  id: string;
+  name?: string;
+  screen_id?: string | null;
+  device_token?: string;  // Only known to the display itself and the server; never selected
+  pairing_code?: string | null;
+  pairing_expires_at?: string | null;
+  status: 'pending' | 'paired' | 'revoked';
+  paired_at?: string | null;
+  user_agent?: string;
+
+  // Latest heartbeat reported by the display
+  last_seen_at?: string | null;
+  current_video_id?: string | null;
+  playback_position?: number | null;
+  is_online?: boolean | null;
+  sw_status?: HeartbeatServiceWorkerStatus | null;
+  cache_usage?: CacheUsage | null;
+  app_version?: string | null;
+  last_error?: string | null;
+
+  created_at: string;
+  updated_at: string;
+}
+
+// Serializable subset of ServiceWorkerStatus (the registration object cannot be sent)
+export interface HeartbeatServiceWorkerStatus {
+  isSupported: boolean;
+  isRegistered: boolean;
+  isUpdateAvailable: boolean;
+  isDevelopment?: boolean;
+}
+
+export interface CacheUsage {
+  usage?: number;  // Bytes used by this origin
+  quota?: number;  // Bytes available to this origin
+}
+
+// Pairing codes expire so stale codes on powered-off kiosks cannot be claimed
+export const PAIRING_CODE_TTL_MINUTES = 15;
+
+// No 0/O or 1/I so codes can be read off a screen across the room
+const PAIRING_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_LENGTH = 6;
+
+// Every column except device_token, so browsers can't read other displays' tokens
+export const DEVICE_COLUMNS = 'id, name, screen_id, pairing_code, pairing_expires_at, status, paired_at, user_agent, last_seen_at, current_video_id, playback_position, is_online, sw_status, cache_usage, app_version, last_error, created_at, updated_at';
+
+// A new code is drawn when one collides with another pending display's code
+const PAIRING_CODE_ATTEMPTS = 5;
+const UNIQUE_VIOLATION = '23505';
+
+// Ten years - the token is only replaced when the device is re-paired
+const TOKEN_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 * 10;
+
+// Claiming, editing and deleting devices run on the server, as browsers may only register new ones
+const requestDevice = async (init: RequestInit, query = ''): Promise<Device | null> => {
+  const response = await fetch(`/api/device${query}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers },
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.error || `Device request failed with status ${response.status}`);
+  }
+  return result.device ?? null;
+};
+
+const randomValues = (length: number): Uint8Array => {
+  const values = new Uint8Array(length);
+  crypto.getRandomValues(values);
+  return values;
+};
+
+export const deviceUtils = {
+  generatePairingCode(): string {
+    return Array.from(randomValues(PAIRING_CODE_LENGTH))
+      .map(value => PAIRING_CODE_ALPHABET[value % PAIRING_CODE_ALPHABET.length])
+      .join('');
+  },
+
+  generateDeviceToken(): string {
+    return Array.from(randomValues(32))
+      .map(value => value.toString(16).padStart(2, '0'))
+      .join('');
+  },
+
+  normalizePairingCode(code: string): string {
+    return code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  },
+
+  getStoredToken(): string | null {
+    return getStoredDeviceToken();
+  },
+
+  // Persist the token in local storage and a long-lived cookie so it survives reboots and cache clears
+  storeToken(token: string) {
+    try {
+      window.localStorage.setItem(DEVICE_TOKEN_STORAGE_KEY, token);
+    } catch (error) {
+      console.warn('Unable to store device token in local storage:', error);
+    }
+    document.cookie = `${DEVICE_TOKEN_STORAGE_KEY}=${encodeURIComponent(token)}; max-age=${TOKEN_COOKIE_MAX_AGE}; path=/; SameSite=Lax`;
+  },
+
+  clearToken() {
+    try {
+      window.localStorage.removeItem(DEVICE_TOKEN_STORAGE_KEY);
+    } catch {
+      // Nothing to clear
+    }
+    document.cookie = `${DEVICE_TOKEN_STORAGE_KEY}=; max-age=0; path=/`;
+  },
+
+  getPairingUrl(code: string): string {
+    return `${window.location.origin}/admin/devices?code=${code}`;
+  }
+};
+
+// Device API functions
+export const deviceApi = {
+  // Register this browser as a device waiting to be claimed. The returned device carries
+  // its token, which is stored once an admin claims the code.
+  async createPairingRequest(): Promise<Device> {
+    const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL_MINUTES * 60 * 1000);
+    const deviceToken = deviceUtils.generateDeviceToken();
+
+    for (let attempt = 1; ; attempt++) {
+      const { data, error } = await supabase
+        .from('devices')
+        .insert({
+          device_token: deviceToken,
+          pairing_code: deviceUtils.generatePairingCode(),
+          pairing_expires_at: expiresAt.toISOString(),
+          status: 'pending',
+          user_agent: typeof navigator !== 'undefined' ? navigator.userAgent : null,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .select(DEVICE_COLUMNS)
+        .single();
+
+      if (error?.code === UNIQUE_VIOLATION && attempt < PAIRING_CODE_ATTEMPTS) {
+        console.warn('Pairing code already in use, drawing another');
+        continue;
+      }
+      if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+      return { ...data, device_token: deviceToken };
+    }
+  },
+
+  async getDevice(id: string): Promise<Device | null> {
+    const { data, error } = await supabase
+      .from('devices')
+      .select(DEVICE_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Tokens are checked on the server, as browsers can't read them
+  async getDeviceByToken(token: string): Promise<Device | null> {
+    return requestDevice({ headers: { [DEVICE_TOKEN_HEADER]: token } });
+  },
+
+  // Get all paired and pending devices (for admin)
+  async getDevices(): Promise<Device[]> {
+    const { data, error } = await supabase
+      .from('devices')
+      .select(DEVICE_COLUMNS)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Claim a pairing code shown on a display and assign the device to a screen
+  async claimDevice(code: string, screenId: string, name?: string): Promise<Device> {
+    const device = await requestDevice({
+      method: 'POST',
+      body: JSON.stringify({ code, screenId, name: name || null }),
+    });
+    return device!;
+  },
+
+  async updateDevice(id: string, updates: Partial<Pick<Device, 'name' | 'screen_id' | 'status'>>): Promise<Device> {
+    const device = await requestDevice({
+      method: 'PATCH',
+      body: JSON.stringify({ ...updates, id }),
+    });
+    return device!;
+  },
+
+  async deleteDevice(id: string): Promise<void> {
+    await requestDevice({ method: 'DELETE' }, `?id=${encodeURIComponent(id)}`);
+  },
+
+  // A display withdraws its own pairing request once the code expires; the token proves which one
+  async withdrawPairingRequest(token: string): Promise<void> {
+    await requestDevice({ method: 'DELETE', headers: { [DEVICE_TOKEN_HEADER]: token } });
+  },
+
+  // Subscribe to changes of a single device (pairing, reassignment, revocation)
+  subscribeToDevice(deviceId: string, callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel(`device-${deviceId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'devices', filter: `id=eq.${deviceId}` },
+        callback
+      )
+      .subscribe();
+  }
+};
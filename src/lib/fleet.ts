@@ -0,0 +1,108 @@
+// src/lib/fleet.ts - Display heartbeats and fleet health
+import { supabase, DEVICE_TOKEN_HEADER, getStoredDeviceToken } from '@/lib/supabase';
+import type { Device, HeartbeatServiceWorkerStatus, CacheUsage } from '@/lib/devices';
+
+export interface HeartbeatPayload {
+  current_video_id: string | null;
+  playback_position: number | null;
+  is_online: boolean;
+  sw_status: HeartbeatServiceWorkerStatus | null;
+  cache_usage: CacheUsage | null;
+  app_version: string | null;
+  last_error: string | null;
+}
+
+export type DeviceHealth = 'online' | 'stale' | 'offline';
+
+export interface HealthThresholds {
+  staleAfterSeconds: number;
+  offlineAfterSeconds: number;
+}
+
+// Displays report in every 30 seconds
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+export const DEFAULT_HEALTH_THRESHOLDS: HealthThresholds = {
+  staleAfterSeconds: 2 * 60,
+  offlineAfterSeconds: 10 * 60,
+};
+
+const THRESHOLDS_STORAGE_KEY = 'video-admin:health-thresholds';
+
+export const fleetUtils = {
+  getDeviceHealth(device: Device, thresholds: HealthThresholds, now: Date = new Date()): DeviceHealth {
+    if (!device.last_seen_at) return 'offline';
+
+    const secondsSinceSeen = (now.getTime() - new Date(device.last_seen_at).getTime()) / 1000;
+    if (secondsSinceSeen >= thresholds.offlineAfterSeconds) return 'offline';
+    if (secondsSinceSeen >= thresholds.staleAfterSeconds || device.is_online === false) return 'stale';
+    return 'online';
+  },
+
+  formatLastSeen(lastSeenAt?: string | null, now: Date = new Date()): string {
+    if (!lastSeenAt) return 'Never';
+
+    const seconds = Math.max(0, Math.round((now.getTime() - new Date(lastSeenAt).getTime()) / 1000));
+    if (seconds < 60) return `${seconds}s ago`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+    return `${Math.floor(seconds / 86400)}d ago`;
+  },
+
+  formatBytes(bytes?: number): string {
+    if (!bytes) return '0 MB';
+    const mb = bytes / (1024 * 1024);
+    return mb >= 1024 ? `${(mb / 1024).toFixed(1)} GB` : `${mb.toFixed(0)} MB`;
+  },
+
+  getStoredThresholds(): HealthThresholds {
+    try {
+      const stored = window.localStorage.getItem(THRESHOLDS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_HEALTH_THRESHOLDS, ...JSON.parse(stored) } : DEFAULT_HEALTH_THRESHOLDS;
+    } catch {
+      return DEFAULT_HEALTH_THRESHOLDS;
+    }
+  },
+
+  storeThresholds(thresholds: HealthThresholds) {
+    try {
+      window.localStorage.setItem(THRESHOLDS_STORAGE_KEY, JSON.stringify(thresholds));
+    } catch (error) {
+      console.warn('Unable to store health thresholds:', error);
+    }
+  }
+};
+
+// Heartbeat API functions
+export const fleetApi = {
+  // Report this display's state (called by the display on an interval)
+  async sendHeartbeat(payload: HeartbeatPayload): Promise<void> {
+    const token = getStoredDeviceToken();
+    if (!token) return;
+
+    const response = await fetch('/api/heartbeat', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [DEVICE_TOKEN_HEADER]: token,
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}));
+      throw new Error(result.error || `Heartbeat failed with status ${response.status}`);
+    }
+  },
+
+  // Subscribe to heartbeat updates for every device (for the fleet view)
+  subscribeToDevices(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('devices')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'devices' },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,153 @@
+// src/lib/kiosk.ts - Touch kiosk menus: categories of videos viewers can pick on a touch screen
+import { supabase, Video } from '@/lib/supabase';
+import type { PlaybackItem } from '@/lib/playlists';
+
+export interface KioskCategory {
+  id: string;
+  name: string;
+  video_ids: string[];  // In menu order
+}
+
+export interface KioskMenu {
+  id: string;
+  name: string;
+  idle_timeout_seconds: number;  // Back to the attract loop after this long without a touch
+  categories: KioskCategory[];
+  created_at: string;
+  updated_at: string;
+}
+
+export const DEFAULT_IDLE_TIMEOUT_SECONDS = 30;
+
+const KIOSK_MENU_STORAGE_KEY = 'video-display:kiosk-menu';
+
+const generateCategoryId = () => `category-${Math.random().toString(36).slice(2, 10)}`;
+
+export const kioskUtils = {
+  createCategory(name = 'New category'): KioskCategory {
+    return { id: generateCategoryId(), name, video_ids: [] };
+  },
+
+  // Active videos of a category in menu order; deleted videos are skipped. Schedules
+  // don't apply - a viewer asked for the video.
+  getCategoryVideos(category: KioskCategory, videos: Video[]): Video[] {
+    const videosById = new Map(videos.map(video => [video.id, video]));
+    return category.video_ids
+      .map(id => videosById.get(id))
+      .filter((video): video is Video => !!video && video.is_active);
+  },
+
+  // Categories with something to show
+  getVisibleCategories(menu: KioskMenu, videos: Video[]): KioskCategory[] {
+    return menu.categories.filter(category => this.getCategoryVideos(category, videos).length > 0);
+  },
+
+  toPlaybackItem(video: Video): PlaybackItem {
+    return { key: `kiosk-${video.id}`, video, loopCount: 1 };
+  },
+
+  getIdleTimeoutMs(menu: KioskMenu): number {
+    return Math.max(5, menu.idle_timeout_seconds || DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000;
+  },
+
+  // The last menu seen by this display, so the kiosk keeps working after an offline reload
+  getCachedMenu(): KioskMenu | null {
+    try {
+      const stored = window.localStorage.getItem(KIOSK_MENU_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  storeCachedMenu(menu: KioskMenu | null) {
+    try {
+      if (menu) {
+        window.localStorage.setItem(KIOSK_MENU_STORAGE_KEY, JSON.stringify(menu));
+      } else {
+        window.localStorage.removeItem(KIOSK_MENU_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Unable to cache kiosk menu:', error);
+    }
+  }
+};
+
+// Kiosk menu API functions
+export const kioskApi = {
+  async getMenus(): Promise<KioskMenu[]> {
+    const { data, error } = await supabase
+      .from('kiosk_menus')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getMenu(id: string): Promise<KioskMenu | null> {
+    const { data, error } = await supabase
+      .from('kiosk_menus')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async addMenu(name: string): Promise<KioskMenu> {
+    if (!name) {
+      throw new Error('Menu name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('kiosk_menus')
+      .insert({
+        name,
+        idle_timeout_seconds: DEFAULT_IDLE_TIMEOUT_SECONDS,
+        categories: [],
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateMenu(
+    id: string,
+    updates: Partial<Pick<KioskMenu, 'name' | 'idle_timeout_seconds' | 'categories'>>
+  ): Promise<KioskMenu> {
+    const { data, error } = await supabase
+      .from('kiosk_menus')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteMenu(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('kiosk_menus')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  subscribeToMenu(menuId: string, callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel(`kiosk-menu-${menuId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'kiosk_menus', filter: `id=eq.${menuId}` },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,245 @@
+// src/lib/layouts.ts - Multi-zone screen layouts
+import type { CSSProperties } from 'react';
+import { supabase } from '@/lib/supabase';
+import { DataFeedConfig } from '@/lib/dataFeeds';
+
+// 'main' shows the screen's normal content (playlist or assigned videos, overrides, commands)
+export type ZoneContentType = 'main' | 'playlist' | 'widget';
+
+export type ZoneWidgetType = 'clock' | 'text' | 'ticker' | 'feed';
+
+// Position and size are percentages of the screen so layouts work at any resolution
+export interface LayoutZone extends DataFeedConfig {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  content_type: ZoneContentType;
+  playlist_id?: string | null;   // For playlist zones
+  widget_type?: ZoneWidgetType;  // For widget zones
+  text?: string;                 // For text and ticker widgets
+  background_color?: string;
+  text_color?: string;
+}
+
+export interface Layout {
+  id: string;
+  name: string;
+  zones: LayoutZone[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  zones: Omit<LayoutZone, 'id'>[];
+}
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  {
+    id: 'fullscreen',
+    name: 'Full screen',
+    zones: [
+      { name: 'Main', x: 0, y: 0, width: 100, height: 100, content_type: 'main' },
+    ],
+  },
+  {
+    id: 'main-sidebar-ticker',
+    name: 'Main + sidebar + ticker',
+    zones: [
+      { name: 'Main', x: 0, y: 0, width: 75, height: 90, content_type: 'main' },
+      { name: 'Sidebar', x: 75, y: 0, width: 25, height: 90, content_type: 'widget', widget_type: 'clock', background_color: '#111827', text_color: '#ffffff' },
+      { name: 'Ticker', x: 0, y: 90, width: 100, height: 10, content_type: 'widget', widget_type: 'ticker', text: 'Welcome!', background_color: '#1d4ed8', text_color: '#ffffff' },
+    ],
+  },
+  {
+    id: 'grid-2x2',
+    name: '2 × 2 grid',
+    zones: [
+      { name: 'Top left', x: 0, y: 0, width: 50, height: 50, content_type: 'main' },
+      { name: 'Top right', x: 50, y: 0, width: 50, height: 50, content_type: 'playlist' },
+      { name: 'Bottom left', x: 0, y: 50, width: 50, height: 50, content_type: 'playlist' },
+      { name: 'Bottom right', x: 50, y: 50, width: 50, height: 50, content_type: 'playlist' },
+    ],
+  },
+  {
+    id: 'l-shaped',
+    name: 'L-shaped',
+    zones: [
+      { name: 'Main', x: 20, y: 0, width: 80, height: 80, content_type: 'main' },
+      { name: 'Side', x: 0, y: 0, width: 20, height: 100, content_type: 'widget', widget_type: 'text', text: 'Your message here', background_color: '#111827', text_color: '#ffffff' },
+      { name: 'Bottom', x: 20, y: 80, width: 80, height: 20, content_type: 'playlist' },
+    ],
+  },
+];
+
+// Used for screens without a layout
+export const FULLSCREEN_ZONE: LayoutZone = {
+  id: 'main',
+  ...LAYOUT_TEMPLATES[0].zones[0],
+};
+
+const LAYOUT_STORAGE_KEY = 'video-display:layout';
+
+const generateZoneId = () => `zone-${Math.random().toString(36).slice(2, 10)}`;
+
+export const layoutUtils = {
+  fromTemplate(template: LayoutTemplate): LayoutZone[] {
+    return template.zones.map(zone => ({ ...zone, id: generateZoneId() }));
+  },
+
+  createZone(): LayoutZone {
+    return {
+      id: generateZoneId(),
+      name: 'New zone',
+      x: 0,
+      y: 0,
+      width: 50,
+      height: 50,
+      content_type: 'playlist',
+    };
+  },
+
+  getMainZone(layout: Layout | null): LayoutZone {
+    return layout?.zones.find(zone => zone.content_type === 'main') || FULLSCREEN_ZONE;
+  },
+
+  // The last layout seen by this display, so zones come back after an offline reload
+  getCachedLayout(): Layout | null {
+    try {
+      const stored = window.localStorage.getItem(LAYOUT_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch {
+      return null;
+    }
+  },
+
+  storeCachedLayout(layout: Layout | null) {
+    try {
+      if (layout) {
+        window.localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+      } else {
+        window.localStorage.removeItem(LAYOUT_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Unable to cache layout:', error);
+    }
+  },
+
+  getZoneStyle(zone: LayoutZone): CSSProperties {
+    return {
+      position: 'absolute',
+      left: `${zone.x}%`,
+      top: `${zone.y}%`,
+      width: `${zone.width}%`,
+      height: `${zone.height}%`,
+      backgroundColor: zone.background_color,
+      color: zone.text_color,
+      overflow: 'hidden',
+    };
+  },
+
+  // Returns a list of problems; an empty list means the layout can be saved
+  validateZones(zones: LayoutZone[]): string[] {
+    const errors: string[] = [];
+    const mainZones = zones.filter(zone => zone.content_type === 'main');
+
+    if (mainZones.length !== 1) {
+      errors.push('A layout needs exactly one main zone');
+    }
+
+    zones.forEach(zone => {
+      if (zone.width <= 0 || zone.height <= 0) {
+        errors.push(`${zone.name}: width and height must be greater than 0`);
+      }
+      if (zone.x < 0 || zone.y < 0 || zone.x + zone.width > 100 || zone.y + zone.height > 100) {
+        errors.push(`${zone.name}: must stay within the screen (0-100%)`);
+      }
+      if (zone.content_type === 'playlist' && !zone.playlist_id) {
+        errors.push(`${zone.name}: choose a playlist`);
+      }
+      if (zone.content_type === 'widget' && !zone.widget_type) {
+        errors.push(`${zone.name}: choose a widget`);
+      }
+      if (zone.content_type === 'widget' && zone.widget_type === 'feed' && !zone.feed_url) {
+        errors.push(`${zone.name}: enter a feed URL or upload a file`);
+      }
+    });
+
+    return errors;
+  }
+};
+
+// Layout API functions
+export const layoutApi = {
+  async getLayouts(): Promise<Layout[]> {
+    const { data, error } = await supabase
+      .from('layouts')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getLayout(id: string): Promise<Layout | null> {
+    const { data, error } = await supabase
+      .from('layouts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async addLayout(name: string, zones: LayoutZone[]): Promise<Layout> {
+    const { data, error } = await supabase
+      .from('layouts')
+      .insert({
+        name,
+        zones,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateLayout(id: string, updates: Partial<Pick<Layout, 'name' | 'zones'>>): Promise<Layout> {
+    const { data, error } = await supabase
+      .from('layouts')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteLayout(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('layouts')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  subscribeToLayout(layoutId: string, callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel(`layout-${layoutId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'layouts', filter: `id=eq.${layoutId}` },
+        callback
+      )
+      .subscribe();
+  }
+};
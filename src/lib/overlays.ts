@@ -0,0 +1,192 @@
+// src/lib/overlays.ts - Overlay widgets (ticker, clock, logo, text banner, data feed) drawn over playback
+import { supabase, scheduleUtils, Schedulable } from '@/lib/supabase';
+import { Screen } from '@/lib/screens';
+import { overrideUtils } from '@/lib/overrides';
+import { DataFeedConfig } from '@/lib/dataFeeds';
+import type { ScheduleCalendar } from '@/lib/calendars';
+
+export type OverlayWidgetType = 'ticker' | 'clock' | 'logo' | 'text' | 'feed';
+
+// 'top' and 'bottom' are full-width bars; the rest are corner/centre badges
+export type OverlayPosition = 'top' | 'bottom' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface OverlayWidget extends Schedulable, DataFeedConfig {
+  id: string;
+  name: string;
+  widget_type: OverlayWidgetType;
+  position: OverlayPosition;
+  font_size: number;                // Pixels; the image height for logos
+  text_color: string;
+  background_color?: string | null; // Transparent when empty
+  text?: string | null;             // Text banners
+  image_url?: string | null;        // Logos
+  target_type: 'all' | 'group' | 'screen';
+  target_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TickerMessage {
+  id: string;
+  widget_id: string;
+  message: string;
+  position: number;
+  created_at: string;
+}
+
+export const OVERLAY_WIDGET_LABELS: Record<OverlayWidgetType, string> = {
+  ticker: 'Scrolling ticker',
+  clock: 'Clock & date',
+  logo: 'Logo watermark',
+  text: 'Text banner',
+  feed: 'Data feed',
+};
+
+export const OVERLAY_POSITION_LABELS: Record<OverlayPosition, string> = {
+  top: 'Top bar',
+  bottom: 'Bottom bar',
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+  center: 'Centre',
+};
+
+const OVERLAY_CACHE_KEY = 'video-display:overlays';
+
+interface CachedOverlays {
+  widgets: OverlayWidget[];
+  messages: TickerMessage[];
+}
+
+export const overlayUtils = {
+  isShowing(widget: OverlayWidget, screen: Screen | null, calendars: ScheduleCalendar[], now: Date = new Date()): boolean {
+    return overrideUtils.targetsScreen(widget, screen) && scheduleUtils.isVideoScheduledNow(widget, calendars, now);
+  },
+
+  // All messages of a ticker run one after the other in a single scrolling line
+  getTickerText(widgetId: string, messages: TickerMessage[]): string {
+    return messages
+      .filter(message => message.widget_id === widgetId)
+      .sort((a, b) => a.position - b.position)
+      .map(message => message.message)
+      .join('   •   ');
+  },
+
+  // Widgets for this screen, so they come back after an offline reload
+  getCachedOverlays(): CachedOverlays {
+    try {
+      const stored = window.localStorage.getItem(OVERLAY_CACHE_KEY);
+      return stored ? JSON.parse(stored) : { widgets: [], messages: [] };
+    } catch {
+      return { widgets: [], messages: [] };
+    }
+  },
+
+  storeCachedOverlays(overlays: CachedOverlays) {
+    try {
+      window.localStorage.setItem(OVERLAY_CACHE_KEY, JSON.stringify(overlays));
+    } catch (error) {
+      console.warn('Unable to cache overlays:', error);
+    }
+  }
+};
+
+// Overlay API functions
+export const overlayApi = {
+  async getWidgets(): Promise<OverlayWidget[]> {
+    const { data, error } = await supabase
+      .from('overlay_widgets')
+      .select('*')
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addWidget(widget: Omit<OverlayWidget, 'id' | 'created_at' | 'updated_at'>): Promise<OverlayWidget> {
+    const { data, error } = await supabase
+      .from('overlay_widgets')
+      .insert({
+        ...widget,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateWidget(id: string, updates: Partial<OverlayWidget>): Promise<OverlayWidget> {
+    const { data, error } = await supabase
+      .from('overlay_widgets')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteWidget(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('overlay_widgets')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getTickerMessages(): Promise<TickerMessage[]> {
+    const { data, error } = await supabase
+      .from('ticker_messages')
+      .select('*')
+      .order('position');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addTickerMessage(widgetId: string, message: string, position: number): Promise<TickerMessage> {
+    const { data, error } = await supabase
+      .from('ticker_messages')
+      .insert({
+        widget_id: widgetId,
+        message,
+        position,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async deleteTickerMessage(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('ticker_messages')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Widget and ticker message changes share one channel
+  subscribeToOverlays(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('overlays')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'overlay_widgets' },
+        callback
+      )
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'ticker_messages' },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,169 @@
+// src/lib/overrides.ts - Emergency and priority overrides that interrupt normal playback
+import { supabase } from '@/lib/supabase';
+import type { Screen } from '@/lib/screens';
+
+export interface Override {
+  id: string;
+  title: string;
+  content_type: 'text' | 'image' | 'video';
+  message?: string | null;            // Shown for text overrides, and as a caption otherwise
+  media_url?: string | null;          // Image or video file for media overrides
+  video_id?: string | null;           // The library video a video override was created from
+  background_color: string;
+  text_color: string;
+  target_type: 'all' | 'group' | 'screen';
+  target_id?: string | null;          // Group or screen id
+  starts_at: string;
+  expires_at?: string | null;         // null keeps the override until it is cleared
+  cleared_at?: string | null;
+  created_at: string;
+}
+
+type OverrideInput = Omit<Override, 'id' | 'cleared_at' | 'created_at'>;
+
+const OVERRIDE_CACHE_KEY = 'video-display:overrides';
+
+export const overrideUtils = {
+  isEnded(override: Override, now: Date = new Date()): boolean {
+    if (override.cleared_at) return true;
+    return !!override.expires_at && new Date(override.expires_at) <= now;
+  },
+
+  isActive(override: Override, now: Date = new Date()): boolean {
+    return new Date(override.starts_at) <= now && !this.isEnded(override, now);
+  },
+
+  // Also used by overlay widgets, which target screens the same way
+  targetsScreen(override: Pick<Override, 'target_type' | 'target_id'>, screen: Screen | null): boolean {
+    switch (override.target_type) {
+      case 'all':
+        return true;
+      case 'group':
+        return !!screen?.group_id && override.target_id === screen.group_id;
+      case 'screen':
+        return !!screen && override.target_id === screen.id;
+      default:
+        return false;
+    }
+  },
+
+  // The most recently started override wins when several are active
+  getActiveOverride(overrides: Override[], now: Date = new Date()): Override | null {
+    return overrides
+      .filter(override => this.isActive(override, now))
+      .sort((a, b) => new Date(b.starts_at).getTime() - new Date(a.starts_at).getTime())[0] || null;
+  },
+
+  // Next time an override starts or expires, so the display can switch exactly then
+  getNextChange(overrides: Override[], now: Date = new Date()): Date | null {
+    const times = overrides
+      .flatMap(override => [override.starts_at, override.expires_at])
+      .filter((time): time is string => !!time)
+      .map(time => new Date(time))
+      .filter(time => time > now)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return times[0] || null;
+  },
+
+  // Overrides are cached so they keep showing after a reload while offline
+  getCachedOverrides(): Override[] {
+    try {
+      const stored = window.localStorage.getItem(OVERRIDE_CACHE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  storeCachedOverrides(overrides: Override[]) {
+    try {
+      window.localStorage.setItem(OVERRIDE_CACHE_KEY, JSON.stringify(overrides));
+    } catch (error) {
+      console.warn('Unable to cache overrides:', error);
+    }
+  },
+
+  describeTarget(override: Pick<Override, 'target_type' | 'target_id'>, screens: Screen[], groups: { id: string; name: string }[]): string {
+    switch (override.target_type) {
+      case 'all':
+        return 'All screens';
+      case 'group':
+        return `Group: ${groups.find(g => g.id === override.target_id)?.name || 'Deleted group'}`;
+      case 'screen':
+        return `Screen: ${screens.find(s => s.id === override.target_id)?.name || 'Deleted screen'}`;
+      default:
+        return 'Unknown target';
+    }
+  }
+};
+
+// Override API functions
+export const overrideApi = {
+  // Get every override (for admin)
+  async getOverrides(): Promise<Override[]> {
+    const { data, error } = await supabase
+      .from('overrides')
+      .select('*')
+      .order('starts_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Get overrides that are active now or scheduled to start (for displays)
+  async getCurrentOverrides(): Promise<Override[]> {
+    const { data, error } = await supabase
+      .from('overrides')
+      .select('*')
+      .is('cleared_at', null)
+      .or(`expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`)
+      .order('starts_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addOverride(override: OverrideInput): Promise<Override> {
+    const { data, error } = await supabase
+      .from('overrides')
+      .insert({
+        ...override,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  // End an override now; displays return to their playlist
+  async clearOverride(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('overrides')
+      .update({ cleared_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async deleteOverride(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('overrides')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  subscribeToOverrides(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('overrides')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'overrides' },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,133 @@
+// src/lib/playLogs.test.ts - Offline play log buffer: size cap, full storage and batched flushes
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { PlayLog } from '@/lib/playLogs';
+
+const { upsert } = vi.hoisted(() => ({ upsert: vi.fn() }));
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: { from: () => ({ upsert }) },
+}));
+
+const plays = (count: number, from = 0): PlayLog[] =>
+  Array.from({ length: count }, (_, index) => ({
+    id: `play-${from + index}`,
+    video_id: 'video-1',
+    started_at: '2026-01-05T12:00:00.000Z',
+    ended_at: '2026-01-05T12:00:30.000Z',
+    duration_seconds: 30,
+    outcome: 'completed',
+  }));
+
+const ids = (buffered: PlayLog[]) => buffered.map(play => play.id);
+
+// Storage that refuses to hold more than `maxPlays` records, like a full localStorage quota
+const useStorage = (maxPlays = Infinity, failure = 'QuotaExceededError') => {
+  const values = new Map<string, string>();
+  vi.stubGlobal('window', {
+    localStorage: {
+      getItem: (key: string) => values.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (JSON.parse(value).length > maxPlays) throw new DOMException('Storage is full', failure);
+        values.set(key, value);
+      },
+    },
+  });
+  return values;
+};
+
+// The module caches the buffer, so every test starts from a fresh copy
+const loadPlayLogs = async () => {
+  vi.resetModules();
+  return import('@/lib/playLogs');
+};
+
+beforeEach(() => {
+  upsert.mockReset();
+  upsert.mockResolvedValue({ error: null });
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('play log buffer', () => {
+  it('keeps only the newest 5000 plays', async () => {
+    const storage = useStorage();
+    const { playLogUtils } = await loadPlayLogs();
+
+    playLogUtils.storeBufferedPlays(plays(6000));
+
+    const stored: PlayLog[] = JSON.parse(storage.get('video-display:play-log')!);
+    expect(stored).toHaveLength(5000);
+    expect(stored[0].id).toBe('play-1000');
+    expect(stored[4999].id).toBe('play-5999');
+  });
+
+  it('drops the oldest quarter of the plays until they fit when storage is full', async () => {
+    useStorage(300);
+    const { playLogUtils } = await loadPlayLogs();
+
+    playLogUtils.storeBufferedPlays(plays(1000));
+
+    // 1000 -> 750 -> 562 -> 421 -> 315 -> 236
+    const buffered = playLogUtils.getBufferedPlays();
+    expect(buffered).toHaveLength(236);
+    expect(buffered[0].id).toBe('play-764');
+    expect(buffered[235].id).toBe('play-999');
+    expect(console.warn).toHaveBeenCalledWith('Play log storage is full, dropping the oldest 250 plays');
+  });
+
+  it('keeps plays in memory when storage refuses them for another reason', async () => {
+    useStorage(0, 'SecurityError');
+    const { playLogUtils } = await loadPlayLogs();
+
+    playLogUtils.bufferPlay(plays(1)[0]);
+
+    expect(ids(playLogUtils.getBufferedPlays())).toEqual(['play-0']);
+    expect(console.warn).toHaveBeenCalledWith('Unable to buffer play log:', expect.any(DOMException));
+  });
+});
+
+describe('flush', () => {
+  it('uploads in batches of 500 and ignores plays the database already has', async () => {
+    useStorage();
+    const { playLogUtils, playLogApi } = await loadPlayLogs();
+    playLogUtils.storeBufferedPlays(plays(1200));
+
+    expect(await playLogApi.flush()).toBe(1200);
+
+    expect(upsert.mock.calls.map(([batch]) => batch.length)).toEqual([500, 500, 200]);
+    expect(upsert).toHaveBeenCalledWith(expect.any(Array), { onConflict: 'id', ignoreDuplicates: true });
+    expect(playLogUtils.getBufferedPlays()).toEqual([]);
+  });
+
+  it('keeps the plays of a failed batch for the next attempt', async () => {
+    useStorage();
+    const { playLogUtils, playLogApi } = await loadPlayLogs();
+    playLogUtils.storeBufferedPlays(plays(1200));
+    upsert
+      .mockResolvedValueOnce({ error: null })
+      .mockResolvedValueOnce({ error: { message: 'connection reset', code: '08006' } });
+
+    await expect(playLogApi.flush()).rejects.toThrow('connection reset');
+
+    const buffered = playLogUtils.getBufferedPlays();
+    expect(buffered).toHaveLength(700);
+    expect(buffered[0].id).toBe('play-500');
+  });
+
+  it('keeps plays recorded while a batch is uploading', async () => {
+    useStorage();
+    const { playLogUtils, playLogApi } = await loadPlayLogs();
+    playLogUtils.storeBufferedPlays(plays(2));
+    upsert.mockImplementationOnce(async () => {
+      playLogUtils.bufferPlay(plays(1, 2)[0]);
+      return { error: null };
+    });
+
+    expect(await playLogApi.flush()).toBe(3);
+    expect(upsert.mock.calls.map(([batch]) => ids(batch))).toEqual([['play-0', 'play-1'], ['play-2']]);
+  });
+});
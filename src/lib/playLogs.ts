@@ -0,0 +1,245 @@
+// src/lib/playLogs.ts - Proof-of-play records and reporting
+import { supabase } from '@/lib/supabase';
+
+export type PlayOutcome = 'completed' | 'skipped' | 'errored';
+
+// 'touch' plays were picked by a viewer from a kiosk menu; anything else is the scheduled loop
+export type PlaySource = 'loop' | 'touch';
+
+export interface PlayLog {
+  id: string;                 // Generated on the display so retried flushes do not duplicate plays
+  screen_id?: string | null;
+  device_id?: string | null;
+  video_id: string;
+  playlist_item_id?: string | null;
+  started_at: string;
+  ended_at: string;
+  duration_seconds: number;
+  outcome: PlayOutcome;
+  error_message?: string | null;
+  source?: PlaySource | null;
+}
+
+export interface PlayLogSummary {
+  day: string;                // YYYY-MM-DD in the screen's timezone
+  video_id: string;
+  screen_id: string | null;
+  plays: number;
+  completed: number;
+  skipped: number;
+  errored: number;
+  touch: number;              // Plays started from a kiosk menu
+  total_seconds: number;
+}
+
+export interface ShareOfVoice {
+  video_id: string;
+  plays: number;
+  total_seconds: number;
+  share: number;              // Percentage of all play time in the summaries
+}
+
+const PLAY_LOG_BUFFER_KEY = 'video-display:play-log';
+
+// About two days of continuous 30 second clips (~2MB), well inside the usual 5MB
+// localStorage quota; the oldest records are dropped beyond this
+const MAX_BUFFERED_PLAYS = 5000;
+
+// Supabase returns at most 1000 rows per request
+const REPORT_PAGE_SIZE = 1000;
+
+// Keep request bodies small when a display comes back after a long time offline
+const FLUSH_BATCH_SIZE = 500;
+
+// The buffer as last read or written, so recording a play doesn't parse it again
+let bufferedPlays: PlayLog[] | null = null;
+
+const isQuotaExceeded = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// crypto.randomUUID is only available in secure contexts, which kiosks on plain http are not
+const generatePlayId = (): string => {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes).map(value => value.toString(16).padStart(2, '0')).join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+export const playLogUtils = {
+  createPlay(
+    fields: Omit<PlayLog, 'id' | 'ended_at' | 'duration_seconds'>,
+    endedAt: Date = new Date()
+  ): PlayLog {
+    const duration = (endedAt.getTime() - new Date(fields.started_at).getTime()) / 1000;
+    return {
+      ...fields,
+      id: generatePlayId(),
+      ended_at: endedAt.toISOString(),
+      duration_seconds: Math.max(0, Math.round(duration * 10) / 10),
+    };
+  },
+
+  getBufferedPlays(): PlayLog[] {
+    if (bufferedPlays) return bufferedPlays;
+    try {
+      const stored = window.localStorage.getItem(PLAY_LOG_BUFFER_KEY);
+      bufferedPlays = stored ? JSON.parse(stored) : [];
+    } catch {
+      bufferedPlays = [];
+    }
+    return bufferedPlays as PlayLog[];
+  },
+
+  // When storage is full (other caches share the quota), the oldest plays make room for new ones
+  storeBufferedPlays(plays: PlayLog[]) {
+    let kept = plays.slice(-MAX_BUFFERED_PLAYS);
+
+    for (;;) {
+      try {
+        window.localStorage.setItem(PLAY_LOG_BUFFER_KEY, JSON.stringify(kept));
+        break;
+      } catch (error) {
+        if (!isQuotaExceeded(error) || kept.length === 0) {
+          console.warn('Unable to buffer play log:', error);
+          break;
+        }
+        const dropped = Math.ceil(kept.length / 4);
+        console.warn(`Play log storage is full, dropping the oldest ${dropped} plays`);
+        kept = kept.slice(dropped);
+      }
+    }
+
+    // Kept in memory even when storage fails, so the plays can still be flushed from this page
+    bufferedPlays = kept;
+  },
+
+  bufferPlay(play: PlayLog) {
+    this.storeBufferedPlays([...this.getBufferedPlays(), play]);
+  },
+
+  // Calendar day of a timestamp in the given timezone
+  getDay(timestamp: string, timezone?: string): string {
+    try {
+      return new Date(timestamp).toLocaleDateString('en-CA', { timeZone: timezone || undefined });
+    } catch {
+      return timestamp.slice(0, 10);
+    }
+  },
+
+  // Aggregate plays per day, video and screen
+  summarize(plays: PlayLog[], getTimezone: (screenId?: string | null) => string | undefined): PlayLogSummary[] {
+    const summaries = new Map<string, PlayLogSummary>();
+
+    plays.forEach(play => {
+      const day = this.getDay(play.started_at, getTimezone(play.screen_id));
+      const key = `${day}|${play.video_id}|${play.screen_id || ''}`;
+
+      const summary = summaries.get(key) || {
+        day,
+        video_id: play.video_id,
+        screen_id: play.screen_id || null,
+        plays: 0,
+        completed: 0,
+        skipped: 0,
+        errored: 0,
+        touch: 0,
+        total_seconds: 0,
+      };
+
+      summary.plays += 1;
+      summary[play.outcome] += 1;
+      if (play.source === 'touch') summary.touch += 1;
+      summary.total_seconds += play.duration_seconds;
+      summaries.set(key, summary);
+    });
+
+    return Array.from(summaries.values()).sort((a, b) =>
+      b.day.localeCompare(a.day) || b.plays - a.plays
+    );
+  },
+
+  // Each video's share of the total play time, largest first
+  getShareOfVoice(summaries: PlayLogSummary[]): ShareOfVoice[] {
+    const byVideo = new Map<string, ShareOfVoice>();
+    let totalSeconds = 0;
+
+    summaries.forEach(summary => {
+      const share = byVideo.get(summary.video_id) || { video_id: summary.video_id, plays: 0, total_seconds: 0, share: 0 };
+      share.plays += summary.plays;
+      share.total_seconds += summary.total_seconds;
+      byVideo.set(summary.video_id, share);
+      totalSeconds += summary.total_seconds;
+    });
+
+    return Array.from(byVideo.values())
+      .map(share => ({ ...share, share: totalSeconds > 0 ? (share.total_seconds / totalSeconds) * 100 : 0 }))
+      .sort((a, b) => b.share - a.share);
+  },
+
+  toCsv(headers: string[], rows: (string | number)[][]): string {
+    const escape = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [headers, ...rows].map(row => row.map(escape).join(',')).join('\n');
+  }
+};
+
+// Play log API functions
+export const playLogApi = {
+  // Send buffered plays to the database; anything that fails stays buffered for the next attempt
+  async flush(): Promise<number> {
+    let flushed = 0;
+
+    for (;;) {
+      const batch = playLogUtils.getBufferedPlays().slice(0, FLUSH_BATCH_SIZE);
+      if (batch.length === 0) break;
+
+      const { error } = await supabase
+        .from('play_logs')
+        .upsert(batch, { onConflict: 'id', ignoreDuplicates: true });
+
+      if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+
+      // Re-read the buffer so plays recorded while the request was in flight are kept
+      const flushedIds = new Set(batch.map(play => play.id));
+      playLogUtils.storeBufferedPlays(
+        playLogUtils.getBufferedPlays().filter(play => !flushedIds.has(play.id))
+      );
+      flushed += batch.length;
+    }
+
+    return flushed;
+  },
+
+  // Get plays that started within a time range (for reports)
+  async getPlays(from: Date, to: Date, screenId?: string): Promise<PlayLog[]> {
+    const plays: PlayLog[] = [];
+
+    for (let offset = 0; ; offset += REPORT_PAGE_SIZE) {
+      let query = supabase
+        .from('play_logs')
+        .select('*')
+        .gte('started_at', from.toISOString())
+        .lt('started_at', to.toISOString())
+        .order('started_at', { ascending: true })
+        .range(offset, offset + REPORT_PAGE_SIZE - 1);
+
+      if (screenId) {
+        query = query.eq('screen_id', screenId);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      plays.push(...(data || []));
+      if (!data || data.length < REPORT_PAGE_SIZE) break;
+    }
+
+    return plays;
+  }
+};
@@ -0,0 +1,363 @@
+// src/lib/playlists.ts - Named playlists with ordered items
+import { supabase, mediaUtils, scheduleUtils, Video } from '@/lib/supabase';
+import { screenUtils, Screen, VideoAssignment } from '@/lib/screens';
+import type { ScheduleCalendar } from '@/lib/calendars';
+import { daypartUtils } from '@/lib/dayparts';
+
+export interface Playlist {
+  id: string;
+  name: string;
+  description?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// How the display switches into a playlist item
+export type TransitionType = 'cut' | 'crossfade' | 'fade';
+
+export const TRANSITION_DURATION_MS = 800;
+
+export interface PlaylistItem {
+  id: string;
+  playlist_id: string;
+  video_id: string;
+  position: number;
+  duration_override?: number | null; // Seconds; cuts the video short when set
+  loop_count: number;                // How many times the video plays before advancing
+  transition?: TransitionType | null; // Transition into this item; defaults to a cut
+  created_at: string;
+}
+
+// A single entry in the display's playback loop
+export interface PlaybackItem {
+  key: string;
+  video: Video;
+  playlistItem?: PlaylistItem;
+  durationOverride?: number | null;
+  loopCount: number;
+  transition?: TransitionType;
+}
+
+// Everything the display needs to rebuild its loop while the database is unreachable
+export interface PlaybackSnapshot {
+  screen: Screen | null;
+  videos: Video[];
+  assignments: VideoAssignment[];
+  playlistItems: PlaylistItem[] | null;
+  daypartItems?: Record<string, PlaylistItem[]>; // Items of each daypart playlist, by playlist id
+  calendars?: ScheduleCalendar[]; // Missing from snapshots cached before calendars existed
+}
+
+// The display re-checks schedules at least this often, in case a boundary was missed
+export const SCHEDULE_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+const SNAPSHOT_STORAGE_KEY = 'video-display:playback';
+const FALLBACK_STORAGE_KEY = 'video-display:fallback';
+
+export const playlistUtils = {
+  // Build the playback loop from a playlist, skipping videos that are missing or filtered out
+  buildPlaybackItems(
+    items: PlaylistItem[],
+    videos: Video[],
+    isPlayable: (video: Video) => boolean
+  ): PlaybackItem[] {
+    const videosById = new Map(videos.map(video => [video.id, video]));
+
+    return [...items]
+      .sort((a, b) => a.position - b.position)
+      .reduce<PlaybackItem[]>((playback, item) => {
+        const video = videosById.get(item.video_id);
+        if (video && isPlayable(video)) {
+          playback.push({
+            key: item.id,
+            video,
+            playlistItem: item,
+            durationOverride: item.duration_override,
+            loopCount: Math.max(1, item.loop_count || 1),
+            transition: item.transition || 'cut',
+          });
+        }
+        return playback;
+      }, []);
+  },
+
+  // The playlist a screen plays at a time: its daypart's playlist, else its own playlist.
+  // A daypart whose playlist isn't in daypartItems (e.g. deleted) plays nothing.
+  getActivePlaylistItems(
+    screen: Screen | null,
+    playlistItems: PlaylistItem[] | null,
+    daypartItems: Record<string, PlaylistItem[]> = {},
+    at?: Date
+  ): PlaylistItem[] | null {
+    const daypart = daypartUtils.getActiveDaypart(screen, at);
+    return daypart ? daypartItems[daypart.playlist_id] || [] : playlistItems;
+  },
+
+  // What a screen plays at a given time (now by default). The display and the
+  // admin timeline both use this, so a preview can't drift from playback.
+  selectPlaybackItems(
+    videos: Video[],
+    screen: Screen | null,
+    assignments: VideoAssignment[],
+    playlistItems: PlaylistItem[] | null,
+    calendars: ScheduleCalendar[],
+    at?: Date,
+    daypartItems?: Record<string, PlaylistItem[]>
+  ): PlaybackItem[] {
+    const isScheduled = (video: Video) => video.is_active && scheduleUtils.isVideoScheduledNow(video, calendars, at);
+    const activeItems = this.getActivePlaylistItems(screen, playlistItems, daypartItems, at);
+
+    // Screens with a playlist play its items in order, still honouring each video's schedule
+    if (activeItems) {
+      return this.buildPlaybackItems(activeItems, videos, isScheduled);
+    }
+
+    return this.fromVideos(videos.filter(video =>
+      isScheduled(video) && screenUtils.isVideoAssignedToScreen(video, screen, assignments)
+    ));
+  },
+
+  // Next time the scheduled loop of a snapshot can change, from the videos it could play
+  // and the screen's dayparts
+  getNextScheduleChange(snapshot: PlaybackSnapshot, from?: Date): Date | null {
+    const daypartVideoIds = Object.values(snapshot.daypartItems || {}).flat().map(item => item.video_id);
+    const playlistVideoIds = snapshot.playlistItems &&
+      new Set([...snapshot.playlistItems.map(item => item.video_id), ...daypartVideoIds]);
+    const candidates = snapshot.videos.filter(video =>
+      playlistVideoIds
+        ? playlistVideoIds.has(video.id)
+        : daypartVideoIds.includes(video.id) ||
+          screenUtils.isVideoAssignedToScreen(video, snapshot.screen, snapshot.assignments)
+    );
+
+    const changes = [
+      scheduleUtils.getNextChange(candidates, from),
+      daypartUtils.getNextBoundary(snapshot.screen, from),
+    ].filter((change): change is Date => change !== null);
+    return changes.sort((a, b) => a.getTime() - b.getTime())[0] || null;
+  },
+
+  // What a screen plays when nothing is scheduled: its fallback playlist, or its
+  // fallback video or slide. Schedules are ignored, but inactive videos are not played.
+  selectFallbackItems(
+    videos: Video[],
+    screen: Screen | null,
+    fallbackPlaylistItems: PlaylistItem[] | null
+  ): PlaybackItem[] {
+    if (fallbackPlaylistItems) {
+      return this.buildPlaybackItems(fallbackPlaylistItems, videos, video => video.is_active);
+    }
+
+    const fallbackVideo = videos.find(video => video.id === screen?.fallback_video_id);
+    return fallbackVideo?.is_active ? this.fromVideos([fallbackVideo]) : [];
+  },
+
+  // The last snapshot loaded for this screen; null for a different screen or without a cache
+  getCachedSnapshot(screenSlug: string | null): PlaybackSnapshot | null {
+    try {
+      const stored = window.localStorage.getItem(SNAPSHOT_STORAGE_KEY);
+      const snapshot: PlaybackSnapshot | null = stored ? JSON.parse(stored) : null;
+      if (!snapshot || (screenSlug && snapshot.screen?.slug !== screenSlug)) return null;
+      return snapshot;
+    } catch {
+      return null;
+    }
+  },
+
+  storeSnapshot(snapshot: PlaybackSnapshot) {
+    try {
+      window.localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshot));
+    } catch (error) {
+      console.warn('Unable to cache playback snapshot:', error);
+    }
+  },
+
+  // Kept apart from the snapshot so the fallback still plays if the snapshot didn't fit
+  getCachedFallback(): PlaybackItem[] {
+    try {
+      const stored = window.localStorage.getItem(FALLBACK_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  },
+
+  storeFallback(items: PlaybackItem[]) {
+    try {
+      window.localStorage.setItem(FALLBACK_STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.warn('Unable to cache fallback content:', error);
+    }
+  },
+
+  // Build the playback loop from plain videos (screens without a playlist)
+  fromVideos(videos: Video[]): PlaybackItem[] {
+    return [...videos]
+      .sort((a, b) => a.sequence_order - b.sequence_order)
+      .map(video => ({
+        key: video.id,
+        video,
+        loopCount: 1,
+      }));
+  },
+
+  // Total running time of a playlist in seconds (videos without a duration count as 0)
+  getTotalDuration(items: PlaylistItem[], videos: Video[]): number {
+    const videosById = new Map(videos.map(video => [video.id, video]));
+    return items.reduce((total, item) => {
+      const video = videosById.get(item.video_id);
+      const duration = item.duration_override ?? (video ? mediaUtils.getDuration(video) : 0);
+      return total + duration * Math.max(1, item.loop_count || 1);
+    }, 0);
+  },
+
+  // Seconds an image or web page stays up; a playlist duration override wins
+  getSlideDuration(item: PlaybackItem): number {
+    return item.durationOverride || mediaUtils.getDuration(item.video);
+  },
+
+  // Slides have no 'ended' event. Calls onElapsed after every `seconds` of playing time,
+  // not counting time while isHeld() (paused or under an override). Returns a stop function.
+  startSlideTimer(seconds: number, isHeld: () => boolean, onElapsed: () => void): () => void {
+    let elapsedMs = 0;
+    let lastTick = Date.now();
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      if (!isHeld()) elapsedMs += now - lastTick;
+      lastTick = now;
+
+      if (elapsedMs >= seconds * 1000) {
+        elapsedMs = 0;
+        onElapsed();
+      }
+    }, 250);
+
+    return () => clearInterval(interval);
+  }
+};
+
+// Playlist API functions
+export const playlistApi = {
+  async getPlaylists(): Promise<Playlist[]> {
+    const { data, error } = await supabase
+      .from('playlists')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addPlaylist(name: string, description?: string): Promise<Playlist> {
+    if (!name) {
+      throw new Error('Playlist name is required');
+    }
+
+    const { data, error } = await supabase
+      .from('playlists')
+      .insert({
+        name,
+        description: description || null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updatePlaylist(id: string, updates: Partial<Playlist>): Promise<Playlist> {
+    const { data, error } = await supabase
+      .from('playlists')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deletePlaylist(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playlists')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Get a playlist's items in play order
+  async getItems(playlistId: string): Promise<PlaylistItem[]> {
+    const { data, error } = await supabase
+      .from('playlist_items')
+      .select('*')
+      .eq('playlist_id', playlistId)
+      .order('position');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Append a video to the end of a playlist
+  async addItem(playlistId: string, videoId: string, position: number): Promise<PlaylistItem> {
+    const { data, error } = await supabase
+      .from('playlist_items')
+      .insert({
+        playlist_id: playlistId,
+        video_id: videoId,
+        position,
+        loop_count: 1,
+        created_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateItem(id: string, updates: Partial<Pick<PlaylistItem, 'duration_override' | 'loop_count' | 'transition'>>): Promise<PlaylistItem> {
+    const { data, error } = await supabase
+      .from('playlist_items')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async removeItem(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('playlist_items')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Persist a new item order in a single request
+  async reorderItems(items: PlaylistItem[]): Promise<void> {
+    const { error } = await supabase
+      .from('playlist_items')
+      .upsert(items.map((item, index) => ({ ...item, position: index })));
+
+    if (error) throw error;
+  },
+
+  // Subscribe to changes of a single playlist's items
+  subscribeToPlaylist(playlistId: string, callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel(`playlist-${playlistId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'playlist_items', filter: `playlist_id=eq.${playlistId}` },
+        callback
+      )
+      .subscribe();
+  }
+};
@@ -0,0 +1,126 @@
+// src/lib/rotation.test.ts - Playback rules: weighting, spacing, hourly minimums and daily counts
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { Video } from '@/lib/supabase';
+import type { PlaybackItem } from '@/lib/playlists';
+import { rotationUtils } from '@/lib/rotation';
+
+const item = (id: string, fields: Partial<Video> = {}): PlaybackItem => ({
+  key: id,
+  loopCount: 1,
+  video: {
+    id,
+    title: id,
+    file_url: `/uploads/${id}.mp4`,
+    file_name: `${id}.mp4`,
+    duration: 30,
+    sequence_order: 0,
+    is_active: true,
+    schedule_type: 'always',
+    schedule_timezone: 'UTC',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    ...fields,
+  },
+});
+
+const rotation = (items: PlaybackItem[]) =>
+  rotationUtils.buildRotation(items).map(entry => entry.video.id).join(' ');
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('buildRotation', () => {
+  it('leaves the loop alone when no video has rules', () => {
+    const items = [item('a'), item('b'), item('c')];
+    expect(rotationUtils.buildRotation(items)).toBe(items);
+  });
+
+  it('spreads each video by its weight (smooth weighted round-robin)', () => {
+    expect(rotation([item('a', { play_weight: 3 }), item('b')])).toBe('a a b a');
+    expect(rotation([item('a', { play_weight: 2 }), item('b'), item('c')])).toBe('a b c a');
+  });
+
+  it('reduces weights to the shortest rotation with the same shares', () => {
+    expect(rotation([item('a', { play_weight: 2 }), item('b', { play_weight: 2 })])).toBe('a b');
+  });
+
+  it('gives every play its own key', () => {
+    const keys = rotationUtils.buildRotation([item('a', { play_weight: 2 }), item('b')]).map(entry => entry.key);
+    expect(keys).toEqual(['a#0', 'b#0', 'a#1']);
+  });
+
+  it('keeps never back-to-back videos apart, including across the end of the rotation', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Round-robin alone gives "a b c a", which repeats a when the rotation loops
+    expect(rotation([item('a', { play_weight: 2, no_back_to_back: true }), item('b'), item('c')])).toBe('a b a c');
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('warns when a video plays too often to keep apart', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(rotation([item('a', { play_weight: 3, no_back_to_back: true }), item('b')])).toBe('a b a a');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('"a" is set to never play back-to-back'));
+  });
+});
+
+describe('getPlayCounts', () => {
+  it('raises counts until each minimum per hour holds over the rotation', () => {
+    // A 30-minute video with a 30-second one that must play 6 times an hour:
+    // 1 + 4 plays last 32 minutes, so 4 plays are 7.5 an hour
+    const counts = rotationUtils.getPlayCounts([
+      item('long', { duration: 30 * 60 }),
+      item('short', { min_plays_per_hour: 6 }),
+    ]);
+    expect(counts).toEqual([1, 4]);
+  });
+
+  it('stops growing the rotation when the minimums cannot fit in an hour', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const counts = rotationUtils.getPlayCounts([
+      item('a', { duration: 60, min_plays_per_hour: 1000 }),
+      item('b', { duration: 60 }),
+    ]);
+    expect(counts).toEqual([584, 1]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('do not fit in an hour'));
+  });
+});
+
+describe('daily play counts', () => {
+  const useStorage = () => {
+    const values = new Map<string, string>();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => { values.set(key, value); },
+      },
+    });
+  };
+
+  it('reset at midnight in the screen timezone', () => {
+    useStorage();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T23:30:00Z')); // 18:30 in New York
+
+    rotationUtils.recordPlay('a', 'America/New_York');
+    expect(rotationUtils.recordPlay('a', 'America/New_York')).toBe(2);
+
+    vi.setSystemTime(new Date('2026-01-06T04:59:00Z')); // 23:59 in New York
+    expect(rotationUtils.getPlaysToday('America/New_York')).toEqual({ a: 2 });
+
+    vi.setSystemTime(new Date('2026-01-06T05:00:00Z')); // Midnight in New York
+    expect(rotationUtils.getPlaysToday('America/New_York')).toEqual({});
+  });
+
+  it('belong to the day of the timezone they were counted in', () => {
+    useStorage();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-05T23:30:00Z')); // Still the 5th in New York, already the 6th in Tokyo
+
+    rotationUtils.recordPlay('a', 'America/New_York');
+    expect(rotationUtils.getPlaysToday('Asia/Tokyo')).toEqual({});
+    expect(rotationUtils.recordPlay('a', 'Asia/Tokyo')).toBe(1);
+  });
+});
@@ -0,0 +1,169 @@
+// src/lib/rotation.ts - Frequency, weighting and share-of-voice rules for the display loop
+import { Video, mediaUtils } from '@/lib/supabase';
+import type { PlaybackItem } from '@/lib/playlists';
+import { scheduleUtils } from '@/lib/schedule';
+import { clockUtils } from '@/lib/clock';
+
+export type PlaybackRules = Pick<Video,
+  'play_weight' | 'min_plays_per_hour' | 'max_plays_per_day' | 'no_back_to_back' | 'share_of_voice'
+>;
+
+interface PlayCounts {
+  day: string;
+  counts: Record<string, number>;
+}
+
+// The rotation is built to last about this long, so "per hour" rules hold over each pass
+const ROTATION_SECONDS = 60 * 60;
+
+// Guards against minimums that can't fit in an hour growing the rotation forever
+const MAX_ROTATION_LENGTH = 500;
+
+// Videos whose length isn't known yet count as this long
+const UNKNOWN_DURATION_SECONDS = 30;
+
+const PLAY_COUNTS_STORAGE_KEY = 'video-display:play-counts';
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+const getItemSeconds = (item: PlaybackItem) =>
+  (item.durationOverride || mediaUtils.getDuration(item.video) || UNKNOWN_DURATION_SECONDS) * item.loopCount;
+
+// The screen's calendar day, so daily maximums reset at its midnight rather than the device's
+const today = (timezone?: string | null) => scheduleUtils.getZonedTime(clockUtils.now(), timezone || 'UTC').date;
+
+export const rotationUtils = {
+  hasRules(video: PlaybackRules): boolean {
+    return (video.play_weight ?? 1) !== 1 ||
+      !!video.min_plays_per_hour ||
+      !!video.max_plays_per_day ||
+      !!video.no_back_to_back;
+  },
+
+  describe(video: PlaybackRules): string {
+    const parts = [];
+    if ((video.play_weight ?? 1) !== 1) parts.push(`weight ${video.play_weight}x`);
+    if (video.min_plays_per_hour) parts.push(`at least ${video.min_plays_per_hour}/hour`);
+    if (video.max_plays_per_day) parts.push(`at most ${video.max_plays_per_day}/day`);
+    if (video.no_back_to_back) parts.push('never back-to-back');
+    if (video.share_of_voice) parts.push(`${video.share_of_voice}% share of voice`);
+    return parts.join(', ');
+  },
+
+  // Drops videos that already reached their daily maximum on this display
+  withoutExhausted(items: PlaybackItem[], counts: Record<string, number>): PlaybackItem[] {
+    return items.filter(item =>
+      !item.video.max_plays_per_day || (counts[item.video.id] || 0) < item.video.max_plays_per_day
+    );
+  },
+
+  // How many times each item appears in one rotation: its weight, raised until
+  // every "at least N per hour" rule holds for a loop of that length
+  getPlayCounts(items: PlaybackItem[]): number[] {
+    const counts = items.map(item => Math.max(1, Math.round(item.video.play_weight ?? 1)));
+    const seconds = items.map(getItemSeconds);
+
+    for (let pass = 0; pass < 20; pass++) {
+      const rotationSeconds = counts.reduce((total, count, index) => total + count * seconds[index], 0);
+      let changed = false;
+
+      items.forEach((item, index) => {
+        const needed = Math.ceil((item.video.min_plays_per_hour || 0) * rotationSeconds / ROTATION_SECONDS);
+        if (counts[index] < needed) {
+          counts[index] = needed;
+          changed = true;
+        }
+      });
+
+      if (!changed) break;
+      if (counts.reduce((total, count) => total + count, 0) > MAX_ROTATION_LENGTH) {
+        console.warn('Minimum plays per hour do not fit in an hour; playing as often as possible');
+        break;
+      }
+    }
+
+    // 2:2 plays the same as 1:1, with a shorter rotation
+    const divisor = counts.reduce(gcd);
+    return counts.map(count => count / divisor);
+  },
+
+  // A fair rotation of the scheduled items: each one spread evenly by its share
+  // (smooth weighted round-robin), and "never back-to-back" videos kept apart,
+  // including across the end of the rotation. Without rules the loop is unchanged.
+  buildRotation(items: PlaybackItem[]): PlaybackItem[] {
+    if (items.length < 2 || !items.some(item => this.hasRules(item.video))) return items;
+
+    const counts = this.getPlayCounts(items);
+    const total = counts.reduce((sum, count) => sum + count, 0);
+    const remaining = [...counts];
+    const current = counts.map(() => 0);
+    const order: number[] = [];
+
+    const isSeparated = (index: number, neighbour?: number) =>
+      neighbour === undefined ||
+      !items[index].video.no_back_to_back ||
+      items[index].video.id !== items[neighbour].video.id;
+
+    for (let step = 0; step < total; step++) {
+      counts.forEach((count, index) => { current[index] += count; });
+
+      const previous = order[order.length - 1];
+      const candidates = items.map((_, index) => index).filter(index => remaining[index] > 0);
+      const allowed = candidates.filter(index => isSeparated(index, previous));
+      const pool = allowed.length > 0 ? allowed : candidates;
+      const next = pool.reduce((best, index) => (current[index] > current[best] ? index : best));
+
+      current[next] -= total;
+      remaining[next] -= 1;
+      order.push(next);
+    }
+
+    // The rotation loops, so its last item also plays right before its first
+    const last = order[order.length - 1];
+    if (order.length > 2 && !isSeparated(last, order[0])) {
+      const position = order.findIndex((index, i) =>
+        i > 0 && i < order.length - 1 && isSeparated(last, order[i - 1]) && isSeparated(last, index)
+      );
+      if (position !== -1) order.splice(position, 0, order.pop() as number);
+    }
+
+    // A video that makes up more than half the rotation has to repeat somewhere,
+    // e.g. weight 3 against one other video plays "a b a a"
+    const repeated = order.find((index, i) => !isSeparated(index, order[(i + 1) % order.length]));
+    if (repeated !== undefined) {
+      console.warn(`"${items[repeated].video.title}" is set to never play back-to-back but plays too often to keep apart; it will sometimes repeat`);
+    }
+
+    const occurrences = new Map<string, number>();
+    return order.map(index => {
+      const item = items[index];
+      const occurrence = occurrences.get(item.key) || 0;
+      occurrences.set(item.key, occurrence + 1);
+      return { ...item, key: `${item.key}#${occurrence}` };
+    });
+  },
+
+  // Completed plays per video on this display today, reset at midnight in the screen's timezone
+  getPlaysToday(timezone?: string | null): Record<string, number> {
+    try {
+      const stored = window.localStorage.getItem(PLAY_COUNTS_STORAGE_KEY);
+      const playCounts: PlayCounts | null = stored ? JSON.parse(stored) : null;
+      return playCounts?.day === today(timezone) ? playCounts.counts : {};
+    } catch {
+      return {};
+    }
+  },
+
+  // Returns the video's new count for today
+  recordPlay(videoId: string, timezone?: string | null): number {
+    const counts = this.getPlaysToday(timezone);
+    counts[videoId] = (counts[videoId] || 0) + 1;
+
+    try {
+      window.localStorage.setItem(PLAY_COUNTS_STORAGE_KEY, JSON.stringify({ day: today(timezone), counts }));
+    } catch (error) {
+      console.warn('Unable to store play counts:', error);
+    }
+    return counts[videoId];
+  }
+};
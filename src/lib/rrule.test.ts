@@ -0,0 +1,69 @@
+// src/lib/rrule.test.ts - Recurrence rules: expansion, limits and daylight saving
+import { describe, it, expect } from 'vitest';
+import { rruleUtils } from '@/lib/rrule';
+
+// Wall clock times are written as UTC ISO strings: the schedule's local date and time
+const wallClock = (iso: string) => Date.parse(`${iso}Z`);
+
+const nextDates = (text: string, start: string, limit: number, from = start) =>
+  rruleUtils
+    .getNextOccurrences(rruleUtils.parse(text), wallClock(start), wallClock(from), limit)
+    .map(occurrence => new Date(occurrence).toISOString().slice(0, 10));
+
+describe('expansion', () => {
+  it('picks the last weekday of each month with BYSETPOS=-1', () => {
+    expect(nextDates('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', '2026-01-01T09:00:00', 4))
+      .toEqual(['2026-01-30', '2026-02-27', '2026-03-31', '2026-04-30']);
+  });
+
+  it('repeats every other week with INTERVAL=2', () => {
+    expect(nextDates('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE', '2026-01-05T09:00:00', 5))
+      .toEqual(['2026-01-05', '2026-01-07', '2026-01-19', '2026-01-21', '2026-02-02']);
+  });
+
+  it('skips months without the start day instead of moving to their last day', () => {
+    expect(nextDates('FREQ=MONTHLY', '2026-01-31T09:00:00', 4))
+      .toEqual(['2026-01-31', '2026-03-31', '2026-05-31', '2026-07-31']);
+  });
+});
+
+describe('limits', () => {
+  it('stops after COUNT occurrences', () => {
+    expect(nextDates('FREQ=DAILY;COUNT=3', '2026-01-01T09:00:00', 10))
+      .toEqual(['2026-01-01', '2026-01-02', '2026-01-03']);
+  });
+
+  it('counts COUNT from the first occurrence, not from the time asked about', () => {
+    expect(nextDates('FREQ=DAILY;COUNT=3', '2026-01-01T09:00:00', 10, '2026-01-02T12:00:00'))
+      .toEqual(['2026-01-03']);
+  });
+
+  it('includes an UNTIL occurrence and compares it in local time across a DST change', () => {
+    // New York moves to EDT on 2026-03-08; 09:00 local is 14:00Z before and 13:00Z after
+    const rule = rruleUtils.parse('FREQ=DAILY;UNTIL=20260310T090000Z');
+    const start = rruleUtils.getStart('2026-03-06', '09:00');
+    const activeAt = (utc: string) =>
+      rruleUtils.isActiveAt(rule, start, 60, rruleUtils.toWallClock(new Date(utc), 'America/New_York'));
+
+    expect(activeAt('2026-03-06T14:30:00Z')).toBe(true);  // 09:30 EST
+    expect(activeAt('2026-03-09T13:30:00Z')).toBe(true);  // 09:30 EDT
+    expect(activeAt('2026-03-10T13:00:00Z')).toBe(true);  // 09:00 EDT, the UNTIL time itself
+    expect(activeAt('2026-03-11T13:30:00Z')).toBe(false);
+  });
+
+  it('gives up on a rule that can never match after MAX_PERIODS periods', () => {
+    expect(nextDates('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30', '2026-01-01T09:00:00', 1)).toEqual([]);
+    expect(nextDates('FREQ=DAILY;BYMONTH=2;BYMONTHDAY=31', '2026-01-01T09:00:00', 1)).toEqual([]);
+  });
+
+  it('starts counting periods near the time asked about, so old rules keep matching', () => {
+    // Over 10000 daily periods after the start, twice MAX_PERIODS
+    expect(nextDates('FREQ=DAILY', '2000-01-01T09:00:00', 1, '2030-06-15T12:00:00')).toEqual(['2030-06-16']);
+  });
+
+  it('ends a COUNT rule that reaches past MAX_PERIODS at the cap', () => {
+    // COUNT has to replay from the start, so the 5001st day (2013-09-09) is never reached
+    expect(nextDates('FREQ=DAILY;COUNT=6000', '2000-01-01T09:00:00', 1, '2013-09-08T00:00:00')).toEqual(['2013-09-08']);
+    expect(nextDates('FREQ=DAILY;COUNT=6000', '2000-01-01T09:00:00', 1, '2013-09-09T00:00:00')).toEqual([]);
+  });
+});
@@ -0,0 +1,406 @@
+// src/lib/rrule.ts - RFC 5545 recurrence rules (RRULE) for schedules
+//
+// All times here are "wall clock" milliseconds: the schedule timezone's local
+// date and time stored as if it were UTC. That keeps "every Monday at 09:00"
+// at 09:00 across daylight saving changes.
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+  weekday: number;   // 0 = Sunday
+  ordinal?: number;  // 1MO = first Monday, -1FR = last Friday
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: number;    // Wall clock, inclusive
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  byMonth: number[]; // 0 = January
+  bySetPos: number[];
+  weekStart: number;
+}
+
+// How long each occurrence stays active when no duration is set
+export const DEFAULT_RRULE_DURATION_MINUTES = 60;
+
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Stops a rule that can never match (e.g. 30 February) from looping forever
+const MAX_PERIODS = 5000;
+
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', 5: 'fifth', [-1]: 'last' };
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Creating formatters is slow and schedule scans call toWallClock thousands of times
+const wallClockFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const parseNumberList = (value: string, name: string, min: number, max: number): number[] =>
+  value.split(',').map(item => {
+    const number = Number(item);
+    if (!Number.isInteger(number) || number === 0 || number < min || number > max) {
+      throw new Error(`Invalid ${name} value "${item}"`);
+    }
+    return number;
+  });
+
+const dayNumber = (year: number, month: number, day: number) => Date.UTC(year, month, day) / DAY_MS;
+const weekdayOf = (day: number) => new Date(day * DAY_MS).getUTCDay();
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Days between first and last matching BYDAY; ordinals count within that span
+function expandByDay(first: number, last: number, byDay: RecurrenceWeekday[]): number[] {
+  const days: number[] = [];
+  for (const { weekday, ordinal } of byDay) {
+    const matches: number[] = [];
+    for (let day = first + ((weekday - weekdayOf(first) + 7) % 7); day <= last; day += 7) {
+      matches.push(day);
+    }
+    if (!ordinal) {
+      days.push(...matches);
+    } else {
+      const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (match !== undefined) days.push(match);
+    }
+  }
+  return days;
+}
+
+function monthCandidates(rule: RecurrenceRule, year: number, month: number, startDayOfMonth: number): number[] {
+  const length = daysInMonth(year, month);
+  const first = dayNumber(year, month, 1);
+
+  if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay
+      .map(day => (day > 0 ? day : length + day + 1))
+      .filter(day => day >= 1 && day <= length)
+      .map(day => first + day - 1);
+    return rule.byDay.length > 0
+      ? days.filter(day => rule.byDay.some(({ weekday }) => weekday === weekdayOf(day)))
+      : days;
+  }
+  if (rule.byDay.length > 0) {
+    return expandByDay(first, first + length - 1, rule.byDay);
+  }
+  // Months without the start day (e.g. the 31st) are skipped, as RFC 5545 requires
+  return startDayOfMonth <= length ? [first + startDayOfMonth - 1] : [];
+}
+
+// Days (as day numbers) that the rule's k-th period contributes, before COUNT/UNTIL
+function periodCandidates(rule: RecurrenceRule, period: number, start: number): number[] {
+  const startDate = new Date(start);
+  const startDay = Math.floor(start / DAY_MS);
+  const startYear = startDate.getUTCFullYear();
+  const startMonth = startDate.getUTCMonth();
+  let days: number[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = startDay + period * rule.interval;
+      const date = new Date(day * DAY_MS);
+      const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+      const matchesMonthDay = rule.byMonthDay.length === 0 || rule.byMonthDay.some(monthDay =>
+        (monthDay > 0 ? monthDay : length + monthDay + 1) === date.getUTCDate()
+      );
+      const matchesWeekday = rule.byDay.length === 0 || rule.byDay.some(({ weekday }) => weekday === weekdayOf(day));
+      days = matchesMonthDay && matchesWeekday ? [day] : [];
+      break;
+    }
+
+    case 'WEEKLY': {
+      const weekStart = startDay - ((weekdayOf(startDay) - rule.weekStart + 7) % 7) + period * rule.interval * 7;
+      const weekdays = rule.byDay.length > 0 ? rule.byDay.map(({ weekday }) => weekday) : [weekdayOf(startDay)];
+      days = [];
+      for (let day = weekStart; day < weekStart + 7; day++) {
+        if (weekdays.includes(weekdayOf(day))) days.push(day);
+      }
+      break;
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = startYear * 12 + startMonth + period * rule.interval;
+      days = monthCandidates(rule, Math.floor(monthIndex / 12), monthIndex % 12, startDate.getUTCDate());
+      break;
+    }
+
+    case 'YEARLY': {
+      const year = startYear + period * rule.interval;
+      if (rule.byDay.length > 0 && rule.byMonth.length === 0 && rule.byMonthDay.length === 0) {
+        // e.g. BYDAY=20MO is the 20th Monday of the year
+        days = expandByDay(dayNumber(year, 0, 1), dayNumber(year, 11, 31), rule.byDay);
+      } else {
+        const months = rule.byMonth.length > 0
+          ? rule.byMonth
+          : rule.byMonthDay.length > 0 ? Array.from({ length: 12 }, (_, month) => month) : [startMonth];
+        days = months.flatMap(month => monthCandidates(rule, year, month, startDate.getUTCDate()));
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth.length > 0) {
+    days = days.filter(day => rule.byMonth.includes(new Date(day * DAY_MS).getUTCMonth()));
+  }
+
+  days = Array.from(new Set(days)).sort((a, b) => a - b);
+
+  if (rule.bySetPos.length > 0) {
+    const selected = rule.bySetPos
+      .map(position => (position > 0 ? days[position - 1] : days[days.length + position]))
+      .filter((day): day is number => day !== undefined);
+    days = Array.from(new Set(selected)).sort((a, b) => a - b);
+  }
+
+  return days;
+}
+
+// Index of a period shortly before `from`, so long-running rules don't replay years of history
+function firstPeriodBefore(rule: RecurrenceRule, start: number, from: number): number {
+  if (rule.count || from <= start) return 0;
+
+  const startDate = new Date(start);
+  const fromDate = new Date(from);
+  let elapsed: number;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      elapsed = Math.floor((from - start) / DAY_MS);
+      break;
+    case 'WEEKLY':
+      elapsed = Math.floor((from - start) / (7 * DAY_MS));
+      break;
+    case 'MONTHLY':
+      elapsed = (fromDate.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + fromDate.getUTCMonth() - startDate.getUTCMonth();
+      break;
+    case 'YEARLY':
+      elapsed = fromDate.getUTCFullYear() - startDate.getUTCFullYear();
+      break;
+  }
+
+  return Math.max(0, Math.floor(elapsed / rule.interval) - 1);
+}
+
+export const rruleUtils = {
+  // Throws with a readable message when the rule can't be used
+  parse(text: string): RecurrenceRule {
+    const body = text.trim().replace(/^RRULE:/i, '');
+    if (!body) throw new Error('Recurrence rule is empty');
+
+    const parts: Record<string, string> = {};
+    for (const part of body.split(';').filter(Boolean)) {
+      const [key, value] = part.split('=');
+      const name = key.trim().toUpperCase();
+      if (!SUPPORTED_PARTS.includes(name)) {
+        throw new Error(`${name} is not supported (use ${SUPPORTED_PARTS.join(', ')})`);
+      }
+      if (!value) throw new Error(`${name} needs a value`);
+      parts[name] = value.trim().toUpperCase();
+    }
+
+    const freq = parts.FREQ as RecurrenceFrequency;
+    if (!FREQUENCIES.includes(freq)) {
+      throw new Error(`FREQ must be one of ${FREQUENCIES.join(', ')}`);
+    }
+    if (parts.COUNT && parts.UNTIL) {
+      throw new Error('COUNT and UNTIL cannot be used together');
+    }
+
+    const rule: RecurrenceRule = {
+      freq,
+      interval: 1,
+      byDay: [],
+      byMonthDay: [],
+      byMonth: [],
+      bySetPos: [],
+      weekStart: 1,
+    };
+
+    if (parts.INTERVAL) [rule.interval] = parseNumberList(parts.INTERVAL, 'INTERVAL', 1, 1000);
+    if (parts.COUNT) [rule.count] = parseNumberList(parts.COUNT, 'COUNT', 1, 10000);
+    if (parts.UNTIL) rule.until = this.parseUntil(parts.UNTIL);
+    if (parts.BYMONTHDAY) rule.byMonthDay = parseNumberList(parts.BYMONTHDAY, 'BYMONTHDAY', -31, 31);
+    if (parts.BYMONTH) rule.byMonth = parseNumberList(parts.BYMONTH, 'BYMONTH', 1, 12).map(month => month - 1);
+    if (parts.BYSETPOS) rule.bySetPos = parseNumberList(parts.BYSETPOS, 'BYSETPOS', -366, 366);
+
+    if (parts.WKST) {
+      rule.weekStart = WEEKDAY_CODES.indexOf(parts.WKST);
+      if (rule.weekStart === -1) throw new Error(`Invalid WKST value "${parts.WKST}"`);
+    }
+
+    if (parts.BYDAY) {
+      rule.byDay = parts.BYDAY.split(',').map(item => {
+        const match = item.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+        if (!match) throw new Error(`Invalid BYDAY value "${item}"`);
+        const ordinal = match[1] ? Number(match[1]) : undefined;
+        if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+          throw new Error(`Invalid BYDAY value "${item}"`);
+        }
+        if (ordinal !== undefined && (freq === 'DAILY' || freq === 'WEEKLY')) {
+          throw new Error(`BYDAY ordinals like "${item}" need FREQ=MONTHLY or FREQ=YEARLY`);
+        }
+        return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+      });
+    }
+
+    return rule;
+  },
+
+  // Inverse of parse(), used by the schedule builder
+  stringify(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byMonth.length > 0) parts.push(`BYMONTH=${rule.byMonth.map(month => month + 1).join(',')}`);
+    if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byDay.length > 0) {
+      parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal || ''}${WEEKDAY_CODES[weekday]}`).join(',')}`);
+    }
+    if (rule.bySetPos.length > 0) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.count) parts.push(`COUNT=${rule.count}`);
+    if (rule.until !== undefined) {
+      const until = new Date(rule.until).toISOString().replace(/[-:]/g, '');
+      parts.push(`UNTIL=${until.endsWith('T235959.000Z') ? until.slice(0, 8) : until.slice(0, 15)}`);
+    }
+    if (rule.weekStart !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+    return parts.join(';');
+  },
+
+  // Returns an error message, or null when the rule is usable
+  validate(text: string): string | null {
+    try {
+      this.parse(text);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid recurrence rule';
+    }
+  },
+
+  // UNTIL is compared against the schedule's local time, even with a trailing Z
+  parseUntil(value: string): number {
+    const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (!match) throw new Error(`Invalid UNTIL value "${value}" (use YYYYMMDD or YYYYMMDDTHHMMSS)`);
+
+    const [, year, month, day, hours, minutes, seconds] = match;
+    return hours === undefined
+      ? Date.UTC(Number(year), Number(month) - 1, Number(day), 23, 59, 59)
+      : Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds));
+  },
+
+  // First occurrence (DTSTART) from the schedule's start date and time
+  getStart(date: string, time?: string | null): number {
+    const [year, month, day] = date.split('-').map(Number);
+    const [hours, minutes] = (time || '00:00').split(':').map(Number);
+    return Date.UTC(year, month - 1, day, hours || 0, minutes || 0);
+  },
+
+  toWallClock(date: Date, timezone: string): number {
+    let parts: Intl.DateTimeFormatPart[];
+    try {
+      let formatter = wallClockFormatters.get(timezone);
+      if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+          timeZone: timezone,
+          hourCycle: 'h23',
+          year: 'numeric', month: 'numeric', day: 'numeric',
+          hour: 'numeric', minute: 'numeric', second: 'numeric',
+        });
+        wallClockFormatters.set(timezone, formatter);
+      }
+      parts = formatter.formatToParts(date);
+    } catch {
+      // Unknown timezone names fall back to UTC
+      return date.getTime();
+    }
+
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value || 0);
+    return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  },
+
+  // Occurrence start times at or after `from`, in order
+  *occurrences(rule: RecurrenceRule, start: number, from: number = start): Generator<number> {
+    const timeOfDay = start - Math.floor(start / DAY_MS) * DAY_MS;
+    let seen = 0;
+
+    for (let period = firstPeriodBefore(rule, start, from), checked = 0; checked < MAX_PERIODS; period++, checked++) {
+      for (const day of periodCandidates(rule, period, start)) {
+        const occurrence = day * DAY_MS + timeOfDay;
+        if (occurrence < start) continue;
+        if (rule.until !== undefined && occurrence > rule.until) return;
+
+        seen++;
+        if (rule.count && seen > rule.count) return;
+        if (occurrence >= from) yield occurrence;
+      }
+    }
+  },
+
+  getNextOccurrences(rule: RecurrenceRule, start: number, from: number, limit: number): number[] {
+    const result: number[] = [];
+    if (limit <= 0) return result;
+
+    for (const occurrence of this.occurrences(rule, start, from)) {
+      result.push(occurrence);
+      if (result.length >= limit) break;
+    }
+    return result;
+  },
+
+  // True while `now` falls inside an occurrence lasting durationMinutes
+  isActiveAt(rule: RecurrenceRule, start: number, durationMinutes: number, now: number): boolean {
+    const durationMs = durationMinutes * 60 * 1000;
+    const [latest] = this.getNextOccurrences(rule, start, now - durationMs + 1, 1);
+    return latest !== undefined && latest <= now;
+  },
+
+  formatWallClock(wallClock: number): string {
+    return new Date(wallClock).toLocaleString([], {
+      timeZone: 'UTC',
+      weekday: 'short', year: 'numeric', month: 'short', day: 'numeric',
+      hour: '2-digit', minute: '2-digit',
+    });
+  },
+
+  formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const rest = minutes % 60;
+    if (hours === 0) return `${rest} min`;
+    return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+  },
+
+  // Short human-readable summary, e.g. "Monthly on the first Mon"
+  describe(rule: RecurrenceRule): string {
+    const units: Record<RecurrenceFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+    const plain: Record<RecurrenceFrequency, string> = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' };
+    const parts = [rule.interval === 1 ? plain[rule.freq] : `Every ${rule.interval} ${units[rule.freq]}s`];
+
+    if (rule.byMonth.length > 0) {
+      parts.push(`in ${rule.byMonth.map(month => MONTH_NAMES[month]).join(', ')}`);
+    }
+    if (rule.byMonthDay.length > 0) {
+      parts.push(`on ${rule.byMonthDay.map(day => (day === -1 ? 'the last day' : `day ${day}`)).join(', ')}`);
+    }
+    if (rule.byDay.length > 0) {
+      const days = rule.byDay.map(({ weekday, ordinal }) =>
+        ordinal ? `the ${ORDINAL_NAMES[ordinal] || `#${ordinal}`} ${DAY_NAMES[weekday]}` : DAY_NAMES[weekday]
+      );
+      parts.push(`on ${days.join(', ')}`);
+    }
+    if (rule.bySetPos.length > 0) {
+      parts.push(`(position ${rule.bySetPos.join(', ')})`);
+    }
+    if (rule.count) {
+      parts.push(`${rule.count} times`);
+    }
+    if (rule.until !== undefined) {
+      parts.push(`until ${new Date(rule.until).toISOString().slice(0, 10)}`);
+    }
+
+    return parts.join(' ');
+  }
+};
@@ -0,0 +1,312 @@
+// src/lib/schedule.test.ts - Schedule engine: time windows, dates, DST, boundaries and calendars
+import { describe, it, expect } from 'vitest';
+import type { Schedulable } from '@/lib/supabase';
+import { scheduleUtils } from '@/lib/schedule';
+import type { ScheduleCalendar } from '@/lib/calendars';
+
+const schedule = (fields: Partial<Schedulable>): Schedulable => ({
+  is_active: true,
+  schedule_type: 'always',
+  schedule_timezone: 'UTC',
+  ...fields,
+});
+
+// A single half-open 'rules' window
+const daily = (startTime: string, endTime: string, fields: Partial<Schedulable> = {}) =>
+  schedule({ schedule_type: 'rules', schedule_rules: [{ start_time: startTime, end_time: endTime }], ...fields });
+
+const isActive = (video: Schedulable, at: string, calendars: ScheduleCalendar[] = []) =>
+  scheduleUtils.isVideoScheduledNow(video, calendars, new Date(at));
+
+const nextBoundary = (video: Schedulable, from: string) =>
+  scheduleUtils.getNextBoundary(video, new Date(from))?.toISOString();
+
+describe('time windows', () => {
+  const officeHours = daily('09:00', '17:00');
+
+  it('are half-open: active from the start, inactive at the end', () => {
+    expect(isActive(officeHours, '2026-01-05T08:59:59Z')).toBe(false);
+    expect(isActive(officeHours, '2026-01-05T09:00:00Z')).toBe(true);
+    expect(isActive(officeHours, '2026-01-05T16:59:59Z')).toBe(true);
+    expect(isActive(officeHours, '2026-01-05T17:00:00Z')).toBe(false);
+  });
+
+  it('treat equal start and end times as the whole day', () => {
+    const allDay = daily('09:00', '09:00');
+    expect(isActive(allDay, '2026-01-05T00:00:00Z')).toBe(true);
+    expect(isActive(allDay, '2026-01-05T09:00:00Z')).toBe(true);
+    expect(isActive(allDay, '2026-01-05T23:59:59Z')).toBe(true);
+  });
+
+  it('run past midnight', () => {
+    const overnight = daily('22:00', '06:00');
+    expect(isActive(overnight, '2026-01-05T21:59:59Z')).toBe(false);
+    expect(isActive(overnight, '2026-01-05T22:00:00Z')).toBe(true);
+    expect(isActive(overnight, '2026-01-06T05:59:59Z')).toBe(true);
+    expect(isActive(overnight, '2026-01-06T06:00:00Z')).toBe(false);
+  });
+
+  it('include the end minute for the daily and custom types', () => {
+    const legacy = schedule({ schedule_type: 'time_daily', schedule_start_time: '09:00', schedule_end_time: '17:00' });
+    expect(isActive(legacy, '2026-01-05T08:59:59Z')).toBe(false);
+    expect(isActive(legacy, '2026-01-05T17:00:59Z')).toBe(true);
+    expect(isActive(legacy, '2026-01-05T17:01:00Z')).toBe(false);
+
+    const overnight = schedule({ schedule_type: 'custom', schedule_start_time: '22:00', schedule_end_time: '06:00' });
+    expect(isActive(overnight, '2026-01-06T06:00:59Z')).toBe(true);
+    expect(isActive(overnight, '2026-01-06T06:01:00Z')).toBe(false);
+  });
+
+  it('treat equal start and end times as a single minute for the daily and custom types', () => {
+    const oneMinute = schedule({ schedule_type: 'time_daily', schedule_start_time: '09:00', schedule_end_time: '09:00' });
+    expect(isActive(oneMinute, '2026-01-05T08:59:59Z')).toBe(false);
+    expect(isActive(oneMinute, '2026-01-05T09:00:30Z')).toBe(true);
+    expect(isActive(oneMinute, '2026-01-05T09:01:00Z')).toBe(false);
+
+    const allDay = schedule({ schedule_type: 'time_daily', schedule_start_time: '00:00', schedule_end_time: '23:59' });
+    expect(isActive(allDay, '2026-01-05T00:00:00Z')).toBe(true);
+    expect(isActive(allDay, '2026-01-05T23:59:59Z')).toBe(true);
+  });
+
+  it('give the part after midnight to the day the window started', () => {
+    // 2026-01-02 is a Friday
+    const fridayNight = schedule({
+      schedule_type: 'custom',
+      schedule_start_time: '22:00',
+      schedule_end_time: '06:00',
+      schedule_weekdays: '[5]',
+    });
+    expect(isActive(fridayNight, '2026-01-02T23:00:00Z')).toBe(true);
+    expect(isActive(fridayNight, '2026-01-03T03:00:00Z')).toBe(true);  // Saturday morning, Friday's window
+    expect(isActive(fridayNight, '2026-01-02T03:00:00Z')).toBe(false); // Friday morning, Thursday's window
+    expect(isActive(fridayNight, '2026-01-03T23:00:00Z')).toBe(false);
+  });
+
+  it('keep the after-midnight part when the date range ends on the start day', () => {
+    const lastNight = schedule({
+      schedule_type: 'custom',
+      schedule_start_date: '2026-01-01',
+      schedule_end_date: '2026-01-02',
+      schedule_start_time: '22:00',
+      schedule_end_time: '06:00',
+    });
+    expect(isActive(lastNight, '2026-01-03T02:00:00Z')).toBe(true);
+    expect(isActive(lastNight, '2026-01-03T23:00:00Z')).toBe(false);
+  });
+});
+
+describe('dates', () => {
+  it('include both the start and the end day in the schedule timezone', () => {
+    const range = schedule({
+      schedule_type: 'date_range',
+      schedule_timezone: 'Asia/Tokyo',
+      schedule_start_date: '2026-03-10',
+      schedule_end_date: '2026-03-12',
+    });
+    expect(isActive(range, '2026-03-09T14:59:59Z')).toBe(false); // 23:59 on the 9th in Tokyo
+    expect(isActive(range, '2026-03-09T15:00:00Z')).toBe(true);  // Midnight on the 10th
+    expect(isActive(range, '2026-03-12T14:59:59Z')).toBe(true);  // 23:59 on the 12th
+    expect(isActive(range, '2026-03-12T15:00:00Z')).toBe(false);
+  });
+
+  it('handle Feb 29 in leap years', () => {
+    const leapDay = schedule({ schedule_type: 'date_range', schedule_start_date: '2028-02-29', schedule_end_date: '2028-02-29' });
+    expect(isActive(leapDay, '2028-02-28T23:59:59Z')).toBe(false);
+    expect(isActive(leapDay, '2028-02-29T12:00:00Z')).toBe(true);
+    expect(isActive(leapDay, '2028-03-01T00:00:00Z')).toBe(false);
+  });
+
+  it('go straight from Feb 28 to Mar 1 in other years', () => {
+    const monthEnd = schedule({ schedule_type: 'date_range', schedule_start_date: '2027-02-28', schedule_end_date: '2027-03-01' });
+    expect(isActive(monthEnd, '2027-02-28T23:59:59Z')).toBe(true);
+    expect(isActive(monthEnd, '2027-03-01T00:00:00Z')).toBe(true);
+    expect(isActive(monthEnd, '2027-03-02T00:00:00Z')).toBe(false);
+  });
+
+  it('skip Feb 29 for yearly recurrences in non-leap years', () => {
+    const yearly = schedule({
+      schedule_type: 'rrule',
+      schedule_rrule: 'FREQ=YEARLY',
+      schedule_start_date: '2024-02-29',
+      schedule_start_time: '00:00',
+      schedule_duration_minutes: 24 * 60,
+    });
+    expect(isActive(yearly, '2028-02-29T12:00:00Z')).toBe(true);
+    expect(isActive(yearly, '2027-02-28T12:00:00Z')).toBe(false);
+    expect(isActive(yearly, '2027-03-01T12:00:00Z')).toBe(false);
+  });
+});
+
+describe('daylight saving time', () => {
+  // New York: clocks skip 02:00-03:00 on 2026-03-08 and repeat 01:00-02:00 on 2026-11-01
+  const newYork = (startTime: string, endTime: string) => daily(startTime, endTime, { schedule_timezone: 'America/New_York' });
+
+  it('follows the local clock on both sides of a change', () => {
+    const officeHours = newYork('09:00', '17:00');
+    expect(isActive(officeHours, '2026-03-07T14:00:00Z')).toBe(true);  // 09:00 EST
+    expect(isActive(officeHours, '2026-03-09T12:59:59Z')).toBe(false); // 08:59 EDT
+    expect(isActive(officeHours, '2026-03-09T13:00:00Z')).toBe(true);  // 09:00 EDT
+  });
+
+  it('opens a window that starts in the spring-forward gap at the first time after it', () => {
+    const inGap = newYork('02:30', '03:30');
+    expect(isActive(inGap, '2026-03-08T06:59:59Z')).toBe(false); // 01:59:59 EST
+    expect(isActive(inGap, '2026-03-08T07:00:00Z')).toBe(true);  // 03:00 EDT
+    expect(isActive(inGap, '2026-03-08T07:30:00Z')).toBe(false); // 03:30 EDT
+  });
+
+  it('is active both times during the repeated fall-back hour', () => {
+    const repeated = newYork('01:15', '01:45');
+    expect(isActive(repeated, '2026-11-01T05:30:00Z')).toBe(true);  // 01:30 EDT
+    expect(isActive(repeated, '2026-11-01T06:00:00Z')).toBe(false); // 01:00 EST
+    expect(isActive(repeated, '2026-11-01T06:30:00Z')).toBe(true);  // 01:30 EST
+    expect(isActive(repeated, '2026-11-01T07:00:00Z')).toBe(false); // 02:00 EST
+  });
+});
+
+describe('getNextBoundary', () => {
+  const officeHours = daily('09:00', '17:00', { schedule_timezone: 'America/New_York' });
+
+  it('returns the next window edge in the schedule timezone', () => {
+    expect(nextBoundary(officeHours, '2026-01-05T13:00:00Z')).toBe('2026-01-05T14:00:00.000Z'); // 09:00 EST
+    expect(nextBoundary(officeHours, '2026-01-05T14:00:00Z')).toBe('2026-01-05T22:00:00.000Z'); // 17:00 EST
+  });
+
+  it('puts the end of a daily window after its last minute', () => {
+    const legacy = schedule({
+      schedule_type: 'time_daily',
+      schedule_timezone: 'America/New_York',
+      schedule_start_time: '09:00',
+      schedule_end_time: '17:00',
+    });
+    expect(nextBoundary(legacy, '2026-01-05T14:00:00Z')).toBe('2026-01-05T22:01:00.000Z'); // 17:01 EST
+  });
+
+  it('maps local times correctly across spring forward', () => {
+    expect(nextBoundary(officeHours, '2026-03-07T23:00:00Z')).toBe('2026-03-08T05:00:00.000Z'); // Midnight EST
+    expect(nextBoundary(officeHours, '2026-03-08T06:00:00Z')).toBe('2026-03-08T13:00:00.000Z'); // 09:00 EDT
+  });
+
+  it('maps local times correctly across fall back', () => {
+    expect(nextBoundary(officeHours, '2026-10-31T22:00:00Z')).toBe('2026-11-01T04:00:00.000Z'); // Midnight EDT
+    expect(nextBoundary(officeHours, '2026-11-01T05:00:00Z')).toBe('2026-11-01T14:00:00.000Z'); // 09:00 EST
+  });
+
+  it('returns null for schedules that never change', () => {
+    expect(nextBoundary(schedule({}), '2026-01-05T12:00:00Z')).toBeUndefined();
+  });
+
+  it('returns the end of a recurrence in progress', () => {
+    const weekly = schedule({
+      schedule_type: 'rrule',
+      schedule_rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      schedule_start_date: '2026-01-05',
+      schedule_start_time: '09:00',
+      schedule_duration_minutes: 60,
+    });
+    expect(nextBoundary(weekly, '2026-01-12T09:30:00Z')).toBe('2026-01-12T10:00:00.000Z');
+    expect(nextBoundary(weekly, '2026-01-12T10:00:00Z')).toBe('2026-01-19T09:00:00.000Z');
+  });
+});
+
+describe('rules schedules', () => {
+  const breakfastAndWeekends = schedule({
+    schedule_type: 'rules',
+    schedule_rules: [
+      { weekdays: [1, 2, 3, 4, 5], start_time: '07:00', end_time: '10:00' },
+      { weekdays: [0, 6], start_time: '10:00', end_time: '12:00' },
+    ],
+  });
+
+  it('are active when any window matches', () => {
+    expect(isActive(breakfastAndWeekends, '2026-01-05T08:00:00Z')).toBe(true);  // Monday breakfast
+    expect(isActive(breakfastAndWeekends, '2026-01-05T11:00:00Z')).toBe(false); // Monday late morning
+    expect(isActive(breakfastAndWeekends, '2026-01-03T11:00:00Z')).toBe(true);  // Saturday late morning
+    expect(isActive(breakfastAndWeekends, '2026-01-03T08:00:00Z')).toBe(false); // Saturday breakfast
+  });
+
+  it('limit windows to their own date ranges', () => {
+    const seasonal = schedule({
+      schedule_type: 'rules',
+      schedule_rules: [{ start_date: '2026-12-01', end_date: '2026-12-24', start_time: '18:00', end_time: '02:00' }],
+    });
+    expect(isActive(seasonal, '2026-12-24T20:00:00Z')).toBe(true);
+    expect(isActive(seasonal, '2026-12-25T01:00:00Z')).toBe(true);  // Christmas Eve's window
+    expect(isActive(seasonal, '2026-12-25T20:00:00Z')).toBe(false);
+  });
+
+  it('are inactive without any window', () => {
+    expect(isActive(schedule({ schedule_type: 'rules', schedule_rules: [] }), '2026-01-05T08:00:00Z')).toBe(false);
+  });
+});
+
+describe('rrule schedules', () => {
+  const firstMonday = schedule({
+    schedule_type: 'rrule',
+    schedule_rrule: 'FREQ=MONTHLY;BYDAY=1MO',
+    schedule_start_date: '2026-01-05',
+    schedule_start_time: '09:00',
+    schedule_duration_minutes: 60,
+  });
+
+  it('are active for the duration of each occurrence', () => {
+    expect(isActive(firstMonday, '2026-02-02T08:59:59Z')).toBe(false);
+    expect(isActive(firstMonday, '2026-02-02T09:00:00Z')).toBe(true);
+    expect(isActive(firstMonday, '2026-02-02T09:59:59Z')).toBe(true);
+    expect(isActive(firstMonday, '2026-02-02T10:00:00Z')).toBe(false);
+  });
+
+  it('are inactive between occurrences and before the start date', () => {
+    expect(isActive(firstMonday, '2026-02-09T09:30:00Z')).toBe(false); // Second Monday
+    expect(isActive(firstMonday, '2025-12-01T09:30:00Z')).toBe(false);
+  });
+
+  it('follow the local clock across DST', () => {
+    const daily = schedule({
+      schedule_type: 'rrule',
+      schedule_timezone: 'America/New_York',
+      schedule_rrule: 'FREQ=DAILY',
+      schedule_start_date: '2026-03-01',
+      schedule_start_time: '09:00',
+      schedule_duration_minutes: 30,
+    });
+    expect(isActive(daily, '2026-03-07T14:10:00Z')).toBe(true); // 09:10 EST
+    expect(isActive(daily, '2026-03-09T13:10:00Z')).toBe(true); // 09:10 EDT
+    expect(isActive(daily, '2026-03-09T14:10:00Z')).toBe(false);
+  });
+
+  it('are inactive with an invalid rule', () => {
+    const invalid = schedule({ schedule_type: 'rrule', schedule_rrule: 'NOT A RULE', schedule_start_date: '2026-01-05' });
+    expect(isActive(invalid, '2026-01-05T00:30:00Z')).toBe(false);
+  });
+});
+
+describe('calendars', () => {
+  const holidays: ScheduleCalendar = {
+    id: 'holidays',
+    name: 'Holidays',
+    entries: [{ start_date: '2026-12-24', end_date: '2026-12-26', label: 'Christmas' }],
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  };
+
+  const onlyOnHolidays = schedule({ schedule_calendars: [{ calendar_id: 'holidays', mode: 'only' }] });
+  const neverOnHolidays = schedule({ schedule_calendars: [{ calendar_id: 'holidays', mode: 'never' }] });
+
+  it('play "only on" schedules on listed dates, both ends inclusive', () => {
+    expect(isActive(onlyOnHolidays, '2026-12-23T23:59:59Z', [holidays])).toBe(false);
+    expect(isActive(onlyOnHolidays, '2026-12-24T00:00:00Z', [holidays])).toBe(true);
+    expect(isActive(onlyOnHolidays, '2026-12-26T23:59:59Z', [holidays])).toBe(true);
+    expect(isActive(onlyOnHolidays, '2026-12-27T00:00:00Z', [holidays])).toBe(false);
+  });
+
+  it('keep "never on" schedules off on listed dates', () => {
+    expect(isActive(neverOnHolidays, '2026-12-25T12:00:00Z', [holidays])).toBe(false);
+    expect(isActive(neverOnHolidays, '2026-12-27T12:00:00Z', [holidays])).toBe(true);
+  });
+
+  it('keep schedules off when a referenced calendar is missing', () => {
+    expect(isActive(onlyOnHolidays, '2026-12-25T12:00:00Z')).toBe(false);
+    expect(isActive(neverOnHolidays, '2026-12-27T12:00:00Z')).toBe(false);
+  });
+});
@@ -0,0 +1,327 @@
+// src/lib/schedule.ts - Timezone-aware schedule evaluation
+//
+// Schedules are compared against the wall clock in the schedule's IANA
+// timezone. Dates are inclusive calendar days in that zone and time windows
+// are half-open [start, end), so 09:00-17:00 ends at 17:00 and back-to-back
+// windows never overlap. The 'time_daily' and 'custom' types keep their
+// original meaning and include the end minute (09:00-17:00 ends at 17:01). Across DST changes a window follows the local clock:
+// when clocks skip an hour, a window starting inside the gap opens at the
+// first local time after it; when an hour repeats, a window inside it is
+// active both times.
+import type { Schedulable, ScheduleRule } from '@/lib/supabase';
+import { rruleUtils, DEFAULT_RRULE_DURATION_MINUTES } from '@/lib/rrule';
+import { clockUtils } from '@/lib/clock';
+import { calendarUtils, ScheduleCalendar } from '@/lib/calendars';
+
+// A moment as seen on the schedule timezone's wall clock
+export interface ZonedTime {
+  date: string;      // YYYY-MM-DD
+  weekday: number;   // 0 = Sunday
+  minutes: number;   // Minutes since local midnight
+  wallClock: number; // Local date and time as UTC milliseconds (see rrule.ts)
+}
+
+const MINUTE_MS = 60 * 1000;
+const MINUTES_PER_DAY = 24 * 60;
+const DAY_MS = MINUTES_PER_DAY * MINUTE_MS;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function fromWallClock(wallClock: number): ZonedTime {
+  const date = new Date(wallClock);
+  return {
+    date: date.toISOString().slice(0, 10),
+    weekday: date.getUTCDay(),
+    minutes: date.getUTCHours() * 60 + date.getUTCMinutes(),
+    wallClock,
+  };
+}
+
+export const scheduleUtils = {
+  // Check if a video should be playing right now. `calendars` must hold every calendar
+  // the schedule refers to; a missing one keeps the video off.
+  isVideoScheduledNow(video: Schedulable, calendars: ScheduleCalendar[], currentTime?: Date): boolean {
+    if (!video.is_active) return false;
+
+    const now = this.getZonedTime(currentTime || clockUtils.now(), video.schedule_timezone || 'UTC');
+
+    // Holiday and blackout calendars apply to the local date, whatever the schedule type
+    if (!calendarUtils.allowsDate(video.schedule_calendars, now.date, calendars)) return false;
+
+    switch (video.schedule_type) {
+      case 'always':
+        return true;
+
+      case 'date_range':
+        if (!video.schedule_start_date || !video.schedule_end_date) return false;
+        return this.isWithinDates(now.date, video.schedule_start_date, video.schedule_end_date);
+
+      case 'time_daily':
+        if (!video.schedule_start_time || !video.schedule_end_time) return false;
+        return this.matchTimeWindow(now, video.schedule_start_time, video.schedule_end_time, true) !== null;
+
+      case 'weekdays':
+        if (!video.schedule_weekdays) return false;
+        return this.parseWeekdays(video.schedule_weekdays).includes(now.weekday);
+
+      case 'custom': {
+        // Combine date range, time, and weekdays
+        const day = this.matchTimeWindow(now, video.schedule_start_time, video.schedule_end_time, true);
+        if (!day) return false;
+
+        if (video.schedule_start_date && video.schedule_end_date &&
+            !this.isWithinDates(day.date, video.schedule_start_date, video.schedule_end_date)) {
+          return false;
+        }
+        if (video.schedule_weekdays && !this.parseWeekdays(video.schedule_weekdays).includes(day.weekday)) {
+          return false;
+        }
+        return true;
+      }
+
+      case 'rrule':
+        if (!video.schedule_rrule || !video.schedule_start_date) return false;
+        try {
+          return rruleUtils.isActiveAt(
+            rruleUtils.parse(video.schedule_rrule),
+            rruleUtils.getStart(video.schedule_start_date, video.schedule_start_time),
+            video.schedule_duration_minutes || DEFAULT_RRULE_DURATION_MINUTES,
+            now.wallClock
+          );
+        } catch (error) {
+          console.warn('Invalid recurrence rule:', video.schedule_rrule, error);
+          return false;
+        }
+
+      case 'rules':
+        return (video.schedule_rules || []).some(rule => this.matchesRule(rule, now));
+
+      default:
+        return false;
+    }
+  },
+
+  getZonedTime(date: Date, timezone: string): ZonedTime {
+    return fromWallClock(rruleUtils.toWallClock(date, timezone));
+  },
+
+  // Dates are compared as YYYY-MM-DD strings, both ends inclusive
+  isWithinDates(date: string, startDate?: string | null, endDate?: string | null): boolean {
+    if (startDate && date < startDate.slice(0, 10)) return false;
+    if (endDate && date > endDate.slice(0, 10)) return false;
+    return true;
+  },
+
+  // Returns the day the matching window belongs to, or null outside it.
+  // The after-midnight part of an overnight window (22:00-06:00) belongs to
+  // the day it started, so weekday and date checks use the previous day.
+  matchTimeWindow(
+    now: ZonedTime,
+    startTime?: string | null,
+    endTime?: string | null,
+    includeEndMinute = false
+  ): ZonedTime | null {
+    if (!startTime || !endTime) return now;
+
+    const start = this.timeStringToMinutes(startTime);
+    const end = (this.timeStringToMinutes(endTime) + (includeEndMinute ? 1 : 0)) % MINUTES_PER_DAY;
+
+    // Equal start and end times mean the whole day
+    if (start === end) return now;
+    if (start < end) return now.minutes >= start && now.minutes < end ? now : null;
+    if (now.minutes >= start) return now;
+    if (now.minutes < end) return fromWallClock(now.wallClock - DAY_MS);
+    return null;
+  },
+
+  matchesRule(rule: ScheduleRule, now: ZonedTime): boolean {
+    const day = this.matchTimeWindow(now, rule.start_time, rule.end_time);
+    if (!day) return false;
+    if (!this.isWithinDates(day.date, rule.start_date, rule.end_date)) return false;
+    return !rule.weekdays || rule.weekdays.length === 0 || rule.weekdays.includes(day.weekday);
+  },
+
+  // Weekdays are stored as a JSON array string, e.g. "[1,2,3,4,5]"
+  parseWeekdays(value: string): number[] {
+    try {
+      const weekdays = JSON.parse(value);
+      return Array.isArray(weekdays) ? weekdays.map(Number) : [];
+    } catch {
+      console.warn('Invalid schedule weekdays:', value);
+      return [];
+    }
+  },
+
+  // "HH:MM" or "HH:MM:SS" to minutes since midnight
+  timeStringToMinutes(timeString: string): number {
+    const [hours, minutes] = timeString.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+  },
+
+  formatRuleDescription(rule: ScheduleRule): string {
+    const parts = [];
+    if (rule.start_date || rule.end_date) {
+      parts.push(`${rule.start_date || '…'} to ${rule.end_date || '…'}`);
+    }
+    if (rule.weekdays && rule.weekdays.length > 0) {
+      parts.push(rule.weekdays.map(d => DAY_NAMES[d]).join(', '));
+    }
+    if (rule.start_time && rule.end_time) {
+      parts.push(`${rule.start_time} - ${rule.end_time}`);
+    }
+    return parts.join(' • ') || 'Every day';
+  },
+
+  formatScheduleDescription(video: Schedulable, calendars: ScheduleCalendar[]): string {
+    const base = this.formatBaseDescription(video);
+    const calendarNames = calendarUtils.describe(video.schedule_calendars, calendars);
+    return calendarNames ? `${base} • ${calendarNames}` : base;
+  },
+
+  // The schedule type's own description, without calendars
+  formatBaseDescription(video: Schedulable): string {
+    switch (video.schedule_type) {
+      case 'always':
+        return 'Always active';
+
+      case 'date_range':
+        return `${video.schedule_start_date} to ${video.schedule_end_date}`;
+
+      case 'time_daily':
+        return `Daily ${video.schedule_start_time} - ${video.schedule_end_time}`;
+
+      case 'weekdays':
+        return `Weekdays: ${this.parseWeekdays(video.schedule_weekdays || '[]').map(d => DAY_NAMES[d]).join(', ')}`;
+
+      case 'custom': {
+        const parts = [];
+        if (video.schedule_start_date && video.schedule_end_date) {
+          parts.push(`${video.schedule_start_date} to ${video.schedule_end_date}`);
+        }
+        if (video.schedule_start_time && video.schedule_end_time) {
+          parts.push(`${video.schedule_start_time} - ${video.schedule_end_time}`);
+        }
+        if (video.schedule_weekdays) {
+          parts.push(this.parseWeekdays(video.schedule_weekdays).map(d => DAY_NAMES[d]).join(', '));
+        }
+        return parts.join(' • ') || 'Custom schedule';
+      }
+
+      case 'rrule':
+        if (!video.schedule_rrule) return 'Recurring (no rule set)';
+        try {
+          const rule = rruleUtils.describe(rruleUtils.parse(video.schedule_rrule));
+          const duration = rruleUtils.formatDuration(video.schedule_duration_minutes || DEFAULT_RRULE_DURATION_MINUTES);
+          return `${rule} at ${video.schedule_start_time || '00:00'} for ${duration}`;
+        } catch {
+          return 'Invalid recurrence rule';
+        }
+
+      case 'rules':
+        if (!video.schedule_rules || video.schedule_rules.length === 0) return 'No time windows';
+        return video.schedule_rules.map(rule => this.formatRuleDescription(rule)).join(' | ');
+
+      default:
+        return 'No schedule';
+    }
+  },
+
+  // Next time a schedule can start or stop matching, so the display can re-check exactly then.
+  // Boundaries are local midnights, window starts and ends, and recurrence starts and ends.
+  getNextBoundary(video: Schedulable, from: Date = clockUtils.now()): Date | null {
+    const timezone = video.schedule_timezone || 'UTC';
+    const now = this.getZonedTime(from, timezone);
+    const midnight = Math.floor(now.wallClock / DAY_MS) * DAY_MS;
+    const candidates: number[] = [];
+
+    // Today's and tomorrow's boundaries cover overnight windows
+    const addDailyBoundaries = (starts: (string | null | undefined)[], ends: (string | null | undefined)[], endPadding = 0) => {
+      const minutes = [
+        ...starts.map(time => time && this.timeStringToMinutes(time)),
+        ...ends.map(time => time && this.timeStringToMinutes(time) + endPadding),
+      ];
+      for (const dayStart of [midnight, midnight + DAY_MS]) {
+        candidates.push(dayStart);
+        minutes.forEach(minute => {
+          if (typeof minute === 'number') candidates.push(dayStart + minute * MINUTE_MS);
+        });
+      }
+    };
+
+    switch (video.schedule_type) {
+      case 'always':
+        if (!video.schedule_calendars?.length) return null;
+        break;
+
+      case 'rrule': {
+        if (!video.schedule_rrule || !video.schedule_start_date) return null;
+        try {
+          const durationMs = (video.schedule_duration_minutes || DEFAULT_RRULE_DURATION_MINUTES) * MINUTE_MS;
+          // The first of these may be the occurrence in progress, which ends later
+          rruleUtils.getNextOccurrences(
+            rruleUtils.parse(video.schedule_rrule),
+            rruleUtils.getStart(video.schedule_start_date, video.schedule_start_time),
+            now.wallClock - durationMs + 1,
+            2
+          ).forEach(occurrence => candidates.push(occurrence, occurrence + durationMs));
+        } catch {
+          return null;
+        }
+        break;
+      }
+
+      case 'rules':
+        addDailyBoundaries(
+          (video.schedule_rules || []).map(rule => rule.start_time),
+          (video.schedule_rules || []).map(rule => rule.end_time)
+        );
+        break;
+
+      case 'time_daily':
+      case 'custom':
+        // These types include their end minute
+        addDailyBoundaries([video.schedule_start_time], [video.schedule_end_time], 1);
+        break;
+
+      default:
+        addDailyBoundaries([], []);
+    }
+
+    // Calendars can change the outcome at any midnight
+    if (video.schedule_calendars?.length) candidates.push(midnight + DAY_MS);
+
+    const next = Math.min(...candidates.filter(candidate => candidate > now.wallClock));
+    if (!isFinite(next)) return null;
+
+    // Map the local time back to an instant, correcting for a DST change in between.
+    // A boundary inside a skipped hour has no exact instant; the display's periodic re-check covers it.
+    const estimate = from.getTime() + (next - now.wallClock);
+    const corrected = estimate + next - rruleUtils.toWallClock(new Date(estimate), timezone);
+    return new Date(corrected > from.getTime() ? corrected : estimate);
+  },
+
+  // Earliest boundary across several schedules
+  getNextChange(videos: Schedulable[], from: Date = clockUtils.now()): Date | null {
+    const boundaries = videos
+      .filter(video => video.is_active)
+      .map(video => this.getNextBoundary(video, from))
+      .filter((boundary): boundary is Date => boundary !== null)
+      .sort((a, b) => a.getTime() - b.getTime());
+
+    return boundaries[0] || null;
+  },
+
+  // Next occurrence start times of a recurring schedule, in the schedule's timezone
+  getNextOccurrences(video: Schedulable, limit: number, from: Date = clockUtils.now()): number[] {
+    if (video.schedule_type !== 'rrule' || !video.schedule_rrule || !video.schedule_start_date) return [];
+    try {
+      return rruleUtils.getNextOccurrences(
+        rruleUtils.parse(video.schedule_rrule),
+        rruleUtils.getStart(video.schedule_start_date, video.schedule_start_time),
+        rruleUtils.toWallClock(from, video.schedule_timezone || 'UTC'),
+        limit
+      );
+    } catch {
+      return [];
+    }
+  }
+};
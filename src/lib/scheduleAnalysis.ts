@@ -0,0 +1,235 @@
+// src/lib/scheduleAnalysis.ts - Finds gaps, short loops, expired and invalid schedules ahead of time
+import { Video, Schedulable, mediaUtils, scheduleUtils } from '@/lib/supabase';
+import { Screen, VideoAssignment } from '@/lib/screens';
+import { Playlist, PlaylistItem, PlaybackItem, playlistUtils } from '@/lib/playlists';
+import { rruleUtils } from '@/lib/rrule';
+import { clockUtils } from '@/lib/clock';
+import { calendarUtils, ScheduleCalendar } from '@/lib/calendars';
+import { daypartUtils } from '@/lib/dayparts';
+
+export type ScheduleWarningKind = 'invalid' | 'expired' | 'gap' | 'short-loop';
+
+export interface ScheduleProblem {
+  kind: 'invalid' | 'expired';
+  message: string;
+}
+
+export interface ScheduleWarning {
+  kind: ScheduleWarningKind;
+  message: string;
+  target?: string;  // Screen or playlist name
+  videoId?: string;
+  start?: Date;
+  end?: Date;
+}
+
+// Something that plays a loop: a screen (its playlist or assigned videos) or a playlist on its own
+export interface AnalysisTarget {
+  name: string;
+  screen: Screen | null;
+  playlistItems: PlaylistItem[] | null;
+  daypartItems?: Record<string, PlaylistItem[]>;
+}
+
+// A single clip shorter than this looping on its own is worth a warning
+export const SHORT_LOOP_SECONDS = 60;
+
+export const ANALYSIS_RANGES = [7, 30];
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Coarser slots for longer scans keep the analysis quick in the browser
+const getSlotMinutes = (days: number) => (days <= 7 ? 15 : 30);
+
+const formatTime = (date: Date) =>
+  date.toLocaleString([], { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+export const scheduleAnalysis = {
+  // Problems with a schedule on its own, whatever screen it plays on. Pass null for
+  // `calendars` while they are still loading.
+  checkSchedule(schedule: Schedulable, calendars: ScheduleCalendar[] | null, now: Date = clockUtils.now()): ScheduleProblem[] {
+    const problems: ScheduleProblem[] = [];
+    const invalid = (message: string) => problems.push({ kind: 'invalid', message });
+    const today = scheduleUtils.getZonedTime(now, schedule.schedule_timezone || 'UTC').date;
+    const hasEnded = (endDate?: string | null) => !!endDate && endDate.slice(0, 10) < today;
+
+    switch (schedule.schedule_type) {
+      case 'date_range':
+      case 'custom':
+        if (schedule.schedule_type === 'date_range' && (!schedule.schedule_start_date || !schedule.schedule_end_date)) {
+          invalid('Date range needs both a start and an end date');
+        }
+        if (schedule.schedule_start_date && schedule.schedule_end_date &&
+            schedule.schedule_end_date < schedule.schedule_start_date) {
+          invalid('End date is before the start date');
+        } else if (hasEnded(schedule.schedule_end_date) &&
+                   (schedule.schedule_type === 'date_range' || schedule.schedule_start_date)) {
+          problems.push({ kind: 'expired', message: `Ended on ${schedule.schedule_end_date}` });
+        }
+        if (schedule.schedule_type === 'custom' && schedule.schedule_weekdays &&
+            scheduleUtils.parseWeekdays(schedule.schedule_weekdays).length === 0) {
+          invalid('No weekdays selected');
+        }
+        break;
+
+      case 'time_daily':
+        if (!schedule.schedule_start_time || !schedule.schedule_end_time) {
+          invalid('Daily time range needs both a start and an end time');
+        }
+        break;
+
+      case 'weekdays':
+        if (scheduleUtils.parseWeekdays(schedule.schedule_weekdays || '[]').length === 0) {
+          invalid('No weekdays selected');
+        }
+        break;
+
+      case 'rrule': {
+        if (!schedule.schedule_start_date) invalid('Recurring schedule needs a first occurrence date');
+        const ruleError = rruleUtils.validate(schedule.schedule_rrule || '');
+        if (ruleError) {
+          invalid(ruleError);
+        } else if (schedule.schedule_start_date &&
+                   !scheduleUtils.isVideoScheduledNow({ ...schedule, is_active: true, schedule_calendars: null }, [], now) &&
+                   scheduleUtils.getNextOccurrences(schedule, 1, now).length === 0) {
+          problems.push({ kind: 'expired', message: 'Recurrence rule has no occurrences left' });
+        }
+        break;
+      }
+
+      case 'rules': {
+        const rules = schedule.schedule_rules || [];
+        if (rules.length === 0) invalid('No time windows');
+        rules.forEach((rule, index) => {
+          if (rule.start_date && rule.end_date && rule.end_date < rule.start_date) {
+            invalid(`Window ${index + 1}: end date is before the start date`);
+          }
+          if (!!rule.start_time !== !!rule.end_time) {
+            invalid(`Window ${index + 1} needs both a start and an end time`);
+          }
+        });
+        if (rules.length > 0 && rules.every(rule => hasEnded(rule.end_date))) {
+          problems.push({ kind: 'expired', message: 'Every time window has ended' });
+        }
+        break;
+      }
+    }
+
+    const onlyCalendars: ScheduleCalendar[] = [];
+    for (const reference of schedule.schedule_calendars || []) {
+      const calendar = calendars && calendarUtils.getCalendar(calendars, reference.calendar_id);
+      if (!calendar) {
+        if (calendars) invalid('Refers to a calendar that no longer exists');
+      } else if (reference.mode === 'only') {
+        onlyCalendars.push(calendar);
+      }
+    }
+    if (onlyCalendars.length > 0 &&
+        onlyCalendars.every(calendar => calendar.entries.every(entry => entry.end_date < today))) {
+      problems.push({ kind: 'expired', message: 'No dates left in its "only on" calendars' });
+    }
+
+    return problems;
+  },
+
+  // Every screen, plus playlists that only play in layout zones. Without screens, the global set.
+  getTargets(screens: Screen[], playlists: Playlist[], itemsByPlaylist: Record<string, PlaylistItem[]>): AnalysisTarget[] {
+    const targets: AnalysisTarget[] = screens.map(screen => ({
+      name: screen.name,
+      screen,
+      playlistItems: screen.playlist_id ? itemsByPlaylist[screen.playlist_id] || [] : null,
+      daypartItems: itemsByPlaylist,
+    }));
+
+    if (screens.length === 0) {
+      targets.push({ name: 'All displays', screen: null, playlistItems: null });
+    }
+
+    const screenPlaylists = new Set(screens.flatMap(screen => [screen.playlist_id, ...daypartUtils.getPlaylistIds(screen)]).filter(Boolean));
+    playlists
+      .filter(playlist => !screenPlaylists.has(playlist.id) && (itemsByPlaylist[playlist.id] || []).length > 0)
+      .forEach(playlist => targets.push({
+        name: `Playlist "${playlist.name}"`,
+        screen: null,
+        playlistItems: itemsByPlaylist[playlist.id],
+      }));
+
+    return targets;
+  },
+
+  // Scans the next `days` days slot by slot with the display's own selection logic
+  analyze(
+    videos: Video[],
+    targets: AnalysisTarget[],
+    assignments: VideoAssignment[],
+    calendars: ScheduleCalendar[],
+    days: number,
+    from: Date = clockUtils.now()
+  ): ScheduleWarning[] {
+    const warnings: ScheduleWarning[] = [];
+
+    for (const video of videos.filter(v => v.is_active)) {
+      for (const problem of this.checkSchedule(video, calendars, from)) {
+        warnings.push({ ...problem, videoId: video.id, message: `${video.title}: ${problem.message}` });
+      }
+    }
+
+    // Schedules don't depend on the screen, so check each video once per slot
+    const slotMs = getSlotMinutes(days) * MINUTE_MS;
+    const slots: { at: Date; scheduled: Video[] }[] = [];
+    for (let time = from.getTime(); time < from.getTime() + days * DAY_MS; time += slotMs) {
+      const at = new Date(time);
+      slots.push({ at, scheduled: videos.filter(video => video.is_active && scheduleUtils.isVideoScheduledNow(video, calendars, at)) });
+    }
+
+    for (const target of targets) {
+      const loops = slots.map(slot =>
+        playlistUtils.selectPlaybackItems(
+          slot.scheduled, target.screen, assignments, target.playlistItems, calendars, slot.at, target.daypartItems
+        )
+      );
+      warnings.push(...this.findWindows(target.name, slots.map(slot => slot.at), loops, slotMs));
+    }
+
+    return warnings;
+  },
+
+  // Merges consecutive slots with nothing to play, or a single short clip, into warnings
+  findWindows(target: string, times: Date[], loops: PlaybackItem[][], slotMs: number): ScheduleWarning[] {
+    const warnings: ScheduleWarning[] = [];
+    let current: { key: string; start: Date; loop: PlaybackItem[] } | null = null;
+
+    const close = (end: Date) => {
+      if (!current) return;
+      const range = `${formatTime(current.start)} – ${formatTime(end)}`;
+      if (current.key === 'gap') {
+        warnings.push({ kind: 'gap', target, start: current.start, end, message: `${target}: nothing scheduled ${range}` });
+      } else {
+        const { video } = current.loop[0];
+        warnings.push({
+          kind: 'short-loop',
+          target,
+          videoId: video.id,
+          start: current.start,
+          end,
+          message: `${target}: only "${video.title}" (${mediaUtils.getDuration(video)}s) loops ${range}`,
+        });
+      }
+      current = null;
+    };
+
+    loops.forEach((loop, index) => {
+      const duration = loop.length === 1 ? mediaUtils.getDuration(loop[0].video) : 0;
+      const key = loop.length === 0
+        ? 'gap'
+        : duration > 0 && duration < SHORT_LOOP_SECONDS ? `short:${loop[0].video.id}` : null;
+
+      if (current && current.key !== key) close(times[index]);
+      if (key && !current) current = { key, start: times[index], loop };
+    });
+
+    if (times.length > 0) close(new Date(times[times.length - 1].getTime() + slotMs));
+    return warnings;
+  }
+};
@@ -0,0 +1,404 @@
+// src/lib/screens.ts - Screen registry, screen groups and video assignments
+import type { CSSProperties } from 'react';
+import { supabase, Video } from '@/lib/supabase';
+import type { ScreenDaypart } from '@/lib/dayparts';
+import type { CropRegion } from '@/lib/sync';
+
+export type ScreenRotation = 0 | 90 | 180 | 270;
+
+// contain: letterbox, cover: crop to fill, fill: fit the width, stretch: ignore the aspect ratio
+export type FitMode = 'contain' | 'cover' | 'fit-width' | 'stretch';
+
+export interface Screen {
+  id: string;
+  slug: string;            // Used in /display?screen=<slug>
+  name: string;
+  location?: string;
+  timezone: string;
+  orientation: 'landscape' | 'portrait';
+  rotation?: ScreenRotation;         // Clockwise, for panels mounted sideways or upside down
+  fit_mode?: FitMode;
+  background_color?: string;         // Shown around letterboxed content
+  safe_area_padding?: number;        // Pixels kept clear at each edge for bezels
+  group_id?: string | null;
+  playlist_id?: string | null; // When set, the display plays this playlist
+  dayparts?: ScreenDaypart[] | null;  // Weekly slots that play another playlist instead
+  layout_id?: string | null;   // Splits the display into zones; the main zone plays the content above
+  fallback_playlist_id?: string | null; // Plays whenever nothing is scheduled
+  fallback_video_id?: string | null;    // A single video or slide, used when there is no fallback playlist
+  wall_crop?: CropRegion | null;        // Part of the video this screen shows in a synchronized video wall
+  kiosk_menu_id?: string | null;        // Touch screens: a tap opens this menu over the attract loop
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ScreenGroup {
+  id: string;
+  name: string;
+  sync_playback?: boolean; // Screens in the group play on one shared timeline (a video wall)
+  created_at: string;
+}
+
+// A video with no assignments plays on every screen
+export interface VideoAssignment {
+  id: string;
+  video_id: string;
+  screen_id?: string | null;
+  group_id?: string | null;
+  created_at: string;
+}
+
+export interface AssignmentTarget {
+  screen_id?: string | null;
+  group_id?: string | null;
+}
+
+type ChangePayload = {
+  new?: Record<string, unknown>;
+  old?: Record<string, unknown>;
+};
+
+export interface ScreenDisplaySettings {
+  rotation: ScreenRotation;
+  fit_mode: FitMode;
+  background_color: string;
+  safe_area_padding: number;
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: ScreenDisplaySettings = {
+  rotation: 0,
+  fit_mode: 'contain',
+  background_color: '#000000',
+  safe_area_padding: 0,
+};
+
+const SCREEN_STORAGE_KEY = 'video-display:screen';
+const DISPLAY_SETTINGS_STORAGE_KEY = 'video-display:display-settings';
+
+export const screenUtils = {
+  getDisplaySettings(screen: Screen | null): ScreenDisplaySettings {
+    return {
+      rotation: screen?.rotation ?? DEFAULT_DISPLAY_SETTINGS.rotation,
+      fit_mode: screen?.fit_mode ?? DEFAULT_DISPLAY_SETTINGS.fit_mode,
+      background_color: screen?.background_color || DEFAULT_DISPLAY_SETTINGS.background_color,
+      safe_area_padding: Math.max(0, screen?.safe_area_padding ?? DEFAULT_DISPLAY_SETTINGS.safe_area_padding),
+    };
+  },
+
+  getCachedDisplaySettings(): ScreenDisplaySettings {
+    try {
+      const stored = window.localStorage.getItem(DISPLAY_SETTINGS_STORAGE_KEY);
+      return stored ? { ...DEFAULT_DISPLAY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_DISPLAY_SETTINGS;
+    } catch {
+      return DEFAULT_DISPLAY_SETTINGS;
+    }
+  },
+
+  storeDisplaySettings(settings: ScreenDisplaySettings) {
+    try {
+      window.localStorage.setItem(DISPLAY_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn('Unable to cache display settings:', error);
+    }
+  },
+
+  // Size and rotate the stage; at 90/270 the stage takes the viewport's height as its width
+  // so content is laid out for the panel as mounted, not squeezed into the rotated box
+  getStageStyle(settings: ScreenDisplaySettings): CSSProperties {
+    const isSideways = settings.rotation === 90 || settings.rotation === 270;
+    return {
+      position: 'fixed',
+      top: '50%',
+      left: '50%',
+      width: isSideways ? '100vh' : '100vw',
+      height: isSideways ? '100vw' : '100vh',
+      transform: `translate(-50%, -50%) rotate(${settings.rotation}deg)`,
+      backgroundColor: settings.background_color,
+      overflow: 'hidden',
+    };
+  },
+
+  // Inline styles for media inside an absolutely positioned full-size box
+  getFitStyle(fit: FitMode): CSSProperties {
+    switch (fit) {
+      case 'cover':
+        return { objectFit: 'cover' };
+      // Full panel width, cropped or letterboxed top and bottom
+      case 'fit-width':
+        return { objectFit: 'cover', height: 'auto', top: '50%', bottom: 'auto', transform: 'translateY(-50%)' };
+      // Distorts the content to cover the panel exactly (CSS object-fit: fill)
+      case 'stretch':
+        return { objectFit: 'fill' };
+      default:
+        return { objectFit: 'contain' };
+    }
+  },
+
+  // Check if a video should be shown on the given screen
+  isVideoAssignedToScreen(video: Video, screen: Screen | null, assignments: VideoAssignment[]): boolean {
+    const videoAssignments = assignments.filter(a => a.video_id === video.id);
+
+    // Unassigned videos play everywhere
+    if (videoAssignments.length === 0) return true;
+
+    // Assigned videos only play on their screens when a screen is selected
+    if (!screen) return false;
+
+    return videoAssignments.some(a =>
+      a.screen_id === screen.id ||
+      (!!screen.group_id && a.group_id === screen.group_id)
+    );
+  },
+
+  // Check if an assignment targets the given screen (directly or via its group)
+  isAssignmentForScreen(assignment: Partial<VideoAssignment>, screen: Screen | null): boolean {
+    if (!screen) return true;
+    return assignment.screen_id === screen.id ||
+      (!!screen.group_id && assignment.group_id === screen.group_id);
+  },
+
+  // Decide whether a realtime video change affects the screen currently displayed
+  isVideoChangeRelevant(
+    payload: ChangePayload,
+    screen: Screen | null,
+    currentVideoIds: string[],
+    assignments: VideoAssignment[]
+  ): boolean {
+    if (!screen) return true;
+
+    const videoId = (payload.new?.id || payload.old?.id) as string | undefined;
+    if (!videoId) return true;
+
+    // Videos already in the playlist always matter (updated, deactivated, deleted)
+    if (currentVideoIds.includes(videoId)) return true;
+
+    const videoAssignments = assignments.filter(a => a.video_id === videoId);
+    if (videoAssignments.length === 0) return true;
+
+    return videoAssignments.some(a => this.isAssignmentForScreen(a, screen));
+  },
+
+  // Decide whether a realtime assignment change affects the screen currently displayed
+  isAssignmentChangeRelevant(
+    payload: ChangePayload,
+    screen: Screen | null,
+    currentVideoIds: string[]
+  ): boolean {
+    if (!screen) return true;
+
+    const records = [payload.new, payload.old].filter(Boolean) as Partial<VideoAssignment>[];
+    if (records.length === 0) return true;
+
+    return records.some(record =>
+      this.isAssignmentForScreen(record, screen) ||
+      // Assigning a previously global video elsewhere removes it from this screen
+      (!!record.video_id && currentVideoIds.includes(record.video_id))
+    );
+  },
+
+  getStoredScreenSlug(): string | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      return window.localStorage.getItem(SCREEN_STORAGE_KEY);
+    } catch {
+      return null;
+    }
+  },
+
+  storeScreenSlug(slug: string | null) {
+    if (typeof window === 'undefined') return;
+    try {
+      if (slug) {
+        window.localStorage.setItem(SCREEN_STORAGE_KEY, slug);
+      } else {
+        window.localStorage.removeItem(SCREEN_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('Unable to persist screen selection:', error);
+    }
+  },
+
+  slugify(name: string): string {
+    return name
+      .toLowerCase()
+      .trim()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+};
+
+// Screen API functions
+export const screenApi = {
+  // Get all screens (for admin)
+  async getScreens(): Promise<Screen[]> {
+    const { data, error } = await supabase
+      .from('screens')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getScreenById(id: string): Promise<Screen | null> {
+    const { data, error } = await supabase
+      .from('screens')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  // Resolve a screen from its slug (used by the display on boot)
+  async getScreenBySlug(slug: string): Promise<Screen | null> {
+    const { data, error } = await supabase
+      .from('screens')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async addScreen(screen: Omit<Screen, 'id' | 'created_at' | 'updated_at'>): Promise<Screen> {
+    if (!screen.name || !screen.slug) {
+      throw new Error('Name and slug are required');
+    }
+
+    const { data, error } = await supabase
+      .from('screens')
+      .insert({
+        ...screen,
+        location: screen.location || null,
+        group_id: screen.group_id || null,
+        playlist_id: screen.playlist_id || null,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateScreen(id: string, updates: Partial<Screen>): Promise<Screen> {
+    const { data, error } = await supabase
+      .from('screens')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteScreen(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('screens')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async getGroups(): Promise<ScreenGroup[]> {
+    const { data, error } = await supabase
+      .from('screen_groups')
+      .select('*')
+      .order('name');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async addGroup(name: string): Promise<ScreenGroup> {
+    const { data, error } = await supabase
+      .from('screen_groups')
+      .insert({ name, created_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) throw new Error(`Database error: ${error.message} (Code: ${error.code || 'unknown'})`);
+    return data;
+  },
+
+  async updateGroup(id: string, updates: Partial<ScreenGroup>): Promise<ScreenGroup> {
+    const { data, error } = await supabase
+      .from('screen_groups')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async deleteGroup(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('screen_groups')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  // Get all video assignments
+  async getAssignments(): Promise<VideoAssignment[]> {
+    const { data, error } = await supabase
+      .from('video_assignments')
+      .select('*');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // Replace the screens/groups a video is assigned to
+  async setVideoAssignments(videoId: string, targets: AssignmentTarget[]): Promise<void> {
+    const { error: deleteError } = await supabase
+      .from('video_assignments')
+      .delete()
+      .eq('video_id', videoId);
+
+    if (deleteError) throw deleteError;
+    if (targets.length === 0) return;
+
+    const { error } = await supabase
+      .from('video_assignments')
+      .insert(targets.map(target => ({
+        video_id: videoId,
+        screen_id: target.screen_id || null,
+        group_id: target.group_id || null,
+        created_at: new Date().toISOString(),
+      })));
+
+    if (error) throw error;
+  },
+
+  // Subscribe to assignment changes
+  subscribeToAssignments(callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel('video_assignments')
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'video_assignments' },
+        callback
+      )
+      .subscribe();
+  },
+
+  // Subscribe to changes of a single screen's settings
+  subscribeToScreen(screenId: string, callback: (payload: Record<string, unknown>) => void) {
+    return supabase
+      .channel(`screen-${screenId}`)
+      .on('postgres_changes',
+        { event: '*', schema: 'public', table: 'screens', filter: `id=eq.${screenId}` },
+        callback
+      )
+      .subscribe();
+  }
+};
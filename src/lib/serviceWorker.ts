@@ -132,7 +132,7 @@ export class ServiceWorkerManager {
     }
   }
 
-  private getStatus(): ServiceWorkerStatus {
+  public getStatus(): ServiceWorkerStatus {
     return {
       isSupported: 'serviceWorker' in navigator,
       isRegistered: !!this.registration,
@@ -1,12 +1,65 @@
 // src/lib/supabase.ts - Fixed types
 import { createClient } from '@supabase/supabase-js';
+import { scheduleUtils } from '@/lib/schedule';
+import type { ScheduleCalendar } from '@/lib/calendars';
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
+// Paired displays send their device token with every database request
+export const DEVICE_TOKEN_STORAGE_KEY = 'video-display:device-token';
+export const DEVICE_TOKEN_HEADER = 'x-device-token';
+
+export function getStoredDeviceToken(): string | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const token = window.localStorage.getItem(DEVICE_TOKEN_STORAGE_KEY);
+    if (token) return token;
+  } catch {
+    // localStorage can be unavailable (private mode, kiosk policies)
+  }
+
+  // Fall back to the cookie copy in case local storage was wiped
+  const match = document.cookie.match(new RegExp(`(?:^|; )${DEVICE_TOKEN_STORAGE_KEY}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+const fetchWithDeviceToken: typeof fetch = (input, init) => {
+  const token = getStoredDeviceToken();
+  if (!token) return fetch(input, init);
+
+  const headers = new Headers(init?.headers);
+  headers.set(DEVICE_TOKEN_HEADER, token);
+  return fetch(input, { ...init, headers });
+};
+
+export const supabase = createClient(supabaseUrl, supabaseKey, {
+  global: { fetch: fetchWithDeviceToken },
+});
 
 // Updated Types to match your ACTUAL database schema
+
+// Images and web pages are stored alongside videos and play in the same playlists
+export type MediaType = 'video' | 'image' | 'html';
+
+// Seconds an image or web page stays on screen when no duration is set
+export const DEFAULT_SLIDE_DURATION = 10;
+
+// One window of a multi-window schedule; fields left empty don't restrict it
+export interface ScheduleRule {
+  start_date?: string | null;
+  end_date?: string | null;
+  start_time?: string | null;
+  end_time?: string | null;
+  weekdays?: number[] | null; // 0 = Sunday
+}
+
+// A holiday or blackout calendar a schedule only plays on, or never plays on
+export interface CalendarReference {
+  calendar_id: string;
+  mode: 'only' | 'never';
+}
+
 export interface Video {
   id: string;
   title: string;
@@ -15,22 +68,42 @@ export interface Video {
   file_name: string;
   file_size?: number;
   duration?: number;
+  media_type?: MediaType;           // Defaults to 'video'
+  display_duration?: number | null; // Seconds an image or web page is shown
   sequence_order: number;
   is_active: boolean;
   
   // Updated scheduling fields to match your database schema
-  schedule_type: 'always' | 'date_range' | 'time_daily' | 'weekdays' | 'custom';
+  schedule_type: 'always' | 'date_range' | 'time_daily' | 'weekdays' | 'custom' | 'rrule' | 'rules';
   schedule_start_date?: string;
   schedule_end_date?: string;
   schedule_start_time?: string;
   schedule_end_time?: string;
   schedule_weekdays?: string; // JSON string of weekday numbers
   schedule_timezone: string;   // This is the field that exists in your DB
+  schedule_rrule?: string | null;            // RFC 5545 RRULE, starting at schedule_start_date/time
+  schedule_duration_minutes?: number | null; // How long each occurrence stays active
+  schedule_rules?: ScheduleRule[] | null;    // Active when any window matches
+  schedule_calendars?: CalendarReference[] | null; // Applies on top of any schedule type
+
+  // Playback rules, applied by the display's rotation (see src/lib/rotation.ts)
+  play_weight?: number | null;        // Plays relative to other videos; defaults to 1
+  min_plays_per_hour?: number | null;
+  max_plays_per_day?: number | null;  // Per screen, counted from local midnight
+  no_back_to_back?: boolean | null;
+  share_of_voice?: number | null;     // Contracted percentage of play time, checked in reports
   
   created_at: string;
   updated_at: string;
 }
 
+// Schedule fields shared by videos and anything else that follows a schedule
+export type Schedulable = Pick<Video,
+  'is_active' | 'schedule_type' | 'schedule_start_date' | 'schedule_end_date' |
+  'schedule_start_time' | 'schedule_end_time' | 'schedule_weekdays' | 'schedule_timezone' |
+  'schedule_rrule' | 'schedule_duration_minutes' | 'schedule_rules' | 'schedule_calendars'
+>;
+
 export interface Timezone {
   id: number;
   name: string;
@@ -74,132 +147,38 @@ interface SchemaCheckResult {
   exception?: unknown;
 }
 
-// Updated utility functions for scheduling
-export const scheduleUtils = {
-  // Check if a video should be playing right now
-  isVideoScheduledNow(video: Video, currentTime?: Date): boolean {
-    if (!video.is_active) return false;
-    
-    const now = currentTime || new Date();
-    const timezone = video.schedule_timezone || 'UTC';
-    
-    // Convert current time to video's timezone
-    const nowInTimezone = new Date(now.toLocaleString('en-US', { timeZone: timezone }));
-    
-    switch (video.schedule_type) {
-      case 'always':
-        return true;
-        
-      case 'date_range':
-        if (!video.schedule_start_date || !video.schedule_end_date) return false;
-        const startDate = new Date(video.schedule_start_date);
-        const endDate = new Date(video.schedule_end_date);
-        endDate.setHours(23, 59, 59, 999); // Include the entire end date
-        return nowInTimezone >= startDate && nowInTimezone <= endDate;
-        
-      case 'time_daily':
-        if (!video.schedule_start_time || !video.schedule_end_time) return false;
-        const currentTime = nowInTimezone.getHours() * 100 + nowInTimezone.getMinutes();
-        const startTime = this.timeStringToMinutes(video.schedule_start_time);
-        const endTime = this.timeStringToMinutes(video.schedule_end_time);
-        
-        if (startTime <= endTime) {
-          return currentTime >= startTime && currentTime <= endTime;
-        } else {
-          // Handle overnight time ranges (e.g., 22:00 to 06:00)
-          return currentTime >= startTime || currentTime <= endTime;
-        }
-        
-      case 'weekdays':
-        if (!video.schedule_weekdays) return false;
-        const weekdays = JSON.parse(video.schedule_weekdays);
-        const currentWeekday = nowInTimezone.getDay(); // 0 = Sunday
-        return weekdays.includes(currentWeekday);
-        
-      case 'custom':
-        // Combine date range, time, and weekdays
-        let isInDateRange = true;
-        let isInTimeRange = true;
-        let isOnCorrectWeekday = true;
-        
-        if (video.schedule_start_date && video.schedule_end_date) {
-          const startDate = new Date(video.schedule_start_date);
-          const endDate = new Date(video.schedule_end_date);
-          endDate.setHours(23, 59, 59, 999);
-          isInDateRange = nowInTimezone >= startDate && nowInTimezone <= endDate;
-        }
-        
-        if (video.schedule_start_time && video.schedule_end_time) {
-          const currentTime = nowInTimezone.getHours() * 100 + nowInTimezone.getMinutes();
-          const startTime = this.timeStringToMinutes(video.schedule_start_time);
-          const endTime = this.timeStringToMinutes(video.schedule_end_time);
-          
-          if (startTime <= endTime) {
-            isInTimeRange = currentTime >= startTime && currentTime <= endTime;
-          } else {
-            isInTimeRange = currentTime >= startTime || currentTime <= endTime;
-          }
-        }
-        
-        if (video.schedule_weekdays) {
-          const weekdays = JSON.parse(video.schedule_weekdays);
-          const currentWeekday = nowInTimezone.getDay();
-          isOnCorrectWeekday = weekdays.includes(currentWeekday);
-        }
-        
-        return isInDateRange && isInTimeRange && isOnCorrectWeekday;
-        
-      default:
-        return false;
-    }
+// Schedule evaluation lives in schedule.ts; re-exported for existing imports
+export { scheduleUtils };
+
+export const mediaUtils = {
+  getMediaType(video: Video): MediaType {
+    return video.media_type || 'video';
   },
-  
-  timeStringToMinutes(timeString: string): number {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 100 + minutes;
+
+  // Slides have no natural end, so the display shows them for a fixed time
+  isSlide(video: Video): boolean {
+    return this.getMediaType(video) !== 'video';
   },
-  
-  formatScheduleDescription(video: Video): string {
-    switch (video.schedule_type) {
-      case 'always':
-        return 'Always active';
-        
-      case 'date_range':
-        return `${video.schedule_start_date} to ${video.schedule_end_date}`;
-        
-      case 'time_daily':
-        return `Daily ${video.schedule_start_time} - ${video.schedule_end_time}`;
-        
-      case 'weekdays':
-        const weekdays = JSON.parse(video.schedule_weekdays || '[]');
-        const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-        return `Weekdays: ${weekdays.map((d: number) => dayNames[d]).join(', ')}`;
-        
-      case 'custom':
-        const parts = [];
-        if (video.schedule_start_date && video.schedule_end_date) {
-          parts.push(`${video.schedule_start_date} to ${video.schedule_end_date}`);
-        }
-        if (video.schedule_start_time && video.schedule_end_time) {
-          parts.push(`${video.schedule_start_time} - ${video.schedule_end_time}`);
-        }
-        if (video.schedule_weekdays) {
-          const weekdays = JSON.parse(video.schedule_weekdays);
-          const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-          parts.push(weekdays.map((d: number) => dayNames[d]).join(', '));
-        }
-        return parts.join(' • ') || 'Custom schedule';
-        
-      default:
-        return 'No schedule';
-    }
+
+  // Playing time in seconds (0 when a video's length is unknown)
+  getDuration(video: Video): number {
+    return this.isSlide(video)
+      ? video.display_duration || DEFAULT_SLIDE_DURATION
+      : video.duration || 0;
+  },
+
+  getMediaTypeForFile(fileType: string): MediaType | null {
+    if (fileType.startsWith('video/')) return 'video';
+    if (fileType.startsWith('image/')) return 'image';
+    if (fileType === 'text/html') return 'html';
+    return null;
   }
 };
 
 // Video API functions
 export const videoApi = {
   // Get all currently scheduled active videos
-  async getScheduledVideos(currentTime?: Date): Promise<Video[]> {
+  async getScheduledVideos(calendars: ScheduleCalendar[], currentTime?: Date): Promise<Video[]> {
     const { data, error } = await supabase
       .from('videos')
       .select('*')
@@ -210,15 +189,15 @@ export const videoApi = {
     
     // Filter by schedule
     const scheduledVideos = (data || []).filter(video => 
-      scheduleUtils.isVideoScheduledNow(video, currentTime)
+      scheduleUtils.isVideoScheduledNow(video, calendars, currentTime)
     );
     
     return scheduledVideos;
   },
 
   // Get all active videos (legacy method - for compatibility)
-  async getActiveVideos(): Promise<Video[]> {
-    return this.getScheduledVideos();
+  async getActiveVideos(calendars: ScheduleCalendar[]): Promise<Video[]> {
+    return this.getScheduledVideos(calendars);
   },
 
   // Get all videos (for admin)
@@ -290,6 +269,8 @@ export const videoApi = {
         file_name: video.file_name || '',
         file_size: video.file_size || 0,
         duration: video.duration || 0,
+        media_type: video.media_type || 'video',
+        display_duration: video.display_duration || null,
         is_active: video.is_active !== undefined ? video.is_active : true,
         sequence_order: video.sequence_order || 0,
         schedule_type: video.schedule_type || 'always',
@@ -0,0 +1,19 @@
+// src/lib/supabaseServer.ts - Service role client for API routes; never import it from client components
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+let serverClient: SupabaseClient | null = null;
+
+// Device tokens can't be read with the anon key, so token checks run here
+export function getServerSupabase(): SupabaseClient {
+  if (serverClient) return serverClient;
+
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+  }
+
+  serverClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+  return serverClient;
+}
@@ -0,0 +1,72 @@
+// src/lib/sync.test.ts - Video wall sync: shared timeline position and drift correction
+import { describe, it, expect } from 'vitest';
+import type { PlaybackItem } from '@/lib/playlists';
+import { syncUtils } from '@/lib/sync';
+
+const item = (id: string, duration: number, loopCount = 1): PlaybackItem => ({
+  key: id,
+  loopCount,
+  video: {
+    id,
+    title: id,
+    file_url: `/uploads/${id}.mp4`,
+    file_name: `${id}.mp4`,
+    duration,
+    sequence_order: 0,
+    is_active: true,
+    schedule_type: 'always',
+    schedule_timezone: 'UTC',
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+  },
+});
+
+describe('getPosition', () => {
+  // A 30-second video, then a 10-second one played twice: a 50-second loop
+  const items = [item('a', 30), item('b', 10, 2)];
+
+  it('starts the loop at the Unix epoch', () => {
+    expect(syncUtils.getPosition(items, 0)).toEqual({ index: 0, offset: 0 });
+    expect(syncUtils.getPosition(items, 35_000)).toEqual({ index: 1, offset: 5 });
+  });
+
+  it('gives every screen the same position for the same server time', () => {
+    const time = Date.parse('2026-01-05T12:00:00Z'); // A whole number of 50-second loops after the epoch
+    expect(syncUtils.getPosition(items, time)).toEqual({ index: 0, offset: 0 });
+    expect(syncUtils.getPosition(items, time + 12_345)).toEqual({ index: 0, offset: 12.345 });
+    expect(syncUtils.getPosition(items, time + 49_000)).toEqual({ index: 1, offset: 19 });
+  });
+
+  it('wraps times before the epoch into the loop', () => {
+    expect(syncUtils.getPosition(items, -5_000)).toEqual({ index: 1, offset: 15 });
+  });
+
+  it('returns null for an empty loop', () => {
+    expect(syncUtils.getPosition([], 1_000)).toBeNull();
+  });
+
+  it('places looped items within their current pass', () => {
+    expect(syncUtils.getExpectedTime(items[1], { index: 1, offset: 15 })).toBe(5);
+  });
+});
+
+describe('getCorrection', () => {
+  it('seeks when more than half a second off in either direction', () => {
+    expect(syncUtils.getCorrection(0.6)).toEqual({ seekTo: true, playbackRate: 1 });
+    expect(syncUtils.getCorrection(-0.6)).toEqual({ seekTo: true, playbackRate: 1 });
+  });
+
+  it('nudges the playback rate for smaller drift', () => {
+    expect(syncUtils.getCorrection(0.05)).toEqual({ seekTo: false, playbackRate: 1.05 }); // Behind: speed up
+    expect(syncUtils.getCorrection(-0.05)).toEqual({ seekTo: false, playbackRate: 0.95 }); // Ahead: slow down
+  });
+
+  it('caps the nudge at 10%', () => {
+    expect(syncUtils.getCorrection(0.5)).toEqual({ seekTo: false, playbackRate: 1.1 });
+    expect(syncUtils.getCorrection(-0.3)).toEqual({ seekTo: false, playbackRate: 0.9 });
+  });
+
+  it('leaves aligned screens alone', () => {
+    expect(syncUtils.getCorrection(0.01)).toEqual({ seekTo: false, playbackRate: 1 });
+  });
+});
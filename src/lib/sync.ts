@@ -0,0 +1,105 @@
+// src/lib/sync.ts - Shared timeline for video walls: server clock, loop position and drift correction
+import type { CSSProperties } from 'react';
+import { mediaUtils } from '@/lib/supabase';
+import type { PlaybackItem } from '@/lib/playlists';
+
+// Part of the source video a screen shows, in percent of its width and height
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SyncPosition {
+  index: number;   // Item playing on the shared timeline
+  offset: number;  // Seconds into the item, counting every loop
+}
+
+export const SYNC_INTERVAL_MS = 250;
+export const CLOCK_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+// Further apart than this a seek is quicker than catching up
+const SEEK_THRESHOLD_SECONDS = 0.5;
+// Closer than this the screens look aligned
+const DRIFT_TOLERANCE_SECONDS = 0.03;
+// Rate changes beyond this are audible and visible
+const MAX_RATE_NUDGE = 0.1;
+
+const CLOCK_SAMPLES = 5;
+
+// Items without a known length can't be placed on a shared timeline consistently
+const UNKNOWN_DURATION_SECONDS = 30;
+
+export const syncUtils = {
+  // Seconds a single pass of an item lasts
+  getClipSeconds(item: PlaybackItem): number {
+    return item.durationOverride || mediaUtils.getDuration(item.video) || UNKNOWN_DURATION_SECONDS;
+  },
+
+  // Where every screen in the group should be at `time` (server milliseconds). The loop is
+  // anchored to the Unix epoch, so screens agree without talking to each other.
+  getPosition(items: PlaybackItem[], time: number): SyncPosition | null {
+    const durations = items.map(item => this.getClipSeconds(item) * item.loopCount * 1000);
+    const total = durations.reduce((sum, duration) => sum + duration, 0);
+    if (total <= 0) return null;
+
+    let position = ((time % total) + total) % total;
+    for (let index = 0; index < durations.length; index++) {
+      if (position < durations[index]) return { index, offset: position / 1000 };
+      position -= durations[index];
+    }
+    return { index: 0, offset: 0 };
+  },
+
+  // Where the video element should be within the current pass
+  getExpectedTime(item: PlaybackItem, position: SyncPosition): number {
+    return position.offset % this.getClipSeconds(item);
+  },
+
+  // Seek when far off, otherwise speed up or slow down a little until aligned.
+  // drift is expected minus actual time, so a positive drift means this screen is behind.
+  getCorrection(drift: number): { seekTo: boolean; playbackRate: number } {
+    if (Math.abs(drift) > SEEK_THRESHOLD_SECONDS) return { seekTo: true, playbackRate: 1 };
+    if (Math.abs(drift) < DRIFT_TOLERANCE_SECONDS) return { seekTo: false, playbackRate: 1 };
+    return { seekTo: false, playbackRate: 1 + Math.max(-MAX_RATE_NUDGE, Math.min(MAX_RATE_NUDGE, drift)) };
+  },
+
+  // Milliseconds to add to Date.now() to get the server's clock. Uses the quickest of a few
+  // round trips and assumes the reply took half of it.
+  async measureClockOffset(): Promise<number> {
+    let best: { offset: number; roundTrip: number } | null = null;
+
+    for (let sample = 0; sample < CLOCK_SAMPLES; sample++) {
+      const sentAt = Date.now();
+      const response = await fetch('/api/time', { cache: 'no-store' });
+      if (!response.ok) throw new Error(`Time request failed: ${response.status}`);
+      const { now } = await response.json();
+      const receivedAt = Date.now();
+
+      const roundTrip = receivedAt - sentAt;
+      if (!best || roundTrip < best.roundTrip) {
+        best = { offset: now - (sentAt + receivedAt) / 2, roundTrip };
+      }
+    }
+
+    return best?.offset ?? 0;
+  },
+
+  isFullFrame(crop: CropRegion | null | undefined): boolean {
+    return !crop || (crop.x === 0 && crop.y === 0 && crop.width === 100 && crop.height === 100);
+  },
+
+  // Scales the content up so only the crop region fills the screen
+  getCropStyle(crop: CropRegion): CSSProperties {
+    const width = Math.max(1, crop.width);
+    const height = Math.max(1, crop.height);
+    return {
+      position: 'absolute',
+      width: `${(100 / width) * 100}%`,
+      height: `${(100 / height) * 100}%`,
+      left: `${-(crop.x / width) * 100}%`,
+      top: `${-(crop.y / height) * 100}%`,
+    };
+  }
+};